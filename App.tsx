@@ -2,30 +2,53 @@
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { StrategyConfig, AlertLog, PositionState, TradeStats, StrategyRuntime } from './types';
-import { DEFAULT_CONFIG } from './constants';
-import Chart from './components/Chart';
+import { StrategyConfig, AlertLog, PositionState, TradeStats, StrategyRuntime, LedgerSummary, PerformanceSnapshot, GlobalRiskState, RiskLimits, SystemSettings, SymbolInfo, ReplayStatus, ReplayRequest, ReplayAction } from './types';
+import { DEFAULT_CONFIG, DEFAULT_DAILY_RESET, DEFAULT_PRELOAD_SYMBOLS, DEFAULT_MOCK_EXCHANGE } from './constants';
+import { createFlatPosition } from './services/strategyEngine';
+import { estimateLiquidationPrice } from './services/marginService';
+import { EMPTY_RISK_METRICS } from './services/riskService';
+import { resolveDailyReset, getNextDailyReset } from './services/dailyResetService';
+import { setSymbolCatalogue } from './services/symbolService';
+import Chart, { ChartPriceLine } from './components/Chart';
 import ControlPanel from './components/ControlPanel';
 import LogPanel from './components/LogPanel';
+import PerformancePanel from './components/PerformancePanel';
+import ReplayBar from './components/ReplayBar';
 
 // Use relative path (undefined) to leverage Vite proxy in dev and same-origin in prod.
 // This ensures requests go through the proxy configured in vite.config.ts to localhost:3001
 const SERVER_URL = undefined; 
 
-const INITIAL_POS_STATE: PositionState = {
-    direction: 'FLAT', 
-    initialQuantity: 0,
-    remainingQuantity: 0,
-    entryPrice: 0, 
-    highestPrice: 0, 
-    lowestPrice: 0, 
-    openTime: 0, 
-    tpLevelsHit: [], 
-    slLevelsHit: [],
-    pendingReversion: null,
-    pendingReversionReason: ''
+const INITIAL_POS_STATE: PositionState = createFlatPosition();
+const INITIAL_STATS: TradeStats = { dailyTradeCount: 0, lastTradeDate: '', cooldownUntil: 0, cooldownReason: '' };
+const INITIAL_LEDGER: LedgerSummary = { positionQty: 0, avgEntryPrice: 0, realizedPnl: 0, unrealizedPnl: 0, totalFees: 0, tradeCount: 0 };
+
+// Stop / liquidation levels of the open position (and grid levels) drawn on the chart
+const getPriceLines = (runtime: StrategyRuntime): ChartPriceLine[] => {
+  const pos = runtime.positionState;
+  const lines: ChartPriceLine[] = [];
+  if (runtime.config.strategyType === 'GRID') {
+    pos.gridLevels.forEach((level, idx) => {
+      lines.push({
+        price: level.price,
+        title: level.side === 'buy' ? `买 L${idx + 1}` : level.side === 'sell' ? `卖 L${idx + 1}` : `L${idx + 1}`,
+        color: level.side === 'buy' ? '#10b981' : level.side === 'sell' ? '#f43f5e' : '#94a3b8'
+      });
+    });
+  }
+  const liquidationPrice = estimateLiquidationPrice(runtime.config, pos);
+  if (liquidationPrice > 0) {
+    lines.push({ price: liquidationPrice, title: '强平价', color: '#9333ea' });
+  }
+  if (pos.direction !== 'FLAT' && pos.breakEvenStop > 0) {
+    lines.push({
+      price: pos.breakEvenStop,
+      title: pos.breakEvenLockedLevel > 0 ? `锁定止盈${pos.breakEvenLockedLevel}` : '保本止损',
+      color: '#f59e0b'
+    });
+  }
+  return lines;
 };
-const INITIAL_STATS: TradeStats = { dailyTradeCount: 0, lastTradeDate: '' };
 
 const App: React.FC = () => {
   // Initialize with Default Strategy immediately so UI renders even if offline
@@ -35,12 +58,30 @@ const App: React.FC = () => {
           candles: [],
           positionState: INITIAL_POS_STATE,
           tradeStats: INITIAL_STATS,
-          lastPrice: 0
+          lastPrice: 0,
+          ledger: INITIAL_LEDGER,
+          htfTrends: {},
+          riskHalt: null,
+          riskMetrics: EMPTY_RISK_METRICS
       }
   });
   const [activeStrategyId, setActiveStrategyId] = useState<string>(DEFAULT_CONFIG.id);
   const [logs, setLogs] = useState<AlertLog[]>([]);
+  const [performance, setPerformance] = useState<Record<string, PerformanceSnapshot>>({});
+  const [bottomTab, setBottomTab] = useState<'logs' | 'performance'>('logs');
   const [isConnected, setIsConnected] = useState(false);
+  const [globalRisk, setGlobalRisk] = useState<GlobalRiskState | null>(null);
+  const [systemSettings, setSystemSettings] = useState<SystemSettings>({ dailyReset: DEFAULT_DAILY_RESET, preloadSymbols: DEFAULT_PRELOAD_SYMBOLS, mockExchange: DEFAULT_MOCK_EXCHANGE });
+  const [symbolCatalogue, setSymbolCatalogueState] = useState<SymbolInfo[]>([]);
+
+  // Market replay (by strategy id): shown on the chart / logs instead of the live runner while running
+  const [replays, setReplays] = useState<Record<string, ReplayStatus>>({});
+  const [replayRuntimes, setReplayRuntimes] = useState<Record<string, StrategyRuntime>>({});
+  const [replayLogs, setReplayLogs] = useState<AlertLog[]>([]);
+  const [replayError, setReplayError] = useState('');
+  const [showReplay, setShowReplay] = useState(false);
+  // Last seen runId per strategy - a new one (start / seek) drops the previous run's logs
+  const replayRunIdsRef = useRef<Record<string, number>>({});
   const socketRef = useRef<Socket | null>(null);
   
   // Buffer for throttling updates
@@ -89,6 +130,63 @@ const App: React.FC = () => {
         setLogs(prev => [log, ...prev].slice(0, 500));
     });
 
+    // Performance (equity curve, round trips) - sent on fills, not every tick
+    socket.on('performance_full', (data: Record<string, PerformanceSnapshot>) => {
+        setPerformance(data);
+    });
+
+    socket.on('performance_update', (snapshot: PerformanceSnapshot) => {
+        setPerformance(prev => ({ ...prev, [snapshot.strategyId]: snapshot }));
+    });
+
+    // Global risk guard (settings, combined metrics, halt)
+    socket.on('risk_global', (state: GlobalRiskState) => {
+        setGlobalRisk(state);
+    });
+
+    socket.on('system_settings', (settings: SystemSettings) => {
+        setSystemSettings(settings);
+    });
+
+    // Exchange symbol lists: also feeds the sizing previews' lot sizes
+    socket.on('symbol_catalogue', (symbols: SymbolInfo[]) => {
+        setSymbolCatalogue(symbols);
+        setSymbolCatalogueState(symbols);
+    });
+
+    socket.on('risk_error', ({ id, message }: { id: string, message: string }) => {
+        console.warn(`[Risk] ${id}: ${message}`);
+    });
+
+    // Market replay: status once per replay tick, runtime when it changed, fills as they happen
+    socket.on('replay_status', (status: ReplayStatus) => {
+        if (replayRunIdsRef.current[status.strategyId] !== status.runId) {
+            replayRunIdsRef.current[status.strategyId] = status.runId;
+            setReplayLogs(prev => prev.filter(l => l.strategyId !== status.strategyId));
+        }
+        setReplays(prev => ({ ...prev, [status.strategyId]: status }));
+    });
+
+    socket.on('replay_update', ({ id, runtime }: { id: string, runtime: StrategyRuntime }) => {
+        setReplayRuntimes(prev => ({ ...prev, [id]: runtime }));
+    });
+
+    socket.on('replay_log', (log: AlertLog) => {
+        setReplayLogs(prev => [log, ...prev].slice(0, 500));
+    });
+
+    socket.on('replay_stopped', (id: string) => {
+        delete replayRunIdsRef.current[id];
+        setReplays(prev => { const next = { ...prev }; delete next[id]; return next; });
+        setReplayRuntimes(prev => { const next = { ...prev }; delete next[id]; return next; });
+        setReplayLogs(prev => prev.filter(l => l.strategyId !== id));
+    });
+
+    socket.on('replay_error', ({ id, message }: { id: string, message: string }) => {
+        console.warn(`[Replay] ${id}: ${message}`);
+        setReplayError(message);
+    });
+
     // Throttling Interval (250ms) to reduce render frequency
     const throttleInterval = setInterval(() => {
         if (Object.keys(pendingUpdatesRef.current).length > 0) {
@@ -138,6 +236,43 @@ const App: React.FC = () => {
       socketRef.current?.emit('cmd_manual_order', { id: activeStrategyId, type });
   };
 
+  const resetLedger = (id: string) => {
+      socketRef.current?.emit('cmd_reset_ledger', id);
+  };
+
+  const ackRisk = (id: string) => {
+      socketRef.current?.emit('cmd_ack_risk', id);
+  };
+
+  const updateGlobalRisk = (enabled: boolean, limits: Partial<RiskLimits>) => {
+      socketRef.current?.emit('cmd_update_global_risk', { enabled, limits });
+  };
+
+  const updateSystemSettings = (updates: Partial<SystemSettings>) => {
+      socketRef.current?.emit('cmd_update_settings', updates);
+  };
+
+  const refreshSymbols = () => {
+      socketRef.current?.emit('cmd_refresh_symbols');
+  };
+
+  const ackGlobalRisk = () => {
+      socketRef.current?.emit('cmd_ack_global_risk');
+  };
+
+  const startReplay = (request: ReplayRequest) => {
+      setReplayError('');
+      socketRef.current?.emit('cmd_replay_start', { id: activeStrategyId, request });
+  };
+
+  const controlReplay = (action: ReplayAction, value?: number) => {
+      socketRef.current?.emit('cmd_replay_control', { id: activeStrategyId, action, value });
+  };
+
+  const stopReplay = () => {
+      socketRef.current?.emit('cmd_replay_stop', activeStrategyId);
+  };
+
   // Resizing State
   const [logPanelHeight, setLogPanelHeight] = useState<number>(200);
   const isResizingRef = useRef(false);
@@ -180,11 +315,22 @@ const App: React.FC = () => {
       candles: [],
       positionState: INITIAL_POS_STATE,
       tradeStats: INITIAL_STATS,
-      lastPrice: 0
+      lastPrice: 0,
+      ledger: INITIAL_LEDGER,
+      htfTrends: {},
+      riskHalt: null,
+      riskMetrics: EMPTY_RISK_METRICS
   };
+  const dailyReset = resolveDailyReset(activeStrategy.config, systemSettings.dailyReset);
 
   const activeStrategyLogs = logs.filter(l => l.strategyId === activeStrategyId);
 
+  // While a replay of the selected strategy runs, the chart and logs follow the replay runner
+  const activeReplay = replays[activeStrategyId] || null;
+  const activeReplayRuntime = activeReplay ? replayRuntimes[activeStrategyId] || null : null;
+  const chartStrategy = activeReplayRuntime || activeStrategy;
+  const chartLogs = activeReplay ? replayLogs.filter(l => l.strategyId === activeStrategyId) : activeStrategyLogs;
+
   return (
     <div className="flex h-screen w-full bg-slate-50 text-slate-900 overflow-hidden font-sans">
       {/* Width increased to 340px (w-96 is 384px, or custom) to fit new layout better */}
@@ -200,6 +346,22 @@ const App: React.FC = () => {
            lastPrice={activeStrategy.lastPrice} 
            onManualOrder={handleManualOrder}
            positionStatus={activeStrategy.positionState.direction}
+           ledger={activeStrategy.ledger}
+           onResetLedger={resetLedger}
+           htfTrends={activeStrategy.htfTrends}
+           position={activeStrategy.positionState}
+           tradeStats={activeStrategy.tradeStats}
+           latestATR={activeStrategy.candles.length > 0 ? activeStrategy.candles[activeStrategy.candles.length - 1].atr : undefined}
+           riskHalt={activeStrategy.riskHalt}
+           riskMetrics={activeStrategy.riskMetrics}
+           globalRisk={globalRisk}
+           onAckRisk={ackRisk}
+           onUpdateGlobalRisk={updateGlobalRisk}
+           onAckGlobalRisk={ackGlobalRisk}
+           systemSettings={systemSettings}
+           onUpdateSettings={updateSystemSettings}
+           symbols={symbolCatalogue}
+           onRefreshSymbols={refreshSymbols}
         />
       </div>
 
@@ -212,24 +374,54 @@ const App: React.FC = () => {
             <div className={`text-xs px-2 py-0.5 rounded border ${isConnected ? 'bg-emerald-100 text-emerald-700 border-emerald-200' : 'bg-rose-100 text-rose-700 border-rose-200'}`}>
                 {isConnected ? '后端在线' : '后端断开 (预览模式)'}
             </div>
+            {activeStrategy.config.paperTrading && (
+                <span className="text-xs px-2 py-0.5 rounded border bg-amber-100 text-amber-700 border-amber-200">模拟交易</span>
+            )}
+            <button
+                onClick={() => setShowReplay(v => !v)}
+                className={`text-xs px-2 py-0.5 rounded border transition-colors ${activeReplay ? 'bg-sky-100 text-sky-700 border-sky-200' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'}`}
+            >
+                {activeReplay ? '▶ 回放中' : '行情回放'}
+            </button>
             <span className="text-xs text-slate-600 bg-slate-100 px-2 py-0.5 rounded border border-slate-200">
                今日交易: {activeStrategy.tradeStats.dailyTradeCount} / {activeStrategy.config.maxDailyTrades}
             </span>
+            <span className="text-xs text-slate-500" title={`每日 ${dailyReset.hour}:00 (${dailyReset.timezone}) 重置交易次数和当日盈亏`}>
+               下次重置: {new Date(getNextDailyReset(Date.now(), dailyReset)).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}
+            </span>
+            {performance[activeStrategyId] && (
+               <span className={`text-xs px-2 py-0.5 rounded border border-slate-200 bg-slate-100 font-mono ${performance[activeStrategyId].realizedToday >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  今日盈亏: {performance[activeStrategyId].realizedToday.toFixed(2)}
+               </span>
+            )}
           </div>
           <div className="flex items-center space-x-2 text-xs text-slate-500">
-             <span className="w-2 h-2 rounded-full bg-yellow-500"></span> <span>EMA7</span>
-             <span className="w-2 h-2 rounded-full bg-blue-500"></span> <span>EMA25</span>
-             <span className="w-2 h-2 rounded-full bg-purple-500"></span> <span>EMA99</span>
+             <span className="w-2 h-2 rounded-full bg-yellow-500"></span> <span>EMA{chartStrategy.config.emaFastPeriod}</span>
+             <span className="w-2 h-2 rounded-full bg-blue-500"></span> <span>EMA{chartStrategy.config.emaMidPeriod}</span>
+             <span className="w-2 h-2 rounded-full bg-purple-500"></span> <span>EMA{chartStrategy.config.emaSlowPeriod}</span>
           </div>
         </header>
 
         <div className="flex-1 p-2 relative flex flex-col min-h-0">
+          {(showReplay || activeReplay) && (
+             <ReplayBar
+                status={activeReplay}
+                runtime={activeReplayRuntime}
+                error={replayError}
+                onStart={startReplay}
+                onControl={controlReplay}
+                onStop={stopReplay}
+                onClose={() => setShowReplay(false)}
+             />
+          )}
           <div className="flex-1 rounded border border-slate-200 bg-white shadow-sm overflow-hidden relative">
              <Chart 
-                data={activeStrategy.candles} 
-                logs={activeStrategyLogs}
-                symbol={activeStrategy.config.symbol}
-                interval={activeStrategy.config.interval}
+                data={chartStrategy.candles} 
+                logs={chartLogs}
+                symbol={chartStrategy.config.symbol}
+                interval={chartStrategy.config.interval}
+                emaPeriods={{ fast: chartStrategy.config.emaFastPeriod, mid: chartStrategy.config.emaMidPeriod, slow: chartStrategy.config.emaSlowPeriod }}
+                priceLines={getPriceLines(chartStrategy)}
              />
           </div>
         </div>
@@ -242,12 +434,26 @@ const App: React.FC = () => {
            <div className="w-8 h-1 bg-slate-300 rounded-full"></div>
         </div>
 
-        {/* Resizable Log Panel Container */}
-        <div style={{ height: logPanelHeight }} className="flex-shrink-0 bg-white overflow-hidden">
-           <LogPanel 
-             logs={logs} 
-             strategies={Object.values(strategies).map((s: StrategyRuntime) => ({ id: s.config.id, name: s.config.name, symbol: s.config.symbol }))}
-           />
+        {/* Resizable Bottom Panel Container (Logs / Performance) */}
+        <div style={{ height: logPanelHeight }} className="flex-shrink-0 bg-white overflow-hidden flex flex-col">
+           <div className="flex gap-1 px-2 pt-1 bg-slate-50 border-b border-slate-200 flex-shrink-0">
+              <button onClick={() => setBottomTab('logs')} className={`text-xs px-3 py-1 rounded-t ${bottomTab === 'logs' ? 'bg-white border border-b-0 border-slate-200 font-bold text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}>信号日志</button>
+              <button onClick={() => setBottomTab('performance')} className={`text-xs px-3 py-1 rounded-t ${bottomTab === 'performance' ? 'bg-white border border-b-0 border-slate-200 font-bold text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}>策略绩效</button>
+           </div>
+           <div className="flex-1 min-h-0">
+              {bottomTab === 'logs' ? (
+                 <LogPanel 
+                   logs={activeReplay ? replayLogs : logs} 
+                   strategies={Object.values(strategies).map((s: StrategyRuntime) => ({ id: s.config.id, name: s.config.name, symbol: s.config.symbol }))}
+                 />
+              ) : (
+                 <PerformancePanel
+                   strategies={strategies}
+                   performance={performance}
+                   defaultStrategyId={activeStrategyId}
+                 />
+              )}
+           </div>
         </div>
       </div>
     </div>
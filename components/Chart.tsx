@@ -8,12 +8,22 @@ interface ChartProps {
   logs: AlertLog[];
   symbol: string;
   interval: string;
+  emaPeriods: { fast: number; mid: number; slow: number };
+  priceLines?: ChartPriceLine[];
 }
 
-const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
+// Horizontal level drawn on the candle series (e.g. active stop)
+export interface ChartPriceLine {
+  price: number;
+  title: string;
+  color: string;
+}
+
+const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval, emaPeriods, priceLines = [] }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<any>(null);
   const seriesRef = useRef<any>({});
+  const priceLinesRef = useRef<any[]>([]);
 
   // Tooltip State
   const [legend, setLegend] = useState<any>(null);
@@ -55,11 +65,11 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
     });
 
     // 2. EMA Series
-    const ema7 = chart.addLineSeries({ color: '#eab308', lineWidth: 1, crosshairMarkerVisible: false });
-    const ema25 = chart.addLineSeries({ color: '#3b82f6', lineWidth: 1, crosshairMarkerVisible: false });
-    const ema99 = chart.addLineSeries({ color: '#a855f7', lineWidth: 2, crosshairMarkerVisible: false });
+    const emaFast = chart.addLineSeries({ color: '#eab308', lineWidth: 1, crosshairMarkerVisible: false });
+    const emaMid = chart.addLineSeries({ color: '#3b82f6', lineWidth: 1, crosshairMarkerVisible: false });
+    const emaSlow = chart.addLineSeries({ color: '#a855f7', lineWidth: 2, crosshairMarkerVisible: false });
 
-    seriesRef.current = { candleSeries, ema7, ema25, ema99 };
+    seriesRef.current = { candleSeries, emaFast, emaMid, emaSlow };
     chartRef.current = chart;
 
     // Crosshair Handler for Legend
@@ -68,9 +78,9 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
             return;
         }
         const candleData = param.seriesData.get(candleSeries);
-        const e7 = param.seriesData.get(ema7);
-        const e25 = param.seriesData.get(ema25);
-        const e99 = param.seriesData.get(ema99);
+        const eFast = param.seriesData.get(emaFast);
+        const eMid = param.seriesData.get(emaMid);
+        const eSlow = param.seriesData.get(emaSlow);
 
         if (candleData) {
             setLegend({
@@ -79,9 +89,9 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
                 low: candleData.low.toFixed(2),
                 close: candleData.close.toFixed(2),
                 color: candleData.close >= candleData.open ? 'text-emerald-600' : 'text-rose-500',
-                ema7: e7?.value?.toFixed(2),
-                ema25: e25?.value?.toFixed(2),
-                ema99: e99?.value?.toFixed(2)
+                emaFast: eFast?.value?.toFixed(2),
+                emaMid: eMid?.value?.toFixed(2),
+                emaSlow: eSlow?.value?.toFixed(2)
             });
         }
     });
@@ -113,14 +123,14 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
         close: d.close
     }));
 
-    const e7 = data.map(d => d.ema7 ? ({ time: d.time / 1000, value: d.ema7 }) : null).filter(Boolean);
-    const e25 = data.map(d => d.ema25 ? ({ time: d.time / 1000, value: d.ema25 }) : null).filter(Boolean);
-    const e99 = data.map(d => d.ema99 ? ({ time: d.time / 1000, value: d.ema99 }) : null).filter(Boolean);
+    const eFast = data.map(d => d.emaFast ? ({ time: d.time / 1000, value: d.emaFast }) : null).filter(Boolean);
+    const eMid = data.map(d => d.emaMid ? ({ time: d.time / 1000, value: d.emaMid }) : null).filter(Boolean);
+    const eSlow = data.map(d => d.emaSlow ? ({ time: d.time / 1000, value: d.emaSlow }) : null).filter(Boolean);
 
     seriesRef.current.candleSeries.setData(candles);
-    seriesRef.current.ema7.setData(e7);
-    seriesRef.current.ema25.setData(e25);
-    seriesRef.current.ema99.setData(e99);
+    seriesRef.current.emaFast.setData(eFast);
+    seriesRef.current.emaMid.setData(eMid);
+    seriesRef.current.emaSlow.setData(eSlow);
 
     // Markers (Buy/Sell Signals)
     const markers = logs.map(log => {
@@ -128,7 +138,8 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
         const logTimeSec = Math.floor(log.timestamp / 1000);
         const matchedCandle = candles.find(c => c.time <= logTimeSec && c.time + 60 > logTimeSec) || candles[candles.length-1];
         
-        if (!matchedCandle) return null;
+        // Risk alerts carry no order
+        if (!matchedCandle || !log.payload) return null;
 
         const isBuy = log.payload.action.includes('buy');
         return {
@@ -150,13 +161,30 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
         low: last.low.toFixed(2),
         close: last.close.toFixed(2),
         color: last.close >= last.open ? 'text-emerald-600' : 'text-rose-500',
-        ema7: last.ema7?.toFixed(2),
-        ema25: last.ema25?.toFixed(2),
-        ema99: last.ema99?.toFixed(2)
+        emaFast: last.emaFast?.toFixed(2),
+        emaMid: last.emaMid?.toFixed(2),
+        emaSlow: last.emaSlow?.toFixed(2)
     });
 
   }, [data, logs]);
 
+  // Price Lines Effect (recreated whenever the levels change)
+  const priceLinesKey = priceLines.map(l => `${l.title}:${l.price}`).join('|');
+  useEffect(() => {
+    const candleSeries = seriesRef.current.candleSeries;
+    if (!candleSeries) return;
+
+    priceLinesRef.current.forEach(line => candleSeries.removePriceLine(line));
+    priceLinesRef.current = priceLines.map(l => candleSeries.createPriceLine({
+        price: l.price,
+        color: l.color,
+        lineWidth: 1,
+        lineStyle: 2, // Dashed
+        axisLabelVisible: true,
+        title: l.title,
+    }));
+  }, [priceLinesKey, data.length > 0]);
+
   if (data.length === 0) return <div className="flex h-full items-center justify-center text-slate-400 text-xs">Loading Data...</div>;
 
   return (
@@ -174,9 +202,9 @@ const Chart: React.FC<ChartProps> = ({ data, logs, symbol, interval }) => {
                     <span className={legend.color}>C: {legend.close}</span>
                 </div>
                 <div className="flex gap-3 mt-1 text-[10px]">
-                    {legend.ema7 && <span className="text-yellow-600">EMA7: {legend.ema7}</span>}
-                    {legend.ema25 && <span className="text-blue-600">EMA25: {legend.ema25}</span>}
-                    {legend.ema99 && <span className="text-purple-600">EMA99: {legend.ema99}</span>}
+                    {legend.emaFast && <span className="text-yellow-600">EMA{emaPeriods.fast}: {legend.emaFast}</span>}
+                    {legend.emaMid && <span className="text-blue-600">EMA{emaPeriods.mid}: {legend.emaMid}</span>}
+                    {legend.emaSlow && <span className="text-purple-600">EMA{emaPeriods.slow}: {legend.emaSlow}</span>}
                 </div>
             </div>
         )}
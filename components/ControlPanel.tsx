@@ -1,8 +1,18 @@
 
 
-import React, { useState } from 'react';
-import { StrategyConfig } from '../types';
-import { AVAILABLE_SYMBOLS, AVAILABLE_INTERVALS } from '../constants';
+import React, { useState, useEffect } from 'react';
+import { StrategyConfig, LedgerSummary, SignalRules, RuleNode, HtfFilter, IntervalType, TrendDirection, PositionState, RiskHalt, RiskMetrics, GlobalRiskState, RiskLimits, TradeStats, BlackoutWindow, SystemSettings, DailyResetSetting, MarketType, SymbolInfo, PreloadSymbol, MockExchangeSetting } from '../types';
+import { AVAILABLE_INTERVALS, SCHEDULE_TIMEZONES, AVAILABLE_EXCHANGES, AVAILABLE_MARKETS, MOCK_EXCHANGE_PORT } from '../constants';
+import { convertTogglesToRules } from '../services/ruleEngine';
+import { getGridPrices } from '../services/gridEngine';
+import { calculateEntrySize, getSymbolFilter, getContractSize } from '../services/sizingService';
+import { resolveMarketType } from '../services/exchangeService';
+import { findSymbolInfo, getMarketSymbols } from '../services/symbolService';
+import { estimateLiquidationPrice, getEffectiveLeverage, getLeverageError, getLiquidationWarnings } from '../services/marginService';
+import { createOpenPosition, getTimeExitTimezone } from '../services/strategyEngine';
+import { getScheduleStatus, describeSchedule } from '../services/scheduleService';
+import RuleEditor from './RuleEditor';
+import SymbolPicker from './SymbolPicker';
 
 interface ControlPanelProps {
   activeConfig: StrategyConfig;
@@ -15,6 +25,22 @@ interface ControlPanelProps {
   lastPrice: number;
   onManualOrder: (type: 'LONG' | 'SHORT' | 'FLAT') => void;
   positionStatus: string;
+  ledger: LedgerSummary;
+  onResetLedger: (id: string) => void;
+  htfTrends: Partial<Record<IntervalType, TrendDirection>>;
+  position: PositionState;
+  tradeStats: TradeStats;
+  latestATR?: number;
+  riskHalt: RiskHalt | null;
+  riskMetrics: RiskMetrics;
+  globalRisk: GlobalRiskState | null;
+  onAckRisk: (id: string) => void;
+  onUpdateGlobalRisk: (enabled: boolean, limits: Partial<RiskLimits>) => void;
+  onAckGlobalRisk: () => void;
+  systemSettings: SystemSettings;
+  onUpdateSettings: (updates: Partial<SystemSettings>) => void;
+  symbols: SymbolInfo[];
+  onRefreshSymbols: () => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
@@ -27,21 +53,140 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onRemoveStrategy,
   lastPrice, 
   onManualOrder, 
-  positionStatus 
+  positionStatus,
+  ledger,
+  onResetLedger,
+  htfTrends,
+  position,
+  tradeStats,
+  latestATR,
+  riskHalt,
+  riskMetrics,
+  globalRisk,
+  onAckRisk,
+  onUpdateGlobalRisk,
+  onAckGlobalRisk,
+  systemSettings,
+  onUpdateSettings,
+  symbols,
+  onRefreshSymbols
 }) => {
   
   const [activeTab, setActiveTab] = useState<'dashboard' | 'config'>('dashboard');
+  const [ruleSlot, setRuleSlot] = useState<keyof SignalRules>('long');
 
   const handleChange = (key: keyof StrategyConfig, value: any) => {
     updateConfig(activeConfig.id, { [key]: value });
   };
 
+  // Switching market also switches the symbol when it isn't listed there (BTCUSDT -> BTCUSD_PERP)
+  const changeMarket = (marketType: MarketType) => {
+      const listed = getMarketSymbols(symbols, { exchange: activeConfig.exchange, marketType });
+      const symbol = listed.some(s => s.symbol === activeConfig.symbol) || listed.length === 0 ? activeConfig.symbol : listed[0].symbol;
+      updateConfig(activeConfig.id, { marketType, symbol });
+  };
+
+  const isPreloaded = (entry: PreloadSymbol) => systemSettings.preloadSymbols.some(p =>
+      p.exchange === entry.exchange && p.marketType === entry.marketType && p.symbol === entry.symbol);
+
+  const addPreload = () => {
+      const entry: PreloadSymbol = { exchange: activeConfig.exchange, marketType, symbol: activeConfig.symbol };
+      if (!isPreloaded(entry)) onUpdateSettings({ preloadSymbols: [...systemSettings.preloadSymbols, entry] });
+  };
+
+  const removePreload = (index: number) => {
+      onUpdateSettings({ preloadSymbols: systemSettings.preloadSymbols.filter((_, i) => i !== index) });
+  };
+
+  const updateBlackout = (index: number, updates: Partial<BlackoutWindow>) => {
+      const windows = activeConfig.blackoutWindows.map((w, i) => i === index ? { ...w, ...updates } : w);
+      handleChange('blackoutWindows', windows);
+  };
+
+  const addBlackout = () => {
+      // Default: one hour starting at the next full hour
+      const start = Math.ceil(Date.now() / 3600000) * 3600000;
+      handleChange('blackoutWindows', [...activeConfig.blackoutWindows, { label: 'CPI', start, end: start + 3600000, flatten: true }]);
+  };
+
+  const updateDailyReset = (updates: Partial<DailyResetSetting>) => {
+      onUpdateSettings({ dailyReset: { ...systemSettings.dailyReset, ...updates } });
+  };
+
+  const updateMockExchange = (updates: Partial<MockExchangeSetting>) => {
+      onUpdateSettings({ mockExchange: { ...systemSettings.mockExchange, ...updates } });
+  };
+
+  const toggleWeekday = (day: number) => {
+      const days = activeConfig.scheduleWeekdays.includes(day)
+          ? activeConfig.scheduleWeekdays.filter(d => d !== day)
+          : [...activeConfig.scheduleWeekdays, day].sort();
+      handleChange('scheduleWeekdays', days);
+  };
+
   const handleArrayChange = (arrayKey: 'tpLevels' | 'slLevels', index: number, field: string, value: any) => {
       const newArray = [...activeConfig[arrayKey]];
       newArray[index] = { ...newArray[index], [field]: value };
       updateConfig(activeConfig.id, { [arrayKey]: newArray });
   };
 
+  const handleHtfChange = (index: number, updates: Partial<HtfFilter>) => {
+      const newFilters = [...activeConfig.htfFilters];
+      newFilters[index] = { ...newFilters[index], ...updates };
+      updateConfig(activeConfig.id, { htfFilters: newFilters });
+  };
+
+  const getTrendBadge = (trend?: TrendDirection) => {
+    if (trend === 'UP') return <span className="text-emerald-600 font-bold">多头</span>;
+    if (trend === 'DOWN') return <span className="text-rose-600 font-bold">空头</span>;
+    if (trend === 'NONE') return <span className="text-slate-500">震荡</span>;
+    return <span className="text-slate-400">等待数据</span>;
+  };
+
+  const handleRuleChange = (slot: keyof SignalRules, node: RuleNode | null) => {
+      updateConfig(activeConfig.id, { signalRules: { ...activeConfig.signalRules, [slot]: node } });
+  };
+
+  // Replace the rule trees with the equivalent of the current toggles and switch over
+  const handleConvertToggles = () => {
+      updateConfig(activeConfig.id, { signalRules: convertTogglesToRules(activeConfig), useRuleBuilder: true });
+  };
+
+  const RULE_SLOTS: { key: keyof SignalRules; label: string }[] = [
+      { key: 'long', label: '开多' },
+      { key: 'short', label: '开空' },
+      { key: 'exitLong', label: '平多' },
+      { key: 'exitShort', label: '平空' },
+  ];
+
+  // EMA period labels (Fast / Mid / Slow)
+  const F = activeConfig.emaFastPeriod;
+  const M = activeConfig.emaMidPeriod;
+  const S = activeConfig.emaSlowPeriod;
+
+  // Grid strategies hide the signal / exit sections
+  const isGrid = activeConfig.strategyType === 'GRID';
+  const gridPrices = isGrid ? getGridPrices(activeConfig) : [];
+
+  // Entry size the current sizing mode would produce right now
+  const sizePreview = calculateEntrySize(activeConfig, lastPrice, latestATR);
+  const symbolFilter = getSymbolFilter(activeConfig);
+  const marketType = resolveMarketType(activeConfig);
+  const isSpot = marketType === 'SPOT'; // Spot cannot be shorted - short entries are greyed out
+  const timeExitZone = getTimeExitTimezone(activeConfig, systemSettings.dailyReset);
+  const marketSymbols = getMarketSymbols(symbols, activeConfig);
+  const symbolInfo = findSymbolInfo(activeConfig);
+  const contractSize = getContractSize(activeConfig);
+
+  // Liquidation estimate of the open position; when flat, of a long the current settings would open now
+  const leverageError = getLeverageError(activeConfig);
+  const liquidationPrice = estimateLiquidationPrice(activeConfig, position);
+  const scheduleStatus = getScheduleStatus(activeConfig, Date.now());
+  const liquidationWarnings = getLiquidationWarnings(activeConfig, position);
+  const previewWarnings = position.direction === 'FLAT' && lastPrice > 0 && sizePreview.quantity > 0
+    ? getLiquidationWarnings(activeConfig, createOpenPosition('LONG', sizePreview.quantity, lastPrice, 0, activeConfig, latestATR))
+    : [];
+
   const getStatusText = (status: string) => {
     if (status === 'LONG') return '多头持仓';
     if (status === 'SHORT') return '空头持仓';
@@ -109,12 +254,36 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                     </div>
 
+                    {/* Risk Halts (global first - it has to be cleared before the strategy's own) */}
+                    {globalRisk?.halt && (
+                        <div className="bg-rose-50 p-3 rounded-lg border border-rose-300 shadow-sm space-y-2">
+                            <div className="text-xs font-bold text-rose-700">⚠ 全局风控已触发, 全部策略已停止</div>
+                            <div className="text-[11px] text-rose-600">{globalRisk.halt.reason} ({new Date(globalRisk.halt.time).toLocaleString()})</div>
+                            <button onClick={onAckGlobalRisk} className="w-full text-xs text-white bg-rose-600 rounded py-1 hover:bg-rose-700 transition-colors">确认并解除全局风控</button>
+                        </div>
+                    )}
+                    {riskHalt && (
+                        <div className="bg-rose-50 p-3 rounded-lg border border-rose-300 shadow-sm space-y-2">
+                            <div className="text-xs font-bold text-rose-700">⚠ 风控已触发, 策略已停止</div>
+                            <div className="text-[11px] text-rose-600">{riskHalt.reason} ({new Date(riskHalt.time).toLocaleString()})</div>
+                            <button onClick={() => onAckRisk(activeConfig.id)} className="w-full text-xs text-rose-700 border border-rose-300 rounded py-1 hover:bg-rose-100 transition-colors">确认并解除 (之后需手动重新启动)</button>
+                        </div>
+                    )}
+
                     {/* Active Status & Position */}
                     <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm space-y-3">
                          <div className="flex items-center justify-between border-b border-slate-100 pb-3">
                              <span className="text-xs text-slate-600 font-bold">策略运行开关</span>
-                             <Toggle checked={activeConfig.isActive} onChange={(v: boolean) => handleChange('isActive', v)} size="sm" />
+                             {riskHalt || globalRisk?.halt
+                                ? <span className="text-[10px] text-rose-600 font-bold">风控停止中</span>
+                                : <Toggle checked={activeConfig.isActive} onChange={(v: boolean) => handleChange('isActive', v)} size="sm" />}
                          </div>
+                         {activeConfig.useSchedule && (
+                            <div className={`text-[11px] rounded px-2 py-1 border ${scheduleStatus.canEnter ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-slate-50 border-slate-200 text-slate-500'}`}>
+                                <div className="font-bold">{scheduleStatus.canEnter ? '● 交易时段内' : `○ ${scheduleStatus.reason} (不开新仓)`}</div>
+                                <div className="text-[10px] opacity-80">{describeSchedule(activeConfig)}</div>
+                            </div>
+                         )}
                          <div className="flex justify-between items-center">
                             <div>
                                 <div className="text-xs text-slate-500 mb-1">当前持仓 ({activeConfig.symbol})</div>
@@ -127,6 +296,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 <div className="text-sm font-mono text-slate-900 font-bold">${lastPrice.toFixed(2)}</div>
                             </div>
                          </div>
+                         {position.direction === 'FLAT' && <CooldownCountdown until={tradeStats.cooldownUntil} reason={tradeStats.cooldownReason} />}
+                         {position.direction !== 'FLAT' && (
+                            <div className="text-[11px] font-mono space-y-0.5">
+                                <div className="flex justify-between"><span className="text-slate-500">开仓均价 / 数量</span><span>{position.entryPrice.toFixed(4)} / {position.remainingQuantity.toFixed(4)}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">预估强平价 ({activeConfig.marginMode === 'CROSS' ? '全仓' : '逐仓'} {getEffectiveLeverage(activeConfig)}x)</span><span className="text-purple-600">{liquidationPrice > 0 ? liquidationPrice.toFixed(4) : '-'}</span></div>
+                                {liquidationWarnings.map(w => (
+                                    <div key={w} className="text-[10px] text-rose-600 font-sans">⚠ {w}</div>
+                                ))}
+                            </div>
+                         )}
+                         <div className="grid grid-cols-3 gap-2 border-t border-slate-100 pt-3 text-center">
+                            <PnlStat label="已实现" value={ledger.realizedPnl} />
+                            <PnlStat label="未实现" value={ledger.unrealizedPnl} />
+                            <div>
+                                <div className="text-[10px] text-slate-500">手续费</div>
+                                <div className="text-xs font-mono text-slate-600">{ledger.totalFees.toFixed(2)}</div>
+                            </div>
+                         </div>
                     </div>
 
                     {/* Market Settings */}
@@ -134,21 +321,99 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">市场 & 基础设置</h3>
                         <div className="space-y-3">
                             <Input label="策略名称" value={activeConfig.name} onChange={(v: string) => handleChange('name', v)} />
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block text-slate-600 text-xs mb-1 font-medium">行情来源</label>
+                                    <select value={activeConfig.exchange} onChange={(e) => handleChange('exchange', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm">
+                                        {AVAILABLE_EXCHANGES.map(x => <option key={x.id} value={x.id}>{x.label}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-slate-600 text-xs mb-1 font-medium">市场类型</label>
+                                    {/* Only Binance serves COIN-M / spot here */}
+                                    <select value={marketType} disabled={activeConfig.exchange !== 'BINANCE'} onChange={(e) => changeMarket(e.target.value as MarketType)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm disabled:bg-slate-100 disabled:text-slate-400">
+                                        {AVAILABLE_MARKETS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                </div>
+                            </div>
                             <div>
                                 <label className="block text-slate-600 text-xs mb-1 font-medium">交易对</label>
-                                <input 
-                                list="symbols" 
-                                value={activeConfig.symbol} 
-                                onChange={(e) => handleChange('symbol', e.target.value.toUpperCase())}
-                                className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
-                                placeholder="如 BTCUSDT"
+                                <SymbolPicker
+                                value={activeConfig.symbol}
+                                symbols={marketSymbols}
+                                onChange={(v: string) => handleChange('symbol', v)}
+                                placeholder={marketType === 'COIN_M' ? '搜索, 如 BTCUSD_PERP' : '搜索, 如 BTCUSDT'}
                                 />
-                                <datalist id="symbols">
-                                {AVAILABLE_SYMBOLS.map(s => <option key={s} value={s} />)}
-                                </datalist>
+                                {symbolInfo && symbolInfo.status !== 'TRADING' && (
+                                    <div className="text-[10px] text-rose-600 mt-1">该交易对当前状态 {symbolInfo.status}, 无法交易</div>
+                                )}
                             </div>
                             <Select label="K线周期" value={activeConfig.interval} options={AVAILABLE_INTERVALS} onChange={(v: string) => handleChange('interval', v)} />
-                            <Input label="开仓金额 (USDT)" type="number" value={activeConfig.tradeAmount} onChange={(v: string) => handleChange('tradeAmount', parseFloat(v))} />
+                            <div className="mb-2">
+                                <label className="block text-slate-600 text-xs mb-1 font-medium">策略类型</label>
+                                <select
+                                    value={activeConfig.strategyType}
+                                    onChange={(e) => handleChange('strategyType', e.target.value)}
+                                    className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
+                                >
+                                    <option value="SIGNAL">信号策略 (EMA / MACD ...)</option>
+                                    <option value="GRID">网格策略</option>
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                <Input label="交易所标识" value={activeConfig.tvExchange} onChange={(v: string) => handleChange('tvExchange', v.toUpperCase())} />
+                                <Input label={`杠杆 (最高 ${symbolFilter.maxLeverage}x)`} type="number" value={activeConfig.leverage} onChange={(v: string) => handleChange('leverage', parseInt(v) || 0)} />
+                                <div className="mb-2">
+                                    <label className="block text-slate-600 text-xs mb-1 font-medium">保证金模式</label>
+                                    <select
+                                        value={activeConfig.marginMode}
+                                        onChange={(e) => handleChange('marginMode', e.target.value)}
+                                        className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
+                                    >
+                                        <option value="ISOLATED">逐仓</option>
+                                        <option value="CROSS">全仓</option>
+                                    </select>
+                                </div>
+                            </div>
+                            {leverageError && <div className="text-[10px] text-rose-600">{leverageError}</div>}
+                            {previewWarnings.map(w => (
+                                <div key={w} className="text-[10px] text-amber-600">⚠ 以当前价开多: {w}</div>
+                            ))}
+                            <div className="mb-2">
+                                <label className="block text-slate-600 text-xs mb-1 font-medium">仓位计算</label>
+                                <select
+                                    value={activeConfig.sizingMode}
+                                    onChange={(e) => handleChange('sizingMode', e.target.value)}
+                                    className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
+                                >
+                                    <option value="FIXED">固定金额</option>
+                                    <option value="RISK">固定风险 (按止损距离)</option>
+                                    <option value="VOLATILITY">波动率目标 (ATR)</option>
+                                    <option value="BALANCE_PCT">账户余额百分比</option>
+                                </select>
+                            </div>
+                            {activeConfig.sizingMode === 'FIXED' ? (
+                                <Input label="开仓金额 (USDT)" type="number" value={activeConfig.tradeAmount} onChange={(v: string) => handleChange('tradeAmount', parseFloat(v))} />
+                            ) : (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <Input label="账户余额 (USDT)" type="number" value={activeConfig.accountBalance} onChange={(v: string) => handleChange('accountBalance', parseFloat(v))} />
+                                    {activeConfig.sizingMode === 'RISK' && <Input label="单笔风险 %" type="number" value={activeConfig.riskPct} onChange={(v: string) => handleChange('riskPct', parseFloat(v))} />}
+                                    {activeConfig.sizingMode === 'VOLATILITY' && <Input label="每 ATR 风险 %" type="number" value={activeConfig.volTargetPct} onChange={(v: string) => handleChange('volTargetPct', parseFloat(v))} />}
+                                    {activeConfig.sizingMode === 'BALANCE_PCT' && <Input label="仓位占余额 %" type="number" value={activeConfig.balancePct} onChange={(v: string) => handleChange('balancePct', parseFloat(v))} />}
+                                </div>
+                            )}
+                            {activeConfig.sizingMode !== 'FIXED' && (
+                                <p className="text-[10px] text-slate-500 leading-tight">
+                                    {activeConfig.sizingMode === 'RISK' && '数量 = 余额 × 风险% ÷ 止损距离 (取 ATR止损 / 固定止损 / 最深分批止损中最近的一个)。无止损时按固定金额。'}
+                                    {activeConfig.sizingMode === 'VOLATILITY' && '数量 = 余额 × 风险% ÷ ATR，波动越大仓位越小。无 ATR 时按固定金额。'}
+                                    {activeConfig.sizingMode === 'BALANCE_PCT' && '名义价值 = 余额 × 百分比。'}
+                                </p>
+                            )}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100 text-[11px] font-mono space-y-0.5">
+                                <div className="flex justify-between"><span className="text-slate-500">当前开仓数量</span><span>{sizePreview.quantity > 0 ? `${sizePreview.quantity}${contractSize > 0 ? ' 张' : ''} (${sizePreview.amount.toFixed(2)}U)` : '低于最小下单量'}</span></div>
+                                <div className="text-[10px] text-slate-400 truncate" title={sizePreview.note}>{sizePreview.note}</div>
+                                <div className="text-[10px] text-slate-400">步长 {symbolFilter.stepSize} / 最小 {symbolFilter.minQty}{!!symbolFilter.minNotional && ` / 最小名义 ${symbolFilter.minNotional}U`}{contractSize > 0 && ` / 每张 ${contractSize} USD`}</div>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -172,7 +437,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                              <Select 
                                 label="持仓方向" 
                                 value={activeConfig.takeoverDirection} 
-                                options={['FLAT', 'LONG', 'SHORT']} 
+                                options={isSpot ? ['FLAT', 'LONG'] : ['FLAT', 'LONG', 'SHORT']} 
                                 onChange={(v: string) => handleChange('takeoverDirection', v)} 
                              />
                              <Input 
@@ -191,9 +456,51 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                     </div>
 
-                    {/* SIGNAL CONFIGURATION */}
+                    {/* GRID CONFIGURATION */}
+                    {isGrid && (
                     <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">网格配置</h3>
+                        <div className="space-y-3">
+                            <p className="text-[10px] text-slate-500 leading-tight">
+                                在价格区间内等距挂单：下方买入、上方卖出。买单成交后在上一格挂卖单，卖单成交后在下一格挂买单。增加净持仓的成交受交易时段、每日交易次数与冷却限制，时段平仓时按市价清仓。网格模式下信号配置与出场管理不生效。
+                            </p>
+                            <div className="mb-2">
+                                <label className="block text-slate-600 text-xs mb-1 font-medium">网格方向</label>
+                                <select
+                                    value={activeConfig.gridMode}
+                                    onChange={(e) => handleChange('gridMode', e.target.value)}
+                                    className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
+                                >
+                                    <option value="NEUTRAL">中性 (双向)</option>
+                                    <option value="LONG">只做多</option>
+                                    <option value="SHORT" disabled={isSpot}>只做空</option>
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Input label="区间下限" type="number" value={activeConfig.gridLower} onChange={(v: string) => handleChange('gridLower', parseFloat(v))} />
+                                <Input label="区间上限" type="number" value={activeConfig.gridUpper} onChange={(v: string) => handleChange('gridUpper', parseFloat(v))} />
+                                <Input label="网格线数量" type="number" value={activeConfig.gridLevelCount} onChange={(v: string) => handleChange('gridLevelCount', parseInt(v) || 0)} />
+                                <Input label="每格金额 (USDT)" type="number" value={activeConfig.gridLevelAmount} onChange={(v: string) => handleChange('gridLevelAmount', parseFloat(v))} />
+                            </div>
+                            <Toggle label="成交后自动重新挂单" size="sm" checked={activeConfig.gridRearm} onChange={(v: boolean) => handleChange('gridRearm', v)} />
+                            {gridPrices.length === 0 && (
+                                <div className="text-[10px] text-rose-600">区间无效: 需要 下限 &gt; 0、上限 &gt; 下限、至少 2 条网格线。</div>
+                            )}
+                            {position.gridLevels.length > 0 && (
+                                <div className="bg-slate-50 p-2 rounded border border-slate-100 text-[11px] font-mono space-y-0.5">
+                                    <div className="flex justify-between"><span className="text-slate-500">买单 / 卖单</span><span><span className="text-emerald-600">{position.gridLevels.filter(l => l.side === 'buy').length}</span> / <span className="text-rose-600">{position.gridLevels.filter(l => l.side === 'sell').length}</span></span></div>
+                                    <div className="flex justify-between"><span className="text-slate-500">累计成交</span><span>{position.gridLevels.reduce((sum, l) => sum + l.fillCount, 0)}</span></div>
+                                    <div className="flex justify-between"><span className="text-slate-500">净持仓</span><span>{position.direction === 'FLAT' ? '-' : `${position.direction} ${position.remainingQuantity.toFixed(4)} @ ${position.entryPrice.toFixed(4)}`}</span></div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                    )}
+
+                    {/* SIGNAL CONFIGURATION */}
+                    <div className={`bg-white p-3 rounded-lg border border-slate-200 shadow-sm ${isGrid ? 'hidden' : ''}`}>
                         <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">信号配置</h3>
+                        {isSpot && <p className="text-[10px] text-amber-600 mb-2">现货市场不能做空：开空信号、多转空反手与手动开空均不生效。</p>}
                         
                         <div className="space-y-4">
                             {/* Trigger Mode */}
@@ -206,11 +513,76 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 </div>
                             </div>
 
+                            {/* Multi-Timeframe Confirmation */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="多周期趋势确认" checked={activeConfig.useHtfFilter} onChange={(v: boolean) => handleChange('useHtfFilter', v)} className="mb-2 font-bold text-cyan-700"/>
+                                {activeConfig.useHtfFilter && (
+                                    <div className="space-y-2 mt-2 border-t border-slate-200 pt-2">
+                                        <p className="text-[10px] text-slate-500 leading-tight">
+                                            取大周期最近一根已收盘K线的 EMA 排列 ({F}/{M}/{S}) 判断趋势，与之不一致的开仓信号被拦截。平仓不受影响。
+                                        </p>
+                                        <Toggle label="要求同向趋势 (关闭则仅拦截逆势)" checked={activeConfig.htfRequireAligned} onChange={(v: boolean) => handleChange('htfRequireAligned', v)} size="sm" />
+                                        {activeConfig.htfFilters.map((f, idx) => (
+                                            <div key={`htf-${idx}`} className="flex items-center gap-2 bg-white p-1.5 rounded border border-slate-200">
+                                                <Toggle checked={f.active} onChange={(v: boolean) => handleHtfChange(idx, { active: v })} size="sm" />
+                                                <select
+                                                    value={f.interval}
+                                                    onChange={(e) => handleHtfChange(idx, { interval: e.target.value as IntervalType })}
+                                                    className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none"
+                                                >
+                                                    {AVAILABLE_INTERVALS.map(i => <option key={i} value={i}>{i}</option>)}
+                                                </select>
+                                                <span className="text-[11px] flex-1">{!f.active ? <span className="text-slate-400">未启用</span> : f.interval === activeConfig.interval ? <span className="text-slate-500">同主周期</span> : getTrendBadge(htfTrends[f.interval])}</span>
+                                                <button onClick={() => handleChange('htfFilters', activeConfig.htfFilters.filter((_, i) => i !== idx))} className="text-rose-500 text-[10px] hover:text-rose-600">删除</button>
+                                            </div>
+                                        ))}
+                                        <button onClick={() => handleChange('htfFilters', [...activeConfig.htfFilters, { interval: '4h', active: true }])} className="text-[11px] text-blue-600 hover:underline">+ 添加周期</button>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Rule Builder */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="规则构建器 (AND/OR/NOT)" checked={activeConfig.useRuleBuilder} onChange={(v: boolean) => handleChange('useRuleBuilder', v)} className="mb-2 font-bold text-teal-600"/>
+                                <p className="text-[10px] text-slate-500 mb-2 leading-tight">
+                                    开启后由下方规则树产生开平仓信号，指标开关信号失效 (指标参数、趋势过滤、价格回归仍生效)。
+                                </p>
+                                <button onClick={handleConvertToggles} className="w-full text-xs text-teal-700 border border-teal-300 rounded py-1 hover:bg-teal-50 transition-colors mb-2">
+                                    从当前开关生成规则 (覆盖)
+                                </button>
+                                {activeConfig.useRuleBuilder && (
+                                    <div className="border-t border-slate-200 pt-2 space-y-2">
+                                        <div className="flex gap-1">
+                                            {RULE_SLOTS.map(slot => (
+                                                <button
+                                                    key={slot.key}
+                                                    onClick={() => setRuleSlot(slot.key)}
+                                                    className={`flex-1 text-[11px] py-1 rounded ${ruleSlot === slot.key ? 'bg-teal-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+                                                >
+                                                    {slot.label}{activeConfig.signalRules[slot.key] ? ' ●' : ''}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <RuleEditor node={activeConfig.signalRules[ruleSlot]} onChange={(node) => handleRuleChange(ruleSlot, node)} />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* EMA Periods */}
+                            <div className="space-y-2">
+                                <div className="text-xs font-bold text-slate-600">EMA 周期</div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <Input label="快线" type="number" value={activeConfig.emaFastPeriod} onChange={(v: string) => handleChange('emaFastPeriod', parseInt(v))} />
+                                    <Input label="中线" type="number" value={activeConfig.emaMidPeriod} onChange={(v: string) => handleChange('emaMidPeriod', parseInt(v))} />
+                                    <Input label="慢线" type="number" value={activeConfig.emaSlowPeriod} onChange={(v: string) => handleChange('emaSlowPeriod', parseInt(v))} />
+                                </div>
+                            </div>
+
                             {/* Trend Filter */}
                             <div className="space-y-2">
                                 <div className="text-xs font-bold text-slate-600">趋势过滤</div>
-                                <Toggle label="多头趋势 (7>25>99) 不开空" checked={activeConfig.trendFilterBlockShort} onChange={(v: boolean) => handleChange('trendFilterBlockShort', v)} size="sm" className="bg-slate-50 p-2 rounded"/>
-                                <Toggle label="空头趋势 (7<25<99) 不开多" checked={activeConfig.trendFilterBlockLong} onChange={(v: boolean) => handleChange('trendFilterBlockLong', v)} size="sm" className="bg-slate-50 p-2 rounded"/>
+                                <Toggle label={`多头趋势 (${F}>${M}>${S}) 不开空`} checked={activeConfig.trendFilterBlockShort} onChange={(v: boolean) => handleChange('trendFilterBlockShort', v)} size="sm" className="bg-slate-50 p-2 rounded"/>
+                                <Toggle label={`空头趋势 (${F}<${M}<${S}) 不开多`} checked={activeConfig.trendFilterBlockLong} onChange={(v: boolean) => handleChange('trendFilterBlockLong', v)} size="sm" className="bg-slate-50 p-2 rounded"/>
                             </div>
 
                             {/* MACD */}
@@ -225,7 +597,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                         </div>
                                         <div className="grid grid-cols-2 gap-2 mt-1">
                                             <Toggle label="金叉开多" checked={activeConfig.macdLong} onChange={(v: boolean) => handleChange('macdLong', v)} size="sm" />
-                                            <Toggle label="死叉开空" checked={activeConfig.macdShort} onChange={(v: boolean) => handleChange('macdShort', v)} size="sm" />
+                                            <Toggle label="死叉开空" checked={activeConfig.macdShort} onChange={(v: boolean) => handleChange('macdShort', v)} size="sm" disabled={isSpot} />
                                             <Toggle label="金叉平空" checked={activeConfig.macdExitShort} onChange={(v: boolean) => handleChange('macdExitShort', v)} size="sm" />
                                             <Toggle label="死叉平多" checked={activeConfig.macdExitLong} onChange={(v: boolean) => handleChange('macdExitLong', v)} size="sm" />
                                         </div>
@@ -233,69 +605,174 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 )}
                             </div>
 
+                            {/* RSI */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="启用 RSI" checked={activeConfig.useRSI} onChange={(v: boolean) => handleChange('useRSI', v)} className="mb-2 font-bold text-slate-800"/>
+                                {activeConfig.useRSI && (
+                                    <div className="space-y-2 mt-2 border-t border-slate-200 pt-2">
+                                        <div className="grid grid-cols-3 gap-2">
+                                            <Input label="周期" type="number" value={activeConfig.rsiPeriod} onChange={(v: string) => handleChange('rsiPeriod', parseInt(v))} />
+                                            <Input label="超买" type="number" value={activeConfig.rsiOverbought} onChange={(v: string) => handleChange('rsiOverbought', parseFloat(v))} />
+                                            <Input label="超卖" type="number" value={activeConfig.rsiOversold} onChange={(v: string) => handleChange('rsiOversold', parseFloat(v))} />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2 mt-1">
+                                            <Toggle label="上穿超卖开多" checked={activeConfig.rsiLong} onChange={(v: boolean) => handleChange('rsiLong', v)} size="sm" />
+                                            <Toggle label="下穿超买开空" checked={activeConfig.rsiShort} onChange={(v: boolean) => handleChange('rsiShort', v)} size="sm" disabled={isSpot} />
+                                            <Toggle label="上穿超卖平空" checked={activeConfig.rsiExitShort} onChange={(v: boolean) => handleChange('rsiExitShort', v)} size="sm" />
+                                            <Toggle label="下穿超买平多" checked={activeConfig.rsiExitLong} onChange={(v: boolean) => handleChange('rsiExitLong', v)} size="sm" />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Bollinger Bands */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="启用 布林带" checked={activeConfig.useBB} onChange={(v: boolean) => handleChange('useBB', v)} className="mb-2 font-bold text-slate-800"/>
+                                {activeConfig.useBB && (
+                                    <div className="space-y-2 mt-2 border-t border-slate-200 pt-2">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <Input label="周期" type="number" value={activeConfig.bbPeriod} onChange={(v: string) => handleChange('bbPeriod', parseInt(v))} />
+                                            <Input label="标准差倍数" type="number" value={activeConfig.bbStdDev} onChange={(v: string) => handleChange('bbStdDev', parseFloat(v))} />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2 mt-1">
+                                            <Toggle label="收回下轨开多" checked={activeConfig.bbLong} onChange={(v: boolean) => handleChange('bbLong', v)} size="sm" />
+                                            <Toggle label="跌回上轨开空" checked={activeConfig.bbShort} onChange={(v: boolean) => handleChange('bbShort', v)} size="sm" disabled={isSpot} />
+                                            <Toggle label="收回下轨平空" checked={activeConfig.bbExitShort} onChange={(v: boolean) => handleChange('bbExitShort', v)} size="sm" />
+                                            <Toggle label="跌回上轨平多" checked={activeConfig.bbExitLong} onChange={(v: boolean) => handleChange('bbExitLong', v)} size="sm" />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Supertrend */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="启用 Supertrend" checked={activeConfig.useSupertrend} onChange={(v: boolean) => handleChange('useSupertrend', v)} className="mb-2 font-bold text-slate-800"/>
+                                {activeConfig.useSupertrend && (
+                                    <div className="space-y-2 mt-2 border-t border-slate-200 pt-2">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <Input label="ATR 周期" type="number" value={activeConfig.supertrendPeriod} onChange={(v: string) => handleChange('supertrendPeriod', parseInt(v))} />
+                                            <Input label="ATR 倍数" type="number" value={activeConfig.supertrendMultiplier} onChange={(v: string) => handleChange('supertrendMultiplier', parseFloat(v))} />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2 mt-1">
+                                            <Toggle label="翻多开多" checked={activeConfig.supertrendLong} onChange={(v: boolean) => handleChange('supertrendLong', v)} size="sm" />
+                                            <Toggle label="翻空开空" checked={activeConfig.supertrendShort} onChange={(v: boolean) => handleChange('supertrendShort', v)} size="sm" disabled={isSpot} />
+                                            <Toggle label="翻多平空" checked={activeConfig.supertrendExitShort} onChange={(v: boolean) => handleChange('supertrendExitShort', v)} size="sm" />
+                                            <Toggle label="翻空平多" checked={activeConfig.supertrendExitLong} onChange={(v: boolean) => handleChange('supertrendExitLong', v)} size="sm" />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* VWAP */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="启用 VWAP (UTC 日内)" checked={activeConfig.useVWAP} onChange={(v: boolean) => handleChange('useVWAP', v)} className="mb-2 font-bold text-slate-800"/>
+                                {activeConfig.useVWAP && (
+                                    <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
+                                        <Toggle label="上穿开多" checked={activeConfig.vwapLong} onChange={(v: boolean) => handleChange('vwapLong', v)} size="sm" />
+                                        <Toggle label="下穿开空" checked={activeConfig.vwapShort} onChange={(v: boolean) => handleChange('vwapShort', v)} size="sm" disabled={isSpot} />
+                                        <Toggle label="上穿平空" checked={activeConfig.vwapExitShort} onChange={(v: boolean) => handleChange('vwapExitShort', v)} size="sm" />
+                                        <Toggle label="下穿平多" checked={activeConfig.vwapExitLong} onChange={(v: boolean) => handleChange('vwapExitLong', v)} size="sm" />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* ATR */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Input label="ATR 周期 (波动率)" type="number" value={activeConfig.atrPeriod} onChange={(v: string) => handleChange('atrPeriod', parseInt(v))} />
+                            </div>
+
                             {/* Reversion Entry */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="价格回归 (EMA7)" checked={activeConfig.useReversionEntry} onChange={(v: boolean) => handleChange('useReversionEntry', v)} className="mb-2 font-bold text-indigo-600"/>
+                                <Toggle label={`价格回归 (EMA${F})`} checked={activeConfig.useReversionEntry} onChange={(v: boolean) => handleChange('useReversionEntry', v)} className="mb-2 font-bold text-indigo-600"/>
                                 {activeConfig.useReversionEntry && (
                                     <div className="mt-2 border-t border-slate-200 pt-2">
                                         <p className="text-[10px] text-slate-500 mb-2 leading-tight">
-                                            信号触发后不立即开仓，等待价格回调至 EMA7 附近。
+                                            信号触发后不立即开仓，等待价格回调至 EMA{F} 附近。
                                             <br/>
-                                            0 = 等于 EMA7; 0.1 = EMA7 上方 0.1%; -0.1 = EMA7 下方 0.1%
+                                            0 = 等于 EMA{F}; 0.1 = EMA{F} 上方 0.1%; -0.1 = EMA{F} 下方 0.1%
                                         </p>
                                         <Input label="回归距离 %" type="number" value={activeConfig.reversionPct} onChange={(v: string) => handleChange('reversionPct', parseFloat(v))} />
                                     </div>
                                 )}
                             </div>
 
-                            {/* EMA 7/25 */}
+                            {/* Pyramiding */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="金字塔加仓" checked={activeConfig.usePyramiding} onChange={(v: boolean) => handleChange('usePyramiding', v)} className="mb-2 font-bold text-indigo-600"/>
+                                {activeConfig.usePyramiding && (
+                                    <div className="mt-2 border-t border-slate-200 pt-2">
+                                        <p className="text-[10px] text-slate-500 mb-2 leading-tight">
+                                            持仓方向再次出现开仓信号时加仓，需较上一笔成交价有利移动至少指定比例。每次加仓金额 = 下单金额 × 加仓金额 %，与交易时段、每日交易次数限制同样生效。开仓均价按成交量加权，所有止盈止损按均价计算。
+                                        </p>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            <Input label="最多加仓次数" type="number" value={activeConfig.pyramidMaxAdds} onChange={(v: string) => handleChange('pyramidMaxAdds', parseInt(v) || 0)} />
+                                            <Input label="加仓金额 %" type="number" value={activeConfig.pyramidAddPct} onChange={(v: string) => handleChange('pyramidAddPct', parseFloat(v))} />
+                                            <Input label="最小有利移动 %" type="number" value={activeConfig.pyramidMinMovePct} onChange={(v: string) => handleChange('pyramidMinMovePct', parseFloat(v))} />
+                                        </div>
+                                        <Toggle label={`回踩 EMA${F} 加仓`} checked={activeConfig.pyramidOnPullback} onChange={(v: boolean) => handleChange('pyramidOnPullback', v)} size="sm" />
+                                        {position.direction !== 'FLAT' && position.fills.length > 0 && (
+                                            <div className="mt-2 bg-white p-2 rounded border border-slate-200 text-[11px] font-mono space-y-0.5">
+                                                {position.fills.map((f, idx) => (
+                                                    <div key={idx} className="flex justify-between">
+                                                        <span className="text-slate-500">{idx === 0 ? '开仓' : `加仓${idx}`}</span>
+                                                        <span>{f.quantity.toFixed(4)} @ {f.price.toFixed(4)}</span>
+                                                    </div>
+                                                ))}
+                                                <div className="flex justify-between border-t border-slate-100 pt-0.5"><span className="text-slate-500">均价</span><span>{position.entryPrice.toFixed(4)}</span></div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* EMA Fast/Mid */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="启用 EMA 7/25" checked={activeConfig.useEMA7_25} onChange={(v: boolean) => handleChange('useEMA7_25', v)} className="mb-2 font-bold text-blue-600"/>
-                                {activeConfig.useEMA7_25 && (
+                                <Toggle label={`启用 EMA ${F}/${M}`} checked={activeConfig.useEMAFastMid} onChange={(v: boolean) => handleChange('useEMAFastMid', v)} className="mb-2 font-bold text-blue-600"/>
+                                {activeConfig.useEMAFastMid && (
                                     <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Toggle label="上穿开多" checked={activeConfig.ema7_25_Long} onChange={(v: boolean) => handleChange('ema7_25_Long', v)} size="sm" />
-                                        <Toggle label="下穿开空" checked={activeConfig.ema7_25_Short} onChange={(v: boolean) => handleChange('ema7_25_Short', v)} size="sm" />
-                                        <Toggle label="下穿平多" checked={activeConfig.ema7_25_ExitLong} onChange={(v: boolean) => handleChange('ema7_25_ExitLong', v)} size="sm" />
-                                        <Toggle label="上穿平空" checked={activeConfig.ema7_25_ExitShort} onChange={(v: boolean) => handleChange('ema7_25_ExitShort', v)} size="sm" />
+                                        <Toggle label="上穿开多" checked={activeConfig.emaFastMid_Long} onChange={(v: boolean) => handleChange('emaFastMid_Long', v)} size="sm" />
+                                        <Toggle label="下穿开空" checked={activeConfig.emaFastMid_Short} onChange={(v: boolean) => handleChange('emaFastMid_Short', v)} size="sm" disabled={isSpot} />
+                                        <Toggle label="下穿平多" checked={activeConfig.emaFastMid_ExitLong} onChange={(v: boolean) => handleChange('emaFastMid_ExitLong', v)} size="sm" />
+                                        <Toggle label="上穿平空" checked={activeConfig.emaFastMid_ExitShort} onChange={(v: boolean) => handleChange('emaFastMid_ExitShort', v)} size="sm" />
                                     </div>
                                 )}
                             </div>
 
-                            {/* EMA 7/99 */}
+                            {/* EMA Fast/Slow */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="启用 EMA 7/99" checked={activeConfig.useEMA7_99} onChange={(v: boolean) => handleChange('useEMA7_99', v)} className="mb-2 font-bold text-purple-600"/>
-                                {activeConfig.useEMA7_99 && (
+                                <Toggle label={`启用 EMA ${F}/${S}`} checked={activeConfig.useEMAFastSlow} onChange={(v: boolean) => handleChange('useEMAFastSlow', v)} className="mb-2 font-bold text-purple-600"/>
+                                {activeConfig.useEMAFastSlow && (
                                     <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Toggle label="上穿开多" checked={activeConfig.ema7_99_Long} onChange={(v: boolean) => handleChange('ema7_99_Long', v)} size="sm" />
-                                        <Toggle label="下穿开空" checked={activeConfig.ema7_99_Short} onChange={(v: boolean) => handleChange('ema7_99_Short', v)} size="sm" />
-                                        <Toggle label="下穿平多" checked={activeConfig.ema7_99_ExitLong} onChange={(v: boolean) => handleChange('ema7_99_ExitLong', v)} size="sm" />
-                                        <Toggle label="上穿平空" checked={activeConfig.ema7_99_ExitShort} onChange={(v: boolean) => handleChange('ema7_99_ExitShort', v)} size="sm" />
+                                        <Toggle label="上穿开多" checked={activeConfig.emaFastSlow_Long} onChange={(v: boolean) => handleChange('emaFastSlow_Long', v)} size="sm" />
+                                        <Toggle label="下穿开空" checked={activeConfig.emaFastSlow_Short} onChange={(v: boolean) => handleChange('emaFastSlow_Short', v)} size="sm" disabled={isSpot} />
+                                        <Toggle label="下穿平多" checked={activeConfig.emaFastSlow_ExitLong} onChange={(v: boolean) => handleChange('emaFastSlow_ExitLong', v)} size="sm" />
+                                        <Toggle label="上穿平空" checked={activeConfig.emaFastSlow_ExitShort} onChange={(v: boolean) => handleChange('emaFastSlow_ExitShort', v)} size="sm" />
                                     </div>
                                 )}
                             </div>
 
-                            {/* EMA 25/99 */}
+                            {/* EMA Mid/Slow */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="启用 EMA 25/99" checked={activeConfig.useEMA25_99} onChange={(v: boolean) => handleChange('useEMA25_99', v)} className="mb-2 font-bold text-indigo-600"/>
-                                {activeConfig.useEMA25_99 && (
+                                <Toggle label={`启用 EMA ${M}/${S}`} checked={activeConfig.useEMAMidSlow} onChange={(v: boolean) => handleChange('useEMAMidSlow', v)} className="mb-2 font-bold text-indigo-600"/>
+                                {activeConfig.useEMAMidSlow && (
                                     <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Toggle label="上穿开多" checked={activeConfig.ema25_99_Long} onChange={(v: boolean) => handleChange('ema25_99_Long', v)} size="sm" />
-                                        <Toggle label="下穿开空" checked={activeConfig.ema25_99_Short} onChange={(v: boolean) => handleChange('ema25_99_Short', v)} size="sm" />
-                                        <Toggle label="下穿平多" checked={activeConfig.ema25_99_ExitLong} onChange={(v: boolean) => handleChange('ema25_99_ExitLong', v)} size="sm" />
-                                        <Toggle label="上穿平空" checked={activeConfig.ema25_99_ExitShort} onChange={(v: boolean) => handleChange('ema25_99_ExitShort', v)} size="sm" />
+                                        <Toggle label="上穿开多" checked={activeConfig.emaMidSlow_Long} onChange={(v: boolean) => handleChange('emaMidSlow_Long', v)} size="sm" />
+                                        <Toggle label="下穿开空" checked={activeConfig.emaMidSlow_Short} onChange={(v: boolean) => handleChange('emaMidSlow_Short', v)} size="sm" disabled={isSpot} />
+                                        <Toggle label="下穿平多" checked={activeConfig.emaMidSlow_ExitLong} onChange={(v: boolean) => handleChange('emaMidSlow_ExitLong', v)} size="sm" />
+                                        <Toggle label="上穿平空" checked={activeConfig.emaMidSlow_ExitShort} onChange={(v: boolean) => handleChange('emaMidSlow_ExitShort', v)} size="sm" />
                                     </div>
                                 )}
                             </div>
 
                             {/* EMA Double */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="启用 EMA 7/25 vs 99" checked={activeConfig.useEMADouble} onChange={(v: boolean) => handleChange('useEMADouble', v)} className="mb-2 font-bold text-amber-600"/>
+                                <Toggle label={`启用 EMA ${F}/${M} vs ${S}`} checked={activeConfig.useEMADouble} onChange={(v: boolean) => handleChange('useEMADouble', v)} className="mb-2 font-bold text-amber-600"/>
                                 {activeConfig.useEMADouble && (
                                     <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Toggle label="7/25上穿99 开多" checked={activeConfig.emaDoubleLong} onChange={(v: boolean) => handleChange('emaDoubleLong', v)} size="sm" />
-                                        <Toggle label="7/25下穿99 开空" checked={activeConfig.emaDoubleShort} onChange={(v: boolean) => handleChange('emaDoubleShort', v)} size="sm" />
-                                        <Toggle label="7/25下穿99 平多" checked={activeConfig.emaDoubleExitLong} onChange={(v: boolean) => handleChange('emaDoubleExitLong', v)} size="sm" />
-                                        <Toggle label="7/25上穿99 平空" checked={activeConfig.emaDoubleExitShort} onChange={(v: boolean) => handleChange('emaDoubleExitShort', v)} size="sm" />
+                                        <Toggle label={`${F}/${M}上穿${S} 开多`} checked={activeConfig.emaDoubleLong} onChange={(v: boolean) => handleChange('emaDoubleLong', v)} size="sm" />
+                                        <Toggle label={`${F}/${M}下穿${S} 开空`} checked={activeConfig.emaDoubleShort} onChange={(v: boolean) => handleChange('emaDoubleShort', v)} size="sm" disabled={isSpot} />
+                                        <Toggle label={`${F}/${M}下穿${S} 平多`} checked={activeConfig.emaDoubleExitLong} onChange={(v: boolean) => handleChange('emaDoubleExitLong', v)} size="sm" />
+                                        <Toggle label={`${F}/${M}上穿${S} 平空`} checked={activeConfig.emaDoubleExitShort} onChange={(v: boolean) => handleChange('emaDoubleExitShort', v)} size="sm" />
                                     </div>
                                 )}
                             </div>
@@ -303,29 +780,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
 
                     {/* EXIT MANAGEMENT */}
-                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                    <div className={`bg-white p-3 rounded-lg border border-slate-200 shadow-sm ${isGrid ? 'hidden' : ''}`}>
                         <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">出场管理</h3>
                         <div className="space-y-3">
-                            {/* Trailing Stop */}
-                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="追踪止盈" checked={activeConfig.useTrailingStop} onChange={(v: boolean) => handleChange('useTrailingStop', v)} className="font-bold mb-2 text-slate-800" />
-                                {activeConfig.useTrailingStop && (
-                                    <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Input label="激活比例 %" type="number" value={activeConfig.trailActivation} onChange={(v: string) => handleChange('trailActivation', parseFloat(v))} />
-                                        <Input label="回撤距离 %" type="number" value={activeConfig.trailDistance} onChange={(v: string) => handleChange('trailDistance', parseFloat(v))} />
-                                    </div>
-                                )}
-                            </div>
-
-                            {/* Fixed TP/SL */}
+                            {/* Exit Pipeline */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
-                                <Toggle label="固定止盈止损" checked={activeConfig.useFixedTPSL} onChange={(v: boolean) => handleChange('useFixedTPSL', v)} className="font-bold mb-2 text-slate-800" />
-                                {activeConfig.useFixedTPSL && (
-                                    <div className="grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
-                                        <Input label="止盈 %" type="number" value={activeConfig.takeProfitPct} onChange={(v: string) => handleChange('takeProfitPct', parseFloat(v))} />
-                                        <Input label="止损 %" type="number" value={activeConfig.stopLossPct} onChange={(v: string) => handleChange('stopLossPct', parseFloat(v))} />
-                                    </div>
-                                )}
+                                <div className="text-xs font-bold text-slate-800 mb-1">出场顺序</div>
+                                <ol className="text-[10px] text-slate-500 leading-tight list-decimal list-inside space-y-0.5 mb-2">
+                                    <li>信号平仓 — 剩余仓位 × 信号平仓比例 (每根K线一次)</li>
+                                    <li>多级止盈止损 — 每级按初始仓位比例; 保本止损平全部剩余</li>
+                                    <li>固定止盈止损 — 剩余仓位 × 平仓比例 (止盈、止损各一次)</li>
+                                    <li>ATR 止损止盈 — 平全部剩余</li>
+                                    <li>ATR 吊灯止损 — 平全部剩余</li>
+                                    <li>追踪止盈 — 剩余仓位 × 平仓比例 (一次)</li>
+                                    <li>时间出场 — 平全部剩余</li>
+                                    <li>交易时段 — 禁止交易窗口前平全部剩余</li>
+                                </ol>
+                                <p className="text-[10px] text-slate-500 leading-tight mb-2">
+                                    各项可同时启用，任一项全部平仓后后续项不再执行。部分平仓的原因带比例，如 "固定止盈触发 (50%)"。
+                                </p>
+                                <Input label="信号平仓比例 %" type="number" value={activeConfig.signalExitQtyPct} onChange={(v: string) => handleChange('signalExitQtyPct', parseFloat(v))} />
                             </div>
 
                             {/* Multi-Level TP/SL */}
@@ -343,6 +817,27 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                             </div>
                                             ))}
                                         </div>
+                                        <div className="border-t border-slate-200 pt-2">
+                                            <Toggle label="保本止损" checked={activeConfig.useBreakEven} onChange={(v: boolean) => handleChange('useBreakEven', v)} size="sm" className="mb-2 font-bold" />
+                                            {activeConfig.useBreakEven && (
+                                                <div className="space-y-2">
+                                                    <p className="text-[10px] text-slate-500 leading-tight">
+                                                        触发后剩余仓位改用保本止损 (开仓价 ± 偏移)，分批止损不再生效。
+                                                    </p>
+                                                    <div className="grid grid-cols-2 gap-2">
+                                                        <Select label="触发级别" value={activeConfig.breakEvenTriggerLevel} options={activeConfig.tpLevels.map((_, i) => i + 1)} onChange={(v: string) => handleChange('breakEvenTriggerLevel', parseInt(v))} />
+                                                        <Input label="偏移 %" type="number" value={activeConfig.breakEvenOffsetPct} onChange={(v: string) => handleChange('breakEvenOffsetPct', parseFloat(v))} />
+                                                    </div>
+                                                    <Toggle label="后续止盈后锁定上一级止盈价" checked={activeConfig.breakEvenLockPrevTP} onChange={(v: boolean) => handleChange('breakEvenLockPrevTP', v)} size="sm" />
+                                                    {position.direction !== 'FLAT' && position.breakEvenStop > 0 && (
+                                                        <div className="text-[11px] font-mono flex justify-between bg-white p-1.5 rounded border border-slate-200">
+                                                            <span className="text-slate-500">{position.breakEvenLockedLevel > 0 ? `锁定止盈${position.breakEvenLockedLevel}` : '保本止损'}</span>
+                                                            <span className="text-amber-600">{position.breakEvenStop.toFixed(4)}</span>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
                                         <div className="border-t border-slate-200 pt-2">
                                             <div className="text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-wider">分批止损</div>
                                             {activeConfig.slLevels.map((sl, idx) => (
@@ -357,12 +852,122 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 )}
                             </div>
 
+                            {/* Fixed TP/SL */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="固定止盈止损" checked={activeConfig.useFixedTPSL} onChange={(v: boolean) => handleChange('useFixedTPSL', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useFixedTPSL && (
+                                    <div className="grid grid-cols-3 gap-2 border-t border-slate-200 pt-2">
+                                        <Input label="止盈 %" type="number" value={activeConfig.takeProfitPct} onChange={(v: string) => handleChange('takeProfitPct', parseFloat(v))} />
+                                        <Input label="止损 %" type="number" value={activeConfig.stopLossPct} onChange={(v: string) => handleChange('stopLossPct', parseFloat(v))} />
+                                        <Input label="平仓比例 %" type="number" value={activeConfig.fixedTPSLQtyPct} onChange={(v: string) => handleChange('fixedTPSLQtyPct', parseFloat(v))} />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* ATR Stops */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="ATR 止损止盈" checked={activeConfig.useATRStops} onChange={(v: boolean) => handleChange('useATRStops', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useATRStops && (
+                                    <div className="border-t border-slate-200 pt-2">
+                                        <p className="text-[10px] text-slate-500 mb-2 leading-tight">
+                                            距离 = 倍数 × 开仓时 ATR({activeConfig.atrPeriod})。止盈倍数 0 = 不设止盈。
+                                        </p>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <Input label="止损 ATR 倍数" type="number" value={activeConfig.atrStopMult} onChange={(v: string) => handleChange('atrStopMult', parseFloat(v))} />
+                                            <Input label="止盈 ATR 倍数" type="number" value={activeConfig.atrTargetMult} onChange={(v: string) => handleChange('atrTargetMult', parseFloat(v))} />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Chandelier Stop */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="ATR 吊灯止损 (Chandelier)" checked={activeConfig.useChandelierStop} onChange={(v: boolean) => handleChange('useChandelierStop', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useChandelierStop && (
+                                    <div className="border-t border-slate-200 pt-2">
+                                        <p className="text-[10px] text-slate-500 mb-2 leading-tight">
+                                            多单: 持仓最高价 - 倍数 × ATR; 空单: 持仓最低价 + 倍数 × ATR。只收紧不放宽。
+                                        </p>
+                                        <Input label="ATR 倍数" type="number" value={activeConfig.chandelierMult} onChange={(v: string) => handleChange('chandelierMult', parseFloat(v))} />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Live volatility levels of the open position */}
+                            {position.direction !== 'FLAT' && (activeConfig.useATRStops || activeConfig.useChandelierStop) && (
+                                <div className="bg-white p-2 rounded border border-slate-200 text-[11px] font-mono space-y-0.5">
+                                    <div className="flex justify-between"><span className="text-slate-500">开仓 ATR</span><span>{position.entryATR > 0 ? position.entryATR.toFixed(4) : '等待数据'}</span></div>
+                                    {activeConfig.useATRStops && <div className="flex justify-between"><span className="text-slate-500">ATR 止损</span><span className="text-rose-600">{position.atrStopPrice > 0 ? position.atrStopPrice.toFixed(4) : '-'}</span></div>}
+                                    {activeConfig.useATRStops && <div className="flex justify-between"><span className="text-slate-500">ATR 止盈</span><span className="text-emerald-600">{position.atrTargetPrice > 0 ? position.atrTargetPrice.toFixed(4) : '-'}</span></div>}
+                                    {activeConfig.useChandelierStop && <div className="flex justify-between"><span className="text-slate-500">吊灯止损</span><span className="text-amber-600">{position.chandelierStop > 0 ? position.chandelierStop.toFixed(4) : '-'}</span></div>}
+                                </div>
+                            )}
+
+                            {/* Trailing Stop */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="追踪止盈" checked={activeConfig.useTrailingStop} onChange={(v: boolean) => handleChange('useTrailingStop', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useTrailingStop && (
+                                    <div className="grid grid-cols-3 gap-2 border-t border-slate-200 pt-2">
+                                        <Input label="激活比例 %" type="number" value={activeConfig.trailActivation} onChange={(v: string) => handleChange('trailActivation', parseFloat(v))} />
+                                        <Input label="回撤距离 %" type="number" value={activeConfig.trailDistance} onChange={(v: string) => handleChange('trailDistance', parseFloat(v))} />
+                                        <Input label="平仓比例 %" type="number" value={activeConfig.trailQtyPct} onChange={(v: string) => handleChange('trailQtyPct', parseFloat(v))} />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Time Exits */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="时间出场" checked={activeConfig.useTimeExit} onChange={(v: boolean) => handleChange('useTimeExit', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useTimeExit && (
+                                    <div className="border-t border-slate-200 pt-2 space-y-2">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <Input label="最大持仓K线数 (0 = 关闭)" type="number" value={activeConfig.maxBarsHeld} onChange={(v: string) => handleChange('maxBarsHeld', parseInt(v) || 0)} />
+                                            <Input label="最长持仓分钟 (0 = 关闭)" type="number" value={activeConfig.maxHoldMinutes} onChange={(v: string) => handleChange('maxHoldMinutes', parseFloat(v) || 0)} />
+                                        </div>
+                                        <Toggle label={`每日定时平仓 (${timeExitZone})`} size="sm" checked={activeConfig.useCloseAtTime} onChange={(v: boolean) => handleChange('useCloseAtTime', v)} />
+                                        {activeConfig.useCloseAtTime && (
+                                            <Input label="平仓时间 HH:MM" type="time" value={activeConfig.closeAtTime} onChange={(v: string) => handleChange('closeAtTime', v)} />
+                                        )}
+                                        <Toggle label={`周末前平仓 (周五 ${timeExitZone})`} size="sm" checked={activeConfig.useCloseBeforeWeekend} onChange={(v: boolean) => handleChange('useCloseBeforeWeekend', v)} />
+                                        {activeConfig.useCloseBeforeWeekend && (
+                                            <Input label="周五平仓时间 HH:MM" type="time" value={activeConfig.weekendCloseTime} onChange={(v: string) => handleChange('weekendCloseTime', v)} />
+                                        )}
+                                        <p className="text-[10px] text-slate-500 leading-tight">
+                                            定时/周末平仓只平掉在截止时间之前开的仓位。时间按交易时段的时区 (未启用时段时按每日重置时区) 计算。
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Cooldown */}
+                            <div className="bg-slate-50 p-2 rounded border border-slate-100">
+                                <Toggle label="平仓后冷却" checked={activeConfig.useCooldown} onChange={(v: boolean) => handleChange('useCooldown', v)} className="font-bold mb-2 text-slate-800" />
+                                {activeConfig.useCooldown && (
+                                    <div className="border-t border-slate-200 pt-2 space-y-2">
+                                        <div className="grid grid-cols-3 gap-2">
+                                            <div className="mb-2">
+                                                <label className="block text-slate-600 text-xs mb-1 font-medium">单位</label>
+                                                <select value={activeConfig.cooldownUnit} onChange={(e) => handleChange('cooldownUnit', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm">
+                                                    <option value="BARS">K线</option>
+                                                    <option value="MINUTES">分钟</option>
+                                                </select>
+                                            </div>
+                                            <Input label="任意平仓后" type="number" value={activeConfig.cooldownAfterExit} onChange={(v: string) => handleChange('cooldownAfterExit', parseFloat(v) || 0)} />
+                                            <Input label="亏损平仓后" type="number" value={activeConfig.cooldownAfterLoss} onChange={(v: string) => handleChange('cooldownAfterLoss', parseFloat(v) || 0)} />
+                                        </div>
+                                        <p className="text-[10px] text-slate-500 leading-tight">
+                                            仓位全部平掉后 (含手动平仓与风控平仓), 冷却期内不开新仓 (反手不受限)。亏损 = 整笔交易 (含分批平仓) 的已实现盈亏为负, 此时用亏损冷却 (0 = 同任意平仓)。
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
+
                             {/* Reverse */}
                             <div className="bg-slate-50 p-2 rounded border border-slate-100">
                                 <Toggle label="反手策略 (Stop & Reverse)" checked={activeConfig.useReverse} onChange={(v: boolean) => handleChange('useReverse', v)} className="font-bold mb-2 text-slate-800" />
                                 {activeConfig.useReverse && (
                                     <div className="space-y-1 mt-1 border-t border-slate-200 pt-1">
-                                        <Toggle label="多转空" checked={activeConfig.reverseLongToShort} onChange={(v: boolean) => handleChange('reverseLongToShort', v)} size="sm"/>
+                                        <Toggle label="多转空" checked={activeConfig.reverseLongToShort} onChange={(v: boolean) => handleChange('reverseLongToShort', v)} size="sm" disabled={isSpot}/>
                                         <Toggle label="空转多" checked={activeConfig.reverseShortToLong} onChange={(v: boolean) => handleChange('reverseShortToLong', v)} size="sm"/>
                                     </div>
                                 )}
@@ -370,12 +975,197 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                     </div>
 
+                    {/* TRADING SCHEDULE */}
+                    <div className={`bg-white p-3 rounded-lg border border-slate-200 shadow-sm ${isGrid ? 'hidden' : ''}`}>
+                        <div className="flex justify-between items-center mb-3 border-b border-slate-100 pb-2">
+                            <h3 className="text-sm font-bold text-slate-800">交易时段 & 禁止交易窗口</h3>
+                            <Toggle checked={activeConfig.useSchedule} onChange={(v: boolean) => handleChange('useSchedule', v)} />
+                        </div>
+                        {activeConfig.useSchedule && (
+                            <div className="space-y-3">
+                                <div className="mb-2">
+                                    <label className="block text-slate-600 text-xs mb-1 font-medium">时区</label>
+                                    <select value={activeConfig.scheduleTimezone} onChange={(e) => handleChange('scheduleTimezone', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm">
+                                        {!SCHEDULE_TIMEZONES.includes(activeConfig.scheduleTimezone) && <option value={activeConfig.scheduleTimezone}>{activeConfig.scheduleTimezone}</option>}
+                                        {SCHEDULE_TIMEZONES.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                                    </select>
+                                </div>
+                                <div className="flex gap-1">
+                                    {['日', '一', '二', '三', '四', '五', '六'].map((label, day) => (
+                                        <button
+                                            key={day}
+                                            onClick={() => toggleWeekday(day)}
+                                            className={`flex-1 text-[11px] py-1 rounded border ${activeConfig.scheduleWeekdays.includes(day) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-500'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <Input label="开始 HH:MM" type="time" value={activeConfig.scheduleStart} onChange={(v: string) => handleChange('scheduleStart', v)} />
+                                    <Input label="结束 HH:MM" type="time" value={activeConfig.scheduleEnd} onChange={(v: string) => handleChange('scheduleEnd', v)} />
+                                </div>
+                                <p className="text-[10px] text-slate-500 leading-tight">
+                                    开始 = 结束 表示全天; 结束早于开始为跨夜时段 (算作开始那天)。时段外只拦截开仓, 已有仓位照常按出场规则管理。
+                                </p>
+
+                                <div className="border-t border-slate-100 pt-2 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-xs font-bold text-slate-700">禁止交易窗口 (本地时间)</span>
+                                        <button onClick={addBlackout} className="text-[11px] text-blue-600 hover:underline">+ 添加</button>
+                                    </div>
+                                    {activeConfig.blackoutWindows.map((w, idx) => (
+                                        <div key={idx} className="bg-slate-50 p-2 rounded border border-slate-100 space-y-1">
+                                            <div className="flex gap-2 items-center">
+                                                <input value={w.label} onChange={(e) => updateBlackout(idx, { label: e.target.value })} className="flex-1 bg-white border border-slate-300 rounded p-1 text-xs" />
+                                                <button onClick={() => handleChange('blackoutWindows', activeConfig.blackoutWindows.filter((_, i) => i !== idx))} className="text-rose-500 text-[11px] hover:text-rose-600">删除</button>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <input type="datetime-local" value={toLocalInput(w.start)} onChange={(e) => updateBlackout(idx, { start: new Date(e.target.value).getTime() || w.start })} className="bg-white border border-slate-300 rounded p-1 text-[11px]" />
+                                                <input type="datetime-local" value={toLocalInput(w.end)} onChange={(e) => updateBlackout(idx, { end: new Date(e.target.value).getTime() || w.end })} className="bg-white border border-slate-300 rounded p-1 text-[11px]" />
+                                            </div>
+                                            <Toggle label="开始前平仓" checked={w.flatten} onChange={(v: boolean) => updateBlackout(idx, { flatten: v })} size="sm" />
+                                        </div>
+                                    ))}
+                                    <Input label="提前平仓 (分钟)" type="number" value={activeConfig.blackoutFlattenMinutes} onChange={(v: string) => handleChange('blackoutFlattenMinutes', parseFloat(v) || 0)} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* PAPER TRADING */}
+                    <div className="bg-amber-50 p-3 rounded-lg border border-amber-200 shadow-sm">
+                        <div className="flex justify-between items-center mb-3 border-b border-amber-200 pb-2">
+                            <h3 className="text-sm font-bold text-amber-700">模拟交易 (Paper Trading)</h3>
+                            <Toggle checked={activeConfig.paperTrading} onChange={(v: boolean) => handleChange('paperTrading', v)} />
+                        </div>
+                        <p className="text-[10px] text-amber-600 mb-3">
+                            所有信号均记入账本并计算盈亏。开启后不发送 Webhook，仅模拟成交。
+                            <br/>
+                            止盈目标 (固定/多级/ATR) 与网格挂单为限价单, 按 Maker 计费且无滑点，其余按吃单 (Taker) 计费并计滑点。
+                        </p>
+                        <div className="grid grid-cols-3 gap-2 bg-white p-2 rounded border border-amber-100">
+                            <Input label="Taker (bps)" type="number" value={activeConfig.takerFeeBps} onChange={(v: string) => handleChange('takerFeeBps', parseFloat(v))} />
+                            <Input label="Maker (bps)" type="number" value={activeConfig.makerFeeBps} onChange={(v: string) => handleChange('makerFeeBps', parseFloat(v))} />
+                            <Input label="滑点 (bps)" type="number" value={activeConfig.slippageBps} onChange={(v: string) => handleChange('slippageBps', parseFloat(v))} />
+                        </div>
+                        <button onClick={() => onResetLedger(activeConfig.id)} className="mt-2 w-full text-xs text-amber-700 border border-amber-300 rounded py-1 hover:bg-amber-100 transition-colors">
+                            重置账本 ({ledger.tradeCount} 笔交易)
+                        </button>
+                    </div>
+
                     {/* RISK CONFIGURATION */}
                     <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
                         <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">风控 & 限制</h3>
                         <Input label="每日最大交易次数" type="number" value={activeConfig.maxDailyTrades} onChange={(v: string) => handleChange('maxDailyTrades', parseFloat(v))} />
+                        <div className="grid grid-cols-2 gap-2">
+                            <div className="mb-2">
+                                <label className="block text-slate-600 text-xs mb-1 font-medium">每日重置时区</label>
+                                <select value={activeConfig.dailyResetTimezone} onChange={(e) => handleChange('dailyResetTimezone', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm">
+                                    <option value="">全局默认 ({systemSettings.dailyReset.timezone} {systemSettings.dailyReset.hour}:00)</option>
+                                    {activeConfig.dailyResetTimezone && !SCHEDULE_TIMEZONES.includes(activeConfig.dailyResetTimezone) && <option value={activeConfig.dailyResetTimezone}>{activeConfig.dailyResetTimezone}</option>}
+                                    {SCHEDULE_TIMEZONES.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                                </select>
+                            </div>
+                            {activeConfig.dailyResetTimezone && (
+                                <Input label="重置小时 (0-23)" type="number" value={activeConfig.dailyResetHour} onChange={(v: string) => handleChange('dailyResetHour', clampHour(v))} />
+                            )}
+                        </div>
+
+                        <div className="border-t border-slate-100 pt-2 mt-2">
+                            <Toggle label="策略风控 (熔断)" checked={activeConfig.useRiskGuard} onChange={(v: boolean) => handleChange('useRiskGuard', v)} size="sm" className="mb-2" />
+                            {activeConfig.useRiskGuard && (
+                                <>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <Input label="当日最大亏损 (U)" type="number" value={activeConfig.riskMaxDailyLoss} onChange={(v: string) => handleChange('riskMaxDailyLoss', parseFloat(v))} />
+                                        <Input label="最大连亏 (笔)" type="number" value={activeConfig.riskMaxConsecutiveLosses} onChange={(v: string) => handleChange('riskMaxConsecutiveLosses', parseInt(v))} />
+                                        <Input label="最大回撤 (U)" type="number" value={activeConfig.riskMaxDrawdown} onChange={(v: string) => handleChange('riskMaxDrawdown', parseFloat(v))} />
+                                    </div>
+                                    <Toggle label="触发时市价平仓" checked={activeConfig.riskFlattenOnTrip} onChange={(v: boolean) => handleChange('riskFlattenOnTrip', v)} size="sm" className="mb-2" />
+                                    <RiskMetricsView metrics={riskMetrics} />
+                                </>
+                            )}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">0 = 不限制。按模拟账本计算 (当日按每日重置时间划分), 从上次确认解除后重新计数。触发后策略停止, 需手动确认。</p>
+                    </div>
+
+                    {/* GLOBAL DAILY RESET */}
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">全局每日重置 (默认)</h3>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div className="mb-2">
+                                <label className="block text-slate-600 text-xs mb-1 font-medium">时区</label>
+                                <select value={systemSettings.dailyReset.timezone} onChange={(e) => updateDailyReset({ timezone: e.target.value })} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm">
+                                    {!SCHEDULE_TIMEZONES.includes(systemSettings.dailyReset.timezone) && <option value={systemSettings.dailyReset.timezone}>{systemSettings.dailyReset.timezone}</option>}
+                                    {SCHEDULE_TIMEZONES.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                                </select>
+                            </div>
+                            <Input label="重置小时 (0-23)" type="number" value={systemSettings.dailyReset.hour} onChange={(v: string) => updateDailyReset({ hour: clampHour(v) })} />
+                        </div>
+                        <p className="text-[10px] text-slate-400">每日交易次数、当日盈亏和当日亏损限制在此时刻重置 (未单独设置的策略及全局风控)。</p>
                     </div>
 
+                    {/* PRELOAD LIST + SYMBOL CATALOGUE */}
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <h3 className="text-xs font-bold text-slate-700 mb-3 border-b border-slate-100 pb-2">后台预加载交易对</h3>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                            {systemSettings.preloadSymbols.length === 0 && <span className="text-[10px] text-slate-400">无</span>}
+                            {systemSettings.preloadSymbols.map((entry, idx) => (
+                                <span key={`${entry.exchange}:${entry.marketType}:${entry.symbol}`} className="inline-flex items-center gap-1 text-[10px] font-mono bg-slate-100 border border-slate-200 rounded px-1.5 py-0.5">
+                                    {entry.exchange} {AVAILABLE_MARKETS.find(m => m.id === entry.marketType)?.label} {entry.symbol}
+                                    <button onClick={() => removePreload(idx)} className="text-slate-400 hover:text-rose-600">×</button>
+                                </span>
+                            ))}
+                        </div>
+                        <button
+                            onClick={addPreload}
+                            disabled={isPreloaded({ exchange: activeConfig.exchange, marketType, symbol: activeConfig.symbol })}
+                            className="w-full text-xs text-blue-600 border border-blue-200 rounded py-1 hover:bg-blue-50 disabled:text-slate-400 disabled:border-slate-200 disabled:hover:bg-white transition-colors"
+                        >
+                            + 添加当前交易对 ({activeConfig.symbol})
+                        </button>
+                        <div className="flex justify-between items-center mt-2 text-[10px] text-slate-400">
+                            <span>交易对列表: {symbols.length > 0 ? `${symbols.length} 个` : '未加载 (使用内置列表)'}</span>
+                            <button onClick={onRefreshSymbols} className="text-blue-600 hover:underline">刷新</button>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">服务器启动即持续采集这些交易对的K线, 无策略运行时也保留历史数据。</p>
+                    </div>
+
+                    {/* LOCAL MOCK EXCHANGE */}
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <div className="flex justify-between items-center mb-3 border-b border-slate-100 pb-2">
+                            <h3 className="text-xs font-bold text-slate-700">本地模拟行情 (离线开发)</h3>
+                            <Toggle checked={systemSettings.mockExchange.enabled} onChange={(v: boolean) => updateMockExchange({ enabled: v })} size="sm" />
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <Input label="速度 (倍)" type="number" value={systemSettings.mockExchange.speed} onChange={(v: string) => updateMockExchange({ speed: Math.max(0, parseFloat(v) || 0) })} />
+                            <Input label="随机种子" type="number" value={systemSettings.mockExchange.seed} onChange={(v: string) => updateMockExchange({ seed: parseInt(v) || 0 })} />
+                            <Input label="历史K线 (根)" type="number" value={systemSettings.mockExchange.historyBars} onChange={(v: string) => updateMockExchange({ historyBars: Math.max(1, parseInt(v) || 0) })} />
+                        </div>
+                        <p className="text-[10px] text-slate-400">开启后全部行情来自本机模拟交易所 (端口 {MOCK_EXCHANGE_PORT}), 重启服务器生效; 速度即时生效。data/mock/交易对.json 存在时回放该文件的 1m K线, 否则按种子生成随机走势。</p>
+                    </div>
+
+                    {/* GLOBAL RISK (all strategies) */}
+                    {globalRisk && (
+                        <div className="bg-rose-50 p-3 rounded-lg border border-rose-200 shadow-sm">
+                            <div className="flex justify-between items-center mb-2 border-b border-rose-200 pb-2">
+                                <h3 className="text-xs font-bold text-rose-700">全局风控 (全部策略合计)</h3>
+                                <Toggle checked={globalRisk.enabled} onChange={(v: boolean) => onUpdateGlobalRisk(v, {})} size="sm" />
+                            </div>
+                            {globalRisk.enabled && (
+                                <>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <Input label="当日最大亏损 (U)" type="number" value={globalRisk.limits.maxDailyLoss} onChange={(v: string) => onUpdateGlobalRisk(true, { maxDailyLoss: parseFloat(v) })} />
+                                        <Input label="最大连亏 (笔)" type="number" value={globalRisk.limits.maxConsecutiveLosses} onChange={(v: string) => onUpdateGlobalRisk(true, { maxConsecutiveLosses: parseInt(v) })} />
+                                        <Input label="最大回撤 (U)" type="number" value={globalRisk.limits.maxDrawdown} onChange={(v: string) => onUpdateGlobalRisk(true, { maxDrawdown: parseFloat(v) })} />
+                                    </div>
+                                    <Toggle label="触发时全部平仓" checked={globalRisk.limits.flattenOnTrip} onChange={(v: boolean) => onUpdateGlobalRisk(true, { flattenOnTrip: v })} size="sm" className="mb-2" />
+                                    <RiskMetricsView metrics={globalRisk.metrics} />
+                                </>
+                            )}
+                        </div>
+                    )}
+
                 </div>
             )}
         </div>
@@ -411,12 +1201,70 @@ const Select = ({ label, value, options, onChange }: any) => (
   </div>
 );
 
-const Toggle = ({ label, checked, onChange, size = "md", className = "" }: any) => (
-  <div className={`flex items-center justify-between ${className}`}>
+const PnlStat = ({ label, value }: { label: string; value: number }) => (
+  <div>
+    <div className="text-[10px] text-slate-500">{label}</div>
+    <div className={`text-xs font-mono font-bold ${value > 0 ? 'text-emerald-600' : value < 0 ? 'text-rose-600' : 'text-slate-600'}`}>
+      {value > 0 ? '+' : ''}{value.toFixed(2)}
+    </div>
+  </div>
+);
+
+const clampHour = (v: string): number => Math.min(23, Math.max(0, parseInt(v) || 0));
+
+// Timestamp -> value of a datetime-local input (browser time zone)
+const toLocalInput = (ms: number): string => {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+};
+
+// Ticks every second on its own - runtime updates only arrive with market data
+const CooldownCountdown = ({ until, reason }: { until: number; reason: string }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    setNow(Date.now());
+    if (!(until > Date.now())) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= until) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  if (!(until > now)) return null;
+  const secs = Math.ceil((until - now) / 1000);
+  const text = secs >= 3600
+    ? `${Math.floor(secs / 3600)}:${String(Math.floor(secs / 60) % 60).padStart(2, '0')}:${String(secs % 60).padStart(2, '0')}`
+    : `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, '0')}`;
+  return (
+    <div className="flex justify-between text-[11px] bg-sky-50 border border-sky-100 rounded px-2 py-1">
+      <span className="text-sky-700">⏳ {reason}</span>
+      <span className="font-mono font-bold text-sky-700">{text}</span>
+    </div>
+  );
+};
+
+const RiskMetricsView = ({ metrics }: { metrics: RiskMetrics }) => (
+  <div className="grid grid-cols-3 gap-2 bg-slate-50 p-2 rounded border border-slate-100 text-center">
+    <PnlStat label="当日盈亏" value={metrics.dailyPnl} />
+    <div>
+      <div className="text-[10px] text-slate-500">连亏</div>
+      <div className="text-xs font-mono font-bold text-slate-600">{metrics.consecutiveLosses}</div>
+    </div>
+    <div>
+      <div className="text-[10px] text-slate-500">回撤</div>
+      <div className={`text-xs font-mono font-bold ${metrics.drawdown > 0 ? 'text-rose-600' : 'text-slate-600'}`}>{metrics.drawdown.toFixed(2)}</div>
+    </div>
+  </div>
+);
+
+const Toggle = ({ label, checked, onChange, size = "md", className = "", disabled = false }: any) => (
+  <div className={`flex items-center justify-between ${className} ${disabled ? 'opacity-40' : ''}`}>
     <span className={`text-slate-700 font-medium ${size === 'sm' ? 'text-xs' : 'text-sm'}`}>{label}</span>
     <button 
       onClick={() => onChange(!checked)}
-      className={`relative inline-flex items-center rounded-full transition-colors shadow-inner ${checked ? 'bg-blue-600' : 'bg-slate-300'} ${size === 'sm' ? 'h-4 w-8' : 'h-6 w-11'}`}
+      disabled={disabled}
+      className={`relative inline-flex items-center rounded-full transition-colors shadow-inner disabled:cursor-not-allowed ${checked ? 'bg-blue-600' : 'bg-slate-300'} ${size === 'sm' ? 'h-4 w-8' : 'h-6 w-11'}`}
     >
       <span className={`inline-block transform rounded-full bg-white transition-transform shadow-sm ${size === 'sm' ? 'h-3 w-3' : 'h-4 w-4'} ${checked ? (size === 'sm' ? 'translate-x-4' : 'translate-x-6') : 'translate-x-1'}`} />
     </button>
@@ -63,9 +63,24 @@ const LogPanel: React.FC<LogPanelProps> = ({ logs, strategies }) => {
             </thead>
             <tbody className="divide-y divide-slate-100">
               {/* Removed .reverse() because App.tsx already puts newest at index 0 */}
-              {filteredLogs.map((log) => (
+              {filteredLogs.map((log) => !log.payload ? (
+                <tr key={log.id} className="bg-rose-50 text-rose-700">
+                  <td className="p-3 text-rose-400 truncate">{new Date(log.timestamp).toLocaleTimeString()}</td>
+                  <td className="p-3 font-bold truncate" title={log.strategyName}>{log.strategyName}</td>
+                  <td className="p-3">
+                    <span className="px-2 py-1 rounded text-[10px] font-bold bg-rose-100 text-rose-600">{log.type}</span>
+                  </td>
+                  <td className="p-3 font-medium truncate" colSpan={5} title={log.message}>{log.message}</td>
+                  <td className="p-3 font-bold">⚠ 风控</td>
+                </tr>
+              ) : (
                 <tr key={log.id} className="hover:bg-slate-50 transition-colors text-slate-700">
-                  <td className="p-3 text-slate-500 truncate">{new Date(log.timestamp).toLocaleTimeString()}</td>
+                  {/* Replay fills happen on past days - show the date too */}
+                  <td className="p-3 text-slate-500 truncate">
+                    {log.status === 'replay'
+                      ? new Date(log.timestamp).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' })
+                      : new Date(log.timestamp).toLocaleTimeString()}
+                  </td>
                   <td className="p-3 text-slate-800 truncate">
                     <div className="font-bold truncate" title={log.strategyName}>{log.strategyName}</div>
                     <div className="text-[10px] text-slate-400">{log.payload.symbol}</div>
@@ -86,14 +101,25 @@ const LogPanel: React.FC<LogPanelProps> = ({ logs, strategies }) => {
                   <td className="p-3 text-blue-600 font-medium">
                      {log.payload.execution_price ? log.payload.execution_price.toFixed(4) : '-'}
                   </td>
-                  <td className="p-3 text-purple-600 font-medium">
+                  <td className="p-3 text-purple-600 font-medium" title={log.payload.sizing}>
                      {log.payload.execution_quantity ? log.payload.execution_quantity.toFixed(4) : '-'}
+                     {log.payload.sizing && <div className="text-[10px] text-slate-400 font-normal truncate">{log.payload.sizing}</div>}
                   </td>
                   <td className="p-3 text-slate-600 font-medium">${log.payload.trade_amount.toFixed(2)}</td>
                   <td className="p-3">
-                    <span className="text-emerald-600 flex items-center gap-1 font-medium">
-                      ✔ 已发送
-                    </span>
+                    {log.status === 'replay' ? (
+                      <span className="text-sky-600 flex items-center gap-1 font-medium">
+                        ▶ 回放成交
+                      </span>
+                    ) : log.status === 'paper' ? (
+                      <span className="text-amber-600 flex items-center gap-1 font-medium">
+                        ✎ 模拟成交
+                      </span>
+                    ) : (
+                      <span className="text-emerald-600 flex items-center gap-1 font-medium">
+                        ✔ 已发送
+                      </span>
+                    )}
                   </td>
                 </tr>
               ))}
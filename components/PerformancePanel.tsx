@@ -0,0 +1,138 @@
+
+import React, { useState, useMemo } from 'react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceLine } from 'recharts';
+import { StrategyRuntime, PerformanceSnapshot } from '../types';
+
+interface PerformancePanelProps {
+  strategies: Record<string, StrategyRuntime>;
+  performance: Record<string, PerformanceSnapshot>;
+  defaultStrategyId: string;
+}
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({ strategies, performance, defaultStrategyId }) => {
+  // null = follow the strategy selected in the ControlPanel
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const strategyId = selectedId && strategies[selectedId] ? selectedId : defaultStrategyId;
+  const runtime = strategies[strategyId];
+  const perf = performance[strategyId];
+
+  const ledger = runtime?.ledger;
+  const openQty = ledger ? Math.abs(ledger.positionQty) : 0;
+  const openDirection = !ledger || openQty < 0.000001 ? 'FLAT' : ledger.positionQty > 0 ? 'LONG' : 'SHORT';
+
+  // Realized curve from the server + a live point marked against lastPrice
+  const chartData = useMemo(() => {
+    if (!perf) return [];
+    const points = perf.equityCurve.map(p => ({ time: p.time, equity: p.equity }));
+    if (ledger) {
+      points.push({ time: Date.now(), equity: ledger.realizedPnl + ledger.unrealizedPnl });
+    }
+    return points;
+  }, [perf, ledger]);
+
+  const formatPnl = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(2)}`;
+  const pnlColor = (v: number) => v > 0 ? 'text-emerald-600' : v < 0 ? 'text-rose-600' : 'text-slate-600';
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 h-full flex flex-col overflow-hidden shadow-sm">
+      <div className="p-3 border-b border-slate-200 bg-slate-50 rounded-t-lg flex justify-between items-center flex-shrink-0">
+        <div className="flex items-center gap-4">
+          <h3 className="font-semibold text-slate-800">策略绩效</h3>
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(e.target.value || null)}
+            className="text-xs bg-white border border-slate-300 rounded p-1 outline-none text-slate-700"
+          >
+            <option value="">当前策略</option>
+            {Object.values(strategies).map(s => (
+              <option key={s.config.id} value={s.config.id}>{s.config.name} ({s.config.symbol})</option>
+            ))}
+          </select>
+          {runtime?.config.paperTrading && <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">模拟</span>}
+        </div>
+        <span className="text-xs text-slate-500">{perf ? perf.trades.length : 0} 笔完整交易</span>
+      </div>
+
+      {!runtime || !ledger ? (
+        <div className="p-4 text-slate-400 text-center text-xs">暂无数据。</div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          {/* Left: Position + Period PnL */}
+          <div className="w-56 flex-shrink-0 border-r border-slate-100 p-3 space-y-3 text-xs overflow-y-auto custom-scrollbar">
+            <div>
+              <div className="text-slate-500 mb-1">当前持仓</div>
+              <div className={`font-bold ${openDirection === 'FLAT' ? 'text-slate-400' : openDirection === 'LONG' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {openDirection === 'FLAT' ? '空仓' : openDirection === 'LONG' ? '多头' : '空头'}
+              </div>
+              {openDirection !== 'FLAT' && (
+                <div className="font-mono mt-1 space-y-0.5 text-slate-700">
+                  <div>开仓均价: {ledger.avgEntryPrice.toFixed(4)}</div>
+                  <div>数量: {openQty.toFixed(4)}</div>
+                  <div>最新价: {runtime.lastPrice.toFixed(4)}</div>
+                  <div className={pnlColor(ledger.unrealizedPnl)}>未实现: {formatPnl(ledger.unrealizedPnl)}</div>
+                </div>
+              )}
+            </div>
+            <div className="border-t border-slate-100 pt-2 font-mono space-y-0.5">
+              <div className="text-slate-500 mb-1 font-sans">已实现盈亏 (USDT)</div>
+              <div className="flex justify-between"><span className="text-slate-500">今日</span><span className={pnlColor(perf?.realizedToday ?? 0)}>{formatPnl(perf?.realizedToday ?? 0)}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">本周</span><span className={pnlColor(perf?.realizedWeek ?? 0)}>{formatPnl(perf?.realizedWeek ?? 0)}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">累计</span><span className={pnlColor(ledger.realizedPnl)}>{formatPnl(ledger.realizedPnl)}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">手续费</span><span className="text-slate-600">{ledger.totalFees.toFixed(2)}</span></div>
+            </div>
+          </div>
+
+          {/* Middle: Equity Curve */}
+          <div className="flex-1 min-w-0 p-2">
+            {chartData.length < 2 ? (
+              <div className="h-full flex items-center justify-center text-slate-400 text-xs">暂无成交记录</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(t) => new Date(t).toLocaleDateString()} tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                  <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" width={50} />
+                  <Tooltip labelFormatter={(t) => new Date(t as number).toLocaleString()} formatter={(v) => [(v as number).toFixed(2), '权益']} />
+                  <ReferenceLine y={0} stroke="#cbd5e1" />
+                  <Area type="stepAfter" dataKey="equity" stroke="#2563eb" fill="#dbeafe" strokeWidth={1.5} isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          {/* Right: Round-trip Trades */}
+          <div className="w-[420px] flex-shrink-0 border-l border-slate-100 overflow-y-auto custom-scrollbar font-mono text-xs">
+            {!perf || perf.trades.length === 0 ? (
+              <div className="p-4 text-slate-400 text-center">暂无完整交易。</div>
+            ) : (
+              <table className="w-full text-left table-fixed">
+                <thead className="bg-slate-100 text-slate-600 sticky top-0 z-10 border-b border-slate-200">
+                  <tr>
+                    <th className="p-2 w-12">方向</th>
+                    <th className="p-2 w-24">平仓时间</th>
+                    <th className="p-2 w-20">开仓价</th>
+                    <th className="p-2 w-20">平仓价</th>
+                    <th className="p-2 w-20">盈亏</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {perf.trades.map((t, idx) => (
+                    <tr key={`${t.exitTime}-${idx}`} className="hover:bg-slate-50 text-slate-700" title={`${t.entryReason} → ${t.exitReason}`}>
+                      <td className={`p-2 font-bold ${t.direction === 'LONG' ? 'text-emerald-600' : 'text-rose-600'}`}>{t.direction === 'LONG' ? '多' : '空'}</td>
+                      <td className="p-2 text-slate-500 truncate">{new Date(t.exitTime).toLocaleString()}</td>
+                      <td className="p-2">{t.entryPrice.toFixed(4)}</td>
+                      <td className="p-2">{t.exitPrice.toFixed(4)}</td>
+                      <td className={`p-2 font-bold ${pnlColor(t.pnl)}`}>{formatPnl(t.pnl)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformancePanel;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { ReplayAction, ReplayRequest, ReplayStatus, StrategyRuntime } from '../types';
+import { REPLAY_SPEEDS, DEFAULT_REPLAY_BARS } from '../constants';
+
+interface ReplayBarProps {
+  status: ReplayStatus | null; // null = no replay of this strategy running
+  runtime: StrategyRuntime | null;
+  error: string;
+  onStart: (request: ReplayRequest) => void;
+  onControl: (action: ReplayAction, value?: number) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const formatReplayTime = (ms: number): string =>
+  new Date(ms).toLocaleString([], { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const STATE_LABELS: Record<ReplayStatus['state'], { label: string; className: string }> = {
+  running: { label: '回放中', className: 'bg-sky-100 text-sky-700 border-sky-200' },
+  paused: { label: '已暂停', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  ended: { label: '已结束', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+};
+
+const buttonClass = 'px-2 py-1 rounded text-xs border border-slate-300 bg-white hover:bg-slate-100 text-slate-700 transition-colors disabled:opacity-40';
+
+// Market replay controls above the chart: start form, then pause / step / seek / speed of the running replay
+const ReplayBar: React.FC<ReplayBarProps> = ({ status, runtime, error, onStart, onControl, onStop, onClose }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[4]);
+  const [sinkUrl, setSinkUrl] = useState('');
+  // Seek slider position while dragging (committed on release)
+  const [seekDraft, setSeekDraft] = useState<number | null>(null);
+  // The server downloads the range before the first status arrives
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => { setSeekDraft(null); }, [status?.runId]);
+  useEffect(() => { setLoading(false); }, [status?.runId, error]);
+
+  if (!status) {
+    return (
+      <div className="flex flex-wrap items-end gap-2 px-3 py-2 mb-2 rounded border border-sky-200 bg-sky-50 text-xs">
+        <span className="font-bold text-sky-700 self-center">行情回放</span>
+        <label className="flex flex-col text-[10px] text-slate-500">
+          开始时间 (留空 = 结束前 {DEFAULT_REPLAY_BARS} 根K线)
+          <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none" />
+        </label>
+        <label className="flex flex-col text-[10px] text-slate-500">
+          结束时间 (留空 = 现在)
+          <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none" />
+        </label>
+        <label className="flex flex-col text-[10px] text-slate-500">
+          速度
+          <select value={speed} onChange={(e) => setSpeed(parseInt(e.target.value))} className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none">
+            {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col flex-1 min-w-[180px] text-[10px] text-slate-500">
+          Webhook 接收地址 (留空 = 不发送)
+          <input value={sinkUrl} onChange={(e) => setSinkUrl(e.target.value)} placeholder="http://localhost:8080/replay-sink" className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none" />
+        </label>
+        <button
+          onClick={() => {
+            setLoading(true);
+            onStart({ from: from ? new Date(from).getTime() : NaN, to: to ? new Date(to).getTime() : NaN, speed, sinkUrl });
+          }}
+          disabled={loading}
+          className="bg-sky-600 hover:bg-sky-500 text-white px-3 py-1 rounded text-xs shadow-sm transition-colors disabled:opacity-40"
+        >
+          {loading ? '下载历史K线...' : '开始回放'}
+        </button>
+        <button onClick={onClose} className={buttonClass}>收起</button>
+        {error && <span className="w-full text-rose-600">{error}</span>}
+        <span className="w-full text-[10px] text-slate-400">用当前策略参数在交易所历史K线上重放 (按所选区间下载, 含未收盘的K线更新), 独立的模拟账本, 不影响实盘策略, 不发送到策略的 Webhook。</span>
+      </div>
+    );
+  }
+
+  const state = STATE_LABELS[status.state];
+  const seekValue = seekDraft ?? status.time;
+  const ledger = runtime?.ledger;
+  const commitSeek = () => {
+    if (seekDraft !== null) onControl('seek', seekDraft);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2 mb-2 rounded border border-sky-200 bg-sky-50 text-xs">
+      <span className={`px-2 py-0.5 rounded border font-bold ${state.className}`}>{state.label}</span>
+      <span className="font-mono text-slate-800">{formatReplayTime(seekValue)}</span>
+
+      {status.state === 'running' ? (
+        <button onClick={() => onControl('pause')} className={buttonClass}>❚❚ 暂停</button>
+      ) : (
+        <button onClick={() => onControl('resume')} disabled={status.state === 'ended'} className={buttonClass}>▶ 继续</button>
+      )}
+      <button onClick={() => onControl('step')} disabled={status.state === 'ended'} className={buttonClass} title="运行到当前K线收盘后暂停">单步</button>
+      <select value={status.speed} onChange={(e) => onControl('speed', parseInt(e.target.value))} className="bg-white border border-slate-300 rounded p-1 text-xs text-slate-900 outline-none">
+        {!REPLAY_SPEEDS.includes(status.speed) && <option value={status.speed}>{status.speed}x</option>}
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+      <button onClick={onStop} className="px-2 py-1 rounded text-xs border border-rose-300 text-rose-600 bg-white hover:bg-rose-50 transition-colors">停止回放</button>
+
+      {ledger && (
+        <span className="ml-auto font-mono text-slate-600">
+          持仓 {runtime!.positionState.direction} · 成交 {ledger.tradeCount} ·
+          <span className={ledger.realizedPnl >= 0 ? 'text-emerald-600' : 'text-rose-600'}> 已实现 {ledger.realizedPnl.toFixed(2)}</span> ·
+          <span className={ledger.unrealizedPnl >= 0 ? 'text-emerald-600' : 'text-rose-600'}> 浮动 {ledger.unrealizedPnl.toFixed(2)}</span>
+        </span>
+      )}
+
+      {/* Seeking restarts the run at the new time (fresh position and ledger) */}
+      <div className="w-full flex items-center gap-2">
+        <span className="text-[10px] text-slate-400 whitespace-nowrap">{formatReplayTime(status.start)}</span>
+        <input
+          type="range"
+          min={status.start}
+          max={status.end}
+          step={60000}
+          value={seekValue}
+          onChange={(e) => setSeekDraft(parseInt(e.target.value))}
+          onMouseUp={commitSeek}
+          onTouchEnd={commitSeek}
+          onKeyUp={commitSeek}
+          className="flex-1 accent-sky-600"
+          title="拖动跳转 (从该时间重新开始回放)"
+        />
+        <span className="text-[10px] text-slate-400 whitespace-nowrap">{formatReplayTime(status.end)}</span>
+      </div>
+      {status.sinkUrl
+        ? <span className="w-full text-[10px] text-slate-400">Webhook 发送到回放接收地址: {status.sinkUrl}</span>
+        : <span className="w-full text-[10px] text-slate-400">Webhook 已屏蔽 (仅记录日志和模拟账本)</span>}
+    </div>
+  );
+};
+
+export default ReplayBar;
@@ -0,0 +1,151 @@
+
+import React from 'react';
+import { RuleNode, RuleOperand, RuleComparator, RuleField } from '../types';
+import { RULE_FIELDS } from '../constants';
+import { createCondition, describeRule } from '../services/ruleEngine';
+
+interface RuleEditorProps {
+  node: RuleNode | null;
+  onChange: (node: RuleNode | null) => void;
+}
+
+const COMPARATORS: { value: RuleComparator; label: string }[] = [
+  { value: '>', label: '>' },
+  { value: '>=', label: '≥' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: 'crossAbove', label: '上穿' },
+  { value: 'crossBelow', label: '下穿' },
+];
+
+const selectClass = "bg-white border border-slate-300 rounded p-1 text-[11px] text-slate-900 focus:border-blue-500 outline-none";
+const numberClass = "bg-white border border-slate-300 rounded p-1 text-[11px] text-slate-900 focus:border-blue-500 outline-none w-14";
+
+// Root of a single signal slot (开多 / 开空 / 平多 / 平空)
+const RuleEditor: React.FC<RuleEditorProps> = ({ node, onChange }) => {
+  if (!node) {
+    return (
+      <div className="flex items-center gap-2 text-[11px]">
+        <span className="text-slate-400">未设置 (不触发)</span>
+        <button onClick={() => onChange(createCondition())} className="text-blue-600 hover:underline">+ 条件</button>
+        <button onClick={() => onChange({ kind: 'and', children: [createCondition()] })} className="text-blue-600 hover:underline">+ AND 组</button>
+        <button onClick={() => onChange({ kind: 'or', children: [createCondition()] })} className="text-blue-600 hover:underline">+ OR 组</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <RuleNodeEditor node={node} onChange={onChange} onRemove={() => onChange(null)} />
+      <div className="text-[10px] text-slate-400 font-mono break-all">{describeRule(node)}</div>
+    </div>
+  );
+};
+
+interface RuleNodeEditorProps {
+  node: RuleNode;
+  onChange: (node: RuleNode) => void;
+  onRemove: () => void;
+}
+
+const RuleNodeEditor: React.FC<RuleNodeEditorProps> = ({ node, onChange, onRemove }) => {
+  if (node.kind === 'condition') {
+    return (
+      <div className="flex flex-wrap items-center gap-1 bg-white border border-slate-200 rounded p-1.5">
+        <OperandEditor operand={node.left} onChange={(left) => onChange({ ...node, left })} allowValue={false} />
+        <select value={node.comparator} onChange={(e) => onChange({ ...node, comparator: e.target.value as RuleComparator })} className={selectClass}>
+          {COMPARATORS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+        </select>
+        <OperandEditor operand={node.right} onChange={(right) => onChange({ ...node, right })} allowValue />
+        <span className="text-[10px] text-slate-500 ml-1">近</span>
+        <input type="number" min={1} value={node.lookback} onChange={(e) => onChange({ ...node, lookback: Math.max(1, parseInt(e.target.value) || 1) })} className={numberClass} title="回看K线数 (1 = 仅当前K线)" />
+        <span className="text-[10px] text-slate-500">根</span>
+        <select value={node.lookbackMode} onChange={(e) => onChange({ ...node, lookbackMode: e.target.value as 'any' | 'all' })} className={selectClass}>
+          <option value="any">任一满足</option>
+          <option value="all">全部满足</option>
+        </select>
+        <NodeActions node={node} onChange={onChange} onRemove={onRemove} />
+      </div>
+    );
+  }
+
+  if (node.kind === 'not') {
+    return (
+      <div className="border-l-2 border-rose-300 pl-2 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-bold text-rose-600">NOT</span>
+          <NodeActions node={node} onChange={onChange} onRemove={onRemove} />
+        </div>
+        <RuleNodeEditor node={node.child} onChange={(child) => onChange({ kind: 'not', child })} onRemove={onRemove} />
+      </div>
+    );
+  }
+
+  // AND / OR group
+  const updateChild = (idx: number, child: RuleNode) => {
+    const children = [...node.children];
+    children[idx] = child;
+    onChange({ ...node, children });
+  };
+  const removeChild = (idx: number) => onChange({ ...node, children: node.children.filter((_, i) => i !== idx) });
+  const addChild = (child: RuleNode) => onChange({ ...node, children: [...node.children, child] });
+
+  return (
+    <div className={`border-l-2 pl-2 space-y-1 ${node.kind === 'and' ? 'border-blue-300' : 'border-amber-300'}`}>
+      <div className="flex items-center gap-2">
+        <select value={node.kind} onChange={(e) => onChange({ kind: e.target.value as 'and' | 'or', children: node.children })} className={`${selectClass} font-bold`}>
+          <option value="and">AND (全部)</option>
+          <option value="or">OR (任一)</option>
+        </select>
+        <NodeActions node={node} onChange={onChange} onRemove={onRemove} />
+      </div>
+      {node.children.map((child, idx) => (
+        <RuleNodeEditor key={idx} node={child} onChange={(c) => updateChild(idx, c)} onRemove={() => removeChild(idx)} />
+      ))}
+      <div className="flex gap-2 text-[11px]">
+        <button onClick={() => addChild(createCondition())} className="text-blue-600 hover:underline">+ 条件</button>
+        <button onClick={() => addChild({ kind: 'and', children: [createCondition()] })} className="text-blue-600 hover:underline">+ AND 组</button>
+        <button onClick={() => addChild({ kind: 'or', children: [createCondition()] })} className="text-blue-600 hover:underline">+ OR 组</button>
+      </div>
+    </div>
+  );
+};
+
+// Wrap / unwrap in NOT + delete
+const NodeActions = ({ node, onChange, onRemove }: RuleNodeEditorProps) => (
+  <div className="flex items-center gap-2 ml-auto text-[10px]">
+    {node.kind === 'not'
+      ? <button onClick={() => onChange(node.child)} className="text-slate-500 hover:text-slate-700">去掉 NOT</button>
+      : <button onClick={() => onChange({ kind: 'not', child: node })} className="text-slate-500 hover:text-slate-700">取反</button>}
+    <button onClick={onRemove} className="text-rose-500 hover:text-rose-600">删除</button>
+  </div>
+);
+
+interface OperandEditorProps {
+  operand: RuleOperand;
+  onChange: (operand: RuleOperand) => void;
+  allowValue: boolean;
+}
+
+const OperandEditor: React.FC<OperandEditorProps> = ({ operand, onChange, allowValue }) => {
+  const handleSourceChange = (source: string) => {
+    if (source === '__value') onChange({ type: 'value', value: 0 });
+    else onChange({ type: 'field', field: source as RuleField, offset: operand.type === 'field' ? operand.offset : 0 });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select value={operand.type === 'value' ? '__value' : operand.field} onChange={(e) => handleSourceChange(e.target.value)} className={selectClass}>
+        {RULE_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+        {allowValue && <option value="__value">数值</option>}
+      </select>
+      {operand.type === 'value' ? (
+        <input type="number" value={operand.value} onChange={(e) => onChange({ type: 'value', value: parseFloat(e.target.value) })} className={numberClass} />
+      ) : (
+        <input type="number" min={0} value={operand.offset} onChange={(e) => onChange({ ...operand, offset: Math.max(0, parseInt(e.target.value) || 0) })} className={`${numberClass} w-10`} title="前 N 根K线 (0 = 当前)" />
+      )}
+    </div>
+  );
+};
+
+export default RuleEditor;
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { SymbolInfo } from '../types';
+import { searchSymbols } from '../services/symbolService';
+
+interface SymbolPickerProps {
+  value: string;
+  symbols: SymbolInfo[]; // Already narrowed to one market (getMarketSymbols)
+  onChange: (symbol: string) => void;
+  placeholder?: string;
+}
+
+// Searchable symbol input. The typed text is only applied on pick / Enter / blur,
+// so a strategy is not resubscribed on every keystroke. Unlisted symbols are still accepted.
+const SymbolPicker: React.FC<SymbolPickerProps> = ({ value, symbols, onChange, placeholder }) => {
+  const [query, setQuery] = useState(value);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => { setQuery(value); }, [value]);
+
+  const matches = open ? searchSymbols(symbols, query === value ? '' : query) : [];
+
+  const commit = (symbol: string) => {
+      const next = symbol.trim().toUpperCase();
+      setOpen(false);
+      setQuery(next || value);
+      if (next && next !== value) onChange(next);
+  };
+
+  return (
+      <div className="relative">
+          <input
+              value={query}
+              onChange={(e) => { setQuery(e.target.value.toUpperCase()); setOpen(true); }}
+              onFocus={() => setOpen(true)}
+              // Delay so a click on a row lands before the list closes
+              onBlur={() => setTimeout(() => commit(query), 150)}
+              onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit(matches.length > 0 && query !== value ? matches[0].symbol : query);
+                  if (e.key === 'Escape') { setQuery(value); setOpen(false); }
+              }}
+              className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs text-slate-900 focus:border-blue-500 outline-none shadow-sm"
+              placeholder={placeholder}
+          />
+          {open && matches.length > 0 && (
+              <div className="absolute z-20 left-0 right-0 mt-1 max-h-56 overflow-y-auto bg-white border border-slate-200 rounded shadow-lg">
+                  {matches.map(s => (
+                      <button
+                          key={s.symbol}
+                          onMouseDown={(e) => { e.preventDefault(); setQuery(s.symbol); commit(s.symbol); }}
+                          className={`w-full flex justify-between items-center px-2 py-1 text-left text-[11px] hover:bg-blue-50 ${s.symbol === value ? 'bg-blue-50' : ''}`}
+                      >
+                          <span className="font-mono text-slate-800">{s.symbol}</span>
+                          <span className="text-[10px] text-slate-400">
+                              {s.status !== 'TRADING' && <span className="text-rose-500 mr-1">{s.status}</span>}
+                              {s.stepSize > 0 && `步长 ${s.stepSize}`}
+                          </span>
+                      </button>
+                  ))}
+              </div>
+          )}
+      </div>
+  );
+};
+
+export default SymbolPicker;
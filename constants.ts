@@ -1,11 +1,49 @@
 
 
-import { StrategyConfig } from "./types";
+import { StrategyConfig, RuleField, SymbolFilter, DailyResetSetting, ExchangeId, MarketType, PreloadSymbol, MockExchangeSetting } from "./types";
 
 export const AVAILABLE_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT', 'DOGEUSDT', 'ADAUSDT', 'ZECUSDT'] as const;
 
-// Symbols that will be monitored in the background immediately upon server start
-export const PRELOAD_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'ZECUSDT'];
+// Binance USDT-M trading rules (lot step / minimum, leverage cap, first-tier maintenance margin).
+// The loaded symbol catalogue overrides lot sizes; leverage caps and maintenance margin come only from here.
+// Unknown symbols use DEFAULT_SYMBOL_FILTER.
+export const SYMBOL_FILTERS: Record<string, SymbolFilter> = {
+  BTCUSDT: { stepSize: 0.001, minQty: 0.001, maxLeverage: 125, maintMarginRate: 0.004 },
+  ETHUSDT: { stepSize: 0.001, minQty: 0.001, maxLeverage: 100, maintMarginRate: 0.005 },
+  SOLUSDT: { stepSize: 1, minQty: 1, maxLeverage: 75, maintMarginRate: 0.005 },
+  BNBUSDT: { stepSize: 0.01, minQty: 0.01, maxLeverage: 75, maintMarginRate: 0.005 },
+  XRPUSDT: { stepSize: 0.1, minQty: 0.1, maxLeverage: 75, maintMarginRate: 0.005 },
+  DOGEUSDT: { stepSize: 1, minQty: 1, maxLeverage: 75, maintMarginRate: 0.005 },
+  ADAUSDT: { stepSize: 1, minQty: 1, maxLeverage: 75, maintMarginRate: 0.005 },
+  ZECUSDT: { stepSize: 0.001, minQty: 0.001, maxLeverage: 50, maintMarginRate: 0.01 },
+  // COIN-M perpetuals: whole contracts of a fixed USD face value
+  BTCUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 125, maintMarginRate: 0.004, contractSize: 100 },
+  ETHUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 100, maintMarginRate: 0.005, contractSize: 10 },
+  SOLUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 50, maintMarginRate: 0.005, contractSize: 10 },
+  BNBUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 50, maintMarginRate: 0.005, contractSize: 10 },
+  XRPUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 50, maintMarginRate: 0.005, contractSize: 10 },
+  DOGEUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 50, maintMarginRate: 0.005, contractSize: 10 },
+  ADAUSD_PERP: { stepSize: 1, minQty: 1, maxLeverage: 50, maintMarginRate: 0.005, contractSize: 10 },
+};
+export const DEFAULT_SYMBOL_FILTER: SymbolFilter = { stepSize: 0.001, minQty: 0.001, maxLeverage: 20, maintMarginRate: 0.01 };
+export const DEFAULT_COINM_FILTER: SymbolFilter = { stepSize: 1, minQty: 1, maxLeverage: 20, maintMarginRate: 0.01, contractSize: 10 };
+
+// Symbols offered by the picker per market until the exchange's symbol catalogue has loaded (free text still accepted)
+export const MARKET_SYMBOLS: Record<MarketType, string[]> = {
+  USDT_M: [...AVAILABLE_SYMBOLS],
+  COIN_M: ['BTCUSD_PERP', 'ETHUSD_PERP', 'SOLUSD_PERP', 'BNBUSD_PERP', 'XRPUSD_PERP', 'DOGEUSD_PERP', 'ADAUSD_PERP'],
+  SPOT: ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT', 'DOGEUSDT', 'ADAUSDT', 'ZECUSDT', 'BTCFDUSD', 'ETHBTC'],
+};
+
+// Global daily reset until changed in the settings (midnight UTC = the old behaviour)
+export const DEFAULT_DAILY_RESET: DailyResetSetting = { timezone: 'UTC', hour: 0 };
+
+// Symbols monitored in the background from server start until the preload list is edited (SystemSettings)
+export const DEFAULT_PRELOAD_SYMBOLS: PreloadSymbol[] = ['BTCUSDT', 'ETHUSDT', 'ZECUSDT']
+  .map(symbol => ({ exchange: 'BINANCE' as ExchangeId, marketType: 'USDT_M' as MarketType, symbol }));
+
+// Time zones offered for trading schedules (any IANA name works in saved configs)
+export const SCHEDULE_TIMEZONES = ['UTC', 'Asia/Shanghai', 'Asia/Tokyo', 'Asia/Singapore', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Chicago'];
 
 // Extended list of intervals as requested. Added 8h which was missing. Removed 31m.
 export const AVAILABLE_INTERVALS = [
@@ -14,20 +52,107 @@ export const AVAILABLE_INTERVALS = [
   '1d', '2d', '3d', '1w', '1M'
 ] as const; 
 
+// Candle fields selectable in the rule builder (value = display label)
+export const RULE_FIELDS: { field: RuleField; label: string }[] = [
+  { field: 'close', label: '收盘价' },
+  { field: 'open', label: '开盘价' },
+  { field: 'high', label: '最高价' },
+  { field: 'low', label: '最低价' },
+  { field: 'volume', label: '成交量' },
+  { field: 'emaFast', label: 'EMA 快线' },
+  { field: 'emaMid', label: 'EMA 中线' },
+  { field: 'emaSlow', label: 'EMA 慢线' },
+  { field: 'macdLine', label: 'MACD' },
+  { field: 'macdSignal', label: 'MACD 信号线' },
+  { field: 'macdHist', label: 'MACD 柱' },
+  { field: 'rsi', label: 'RSI' },
+  { field: 'bbUpper', label: '布林上轨' },
+  { field: 'bbMiddle', label: '布林中轨' },
+  { field: 'bbLower', label: '布林下轨' },
+  { field: 'atr', label: 'ATR' },
+  { field: 'supertrend', label: 'Supertrend' },
+  { field: 'supertrendDir', label: 'Supertrend 方向' },
+  { field: 'vwap', label: 'VWAP' },
+];
+
 // Binance Futures (USDT-M) API Endpoints
 export const BINANCE_WS_BASE = 'wss://fstream.binance.com/stream?streams='; // Using Combined Stream
 export const BINANCE_REST_BASE = 'https://fapi.binance.com/fapi/v1';
 
+// Binance Futures (COIN-M)
+export const BINANCE_COINM_WS_BASE = 'wss://dstream.binance.com/stream?streams=';
+export const BINANCE_COINM_REST_BASE = 'https://dapi.binance.com/dapi/v1';
+
+// Binance Spot
+export const BINANCE_SPOT_WS_BASE = 'wss://stream.binance.com:9443/stream?streams=';
+export const BINANCE_SPOT_REST_BASE = 'https://api.binance.com/api/v3';
+
+// Bybit V5 (USDT perpetual = category linear)
+export const BYBIT_WS_BASE = 'wss://stream.bybit.com/v5/public/linear';
+export const BYBIT_REST_BASE = 'https://api.bybit.com/v5';
+
+// OKX V5 (USDT swaps). Candle channels live on the business socket.
+export const OKX_WS_BASE = 'wss://ws.okx.com:8443/ws/v5/business';
+export const OKX_REST_BASE = 'https://www.okx.com/api/v5';
+
+// Local mock exchange: Binance USDT-M protocol (REST /fapi/v1/klines + combined stream) on its own port
+export const MOCK_EXCHANGE_PORT = 3002;
+export const MOCK_REST_BASE = `http://localhost:${MOCK_EXCHANGE_PORT}/fapi/v1`;
+export const MOCK_WS_BASE = `ws://localhost:${MOCK_EXCHANGE_PORT}/stream?streams=`;
+
+export const DEFAULT_MOCK_EXCHANGE: MockExchangeSetting = { enabled: false, speed: 1, seed: 1, historyBars: 3000 };
+
+// Market replay speeds offered in the UI (replay ms per real ms)
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60, 100, 300, 1000];
+export const MAX_REPLAY_SPEED = 1000;
+// Market replay length (bars of the strategy's interval) when no start time is given
+export const DEFAULT_REPLAY_BARS = 1000;
+
+// Market data venues selectable per strategy
+export const AVAILABLE_EXCHANGES: { id: ExchangeId; label: string }[] = [
+  { id: 'BINANCE', label: 'Binance 合约' },
+  { id: 'BYBIT', label: 'Bybit 合约' },
+  { id: 'OKX', label: 'OKX 合约' },
+];
+
+// Market types (COIN_M / SPOT only on Binance)
+export const AVAILABLE_MARKETS: { id: MarketType; label: string }[] = [
+  { id: 'USDT_M', label: 'U本位合约' },
+  { id: 'COIN_M', label: '币本位合约' },
+  { id: 'SPOT', label: '现货' },
+];
+
 export const DEFAULT_CONFIG: StrategyConfig = {
   id: 'default_1',
   name: 'BTC 策略 #1',
   isActive: false, // Default: Closed
 
+  exchange: 'BINANCE',
+  marketType: 'USDT_M',
   symbol: 'BTCUSDT',
   interval: '1m',
   tradeAmount: 0, // Default: 0
+
+  sizingMode: 'FIXED',
+  accountBalance: 1000,
+  riskPct: 1,
+  volTargetPct: 0.5,
+  balancePct: 10,
+
   webhookUrl: 'http://43.167.199.156:80/webhookbinance',
   secret: '',
+  strategyType: 'SIGNAL',
+
+  tvExchange: 'BINANCE',
+  leverage: 5,
+  marginMode: 'ISOLATED',
+
+  gridMode: 'NEUTRAL',
+  gridLower: 0,
+  gridUpper: 0,
+  gridLevelCount: 10,
+  gridLevelAmount: 50,
+  gridRearm: true,
   
   triggerOnClose: true, // Default to On Candle Close
 
@@ -36,29 +161,37 @@ export const DEFAULT_CONFIG: StrategyConfig = {
   takeoverQuantity: 1.0,
   takeoverTimestamp: '',
 
+  emaFastPeriod: 7,
+  emaMidPeriod: 25,
+  emaSlowPeriod: 99,
+
   trendFilterBlockShort: false,
   trendFilterBlockLong: false,
 
-  // EMA 7/25
-  useEMA7_25: true, 
-  ema7_25_Long: true,
-  ema7_25_Short: true,
-  ema7_25_ExitLong: true,
-  ema7_25_ExitShort: true,
-
-  // EMA 7/99
-  useEMA7_99: false,
-  ema7_99_Long: false,
-  ema7_99_Short: false,
-  ema7_99_ExitLong: false,
-  ema7_99_ExitShort: false,
-
-  // EMA 25/99
-  useEMA25_99: false,
-  ema25_99_Long: false,
-  ema25_99_Short: false,
-  ema25_99_ExitLong: false,
-  ema25_99_ExitShort: false,
+  useHtfFilter: false,
+  htfFilters: [{ interval: '1h', active: true }],
+  htfRequireAligned: true,
+
+  // EMA Fast/Mid
+  useEMAFastMid: true, 
+  emaFastMid_Long: true,
+  emaFastMid_Short: true,
+  emaFastMid_ExitLong: true,
+  emaFastMid_ExitShort: true,
+
+  // EMA Fast/Slow
+  useEMAFastSlow: false,
+  emaFastSlow_Long: false,
+  emaFastSlow_Short: false,
+  emaFastSlow_ExitLong: false,
+  emaFastSlow_ExitShort: false,
+
+  // EMA Mid/Slow
+  useEMAMidSlow: false,
+  emaMidSlow_Long: false,
+  emaMidSlow_Short: false,
+  emaMidSlow_ExitLong: false,
+  emaMidSlow_ExitShort: false,
 
   // Double EMA
   useEMADouble: false,
@@ -77,15 +210,95 @@ export const DEFAULT_CONFIG: StrategyConfig = {
   macdExitLong: false,
   macdExitShort: false,
 
+  // RSI
+  useRSI: false,
+  rsiPeriod: 14,
+  rsiOverbought: 70,
+  rsiOversold: 30,
+  rsiLong: false,
+  rsiShort: false,
+  rsiExitLong: false,
+  rsiExitShort: false,
+
+  // Bollinger Bands
+  useBB: false,
+  bbPeriod: 20,
+  bbStdDev: 2,
+  bbLong: false,
+  bbShort: false,
+  bbExitLong: false,
+  bbExitShort: false,
+
+  atrPeriod: 14,
+
+  // Supertrend
+  useSupertrend: false,
+  supertrendPeriod: 10,
+  supertrendMultiplier: 3,
+  supertrendLong: false,
+  supertrendShort: false,
+  supertrendExitLong: false,
+  supertrendExitShort: false,
+
+  // VWAP
+  useVWAP: false,
+  vwapLong: false,
+  vwapShort: false,
+  vwapExitLong: false,
+  vwapExitShort: false,
+
+  // Rule Builder
+  useRuleBuilder: false,
+  signalRules: { long: null, short: null, exitLong: null, exitShort: null },
+
   // Reversion Entry
   useReversionEntry: false,
   reversionPct: 0.1,
 
+  // Pyramiding
+  usePyramiding: false,
+  pyramidMaxAdds: 2,
+  pyramidAddPct: 50,
+  pyramidMinMovePct: 0.5,
+  pyramidOnPullback: false,
+
+  // Exit Pipeline shares
+  signalExitQtyPct: 100,
+  fixedTPSLQtyPct: 100,
+  trailQtyPct: 100,
+
   // Trailing Stop
   useTrailingStop: false,
   trailActivation: 1.0,
   trailDistance: 0.5,
 
+  // ATR Stops
+  useATRStops: false,
+  atrStopMult: 2,
+  atrTargetMult: 3,
+
+  // Chandelier Trailing Stop
+  useChandelierStop: false,
+  chandelierMult: 3,
+
+  // Time Exits
+  useTimeExit: false,
+  maxBarsHeld: 0,
+  maxHoldMinutes: 0,
+  useCloseAtTime: false,
+  closeAtTime: '23:55',
+  useCloseBeforeWeekend: false,
+  weekendCloseTime: '20:00',
+
+  // Trading Schedule
+  useSchedule: false,
+  scheduleTimezone: 'UTC',
+  scheduleWeekdays: [1, 2, 3, 4, 5],
+  scheduleStart: '00:00',
+  scheduleEnd: '00:00',
+  blackoutWindows: [],
+  blackoutFlattenMinutes: 5,
+
   // Fixed TP/SL
   useFixedTPSL: false,
   takeProfitPct: 2.0,
@@ -106,9 +319,32 @@ export const DEFAULT_CONFIG: StrategyConfig = {
     { active: false, pct: 4.0, qtyPct: 25 },
   ],
 
+  useBreakEven: false,
+  breakEvenTriggerLevel: 1,
+  breakEvenOffsetPct: 0.1,
+  breakEvenLockPrevTP: false,
+
   useReverse: false,
   reverseLongToShort: true,
   reverseShortToLong: true,
 
+  useCooldown: false,
+  cooldownUnit: 'BARS',
+  cooldownAfterExit: 3,
+  cooldownAfterLoss: 10,
+
   maxDailyTrades: 5,
+  dailyResetTimezone: '',
+  dailyResetHour: 0,
+
+  useRiskGuard: false,
+  riskMaxDailyLoss: 0,
+  riskMaxConsecutiveLosses: 0,
+  riskMaxDrawdown: 0,
+  riskFlattenOnTrip: true,
+
+  paperTrading: false,
+  takerFeeBps: 5, // 0.05%
+  makerFeeBps: 2, // 0.02%
+  slippageBps: 2,
 };
@@ -0,0 +1,75 @@
+
+import { StrategyConfig } from "../types";
+import { DEFAULT_CONFIG } from "../constants";
+
+// A config as read from disk or received from a client: current keys typed, anything else (legacy keys) unknown
+export type RawStrategyConfig = Partial<StrategyConfig> & Record<string, unknown>;
+
+// Config keys holding on / off flags (every renamed key is one)
+type FlagKey = { [K in keyof StrategyConfig]-?: StrategyConfig[K] extends boolean ? K : never }[keyof StrategyConfig];
+
+// Renamed config keys: legacy name -> current name
+// (EMA cross flags were tied to fixed 7 / 25 / 99 periods before they became configurable)
+const LEGACY_KEY_MAP: Record<string, FlagKey> = {
+    useEMA7_25: 'useEMAFastMid',
+    ema7_25_Long: 'emaFastMid_Long',
+    ema7_25_Short: 'emaFastMid_Short',
+    ema7_25_ExitLong: 'emaFastMid_ExitLong',
+    ema7_25_ExitShort: 'emaFastMid_ExitShort',
+
+    useEMA7_99: 'useEMAFastSlow',
+    ema7_99_Long: 'emaFastSlow_Long',
+    ema7_99_Short: 'emaFastSlow_Short',
+    ema7_99_ExitLong: 'emaFastSlow_ExitLong',
+    ema7_99_ExitShort: 'emaFastSlow_ExitShort',
+
+    useEMA25_99: 'useEMAMidSlow',
+    ema25_99_Long: 'emaMidSlow_Long',
+    ema25_99_Short: 'emaMidSlow_Short',
+    ema25_99_ExitLong: 'emaMidSlow_ExitLong',
+    ema25_99_ExitShort: 'emaMidSlow_ExitShort',
+};
+
+// Carries renamed keys over to their current names (a current key already present wins) and drops them.
+// Only boolean values are taken from a legacy key.
+const renameLegacyKeys = (raw: RawStrategyConfig): { config: RawStrategyConfig; isLegacy: boolean } => {
+    const config: RawStrategyConfig = { ...raw };
+    let isLegacy = false;
+
+    for (const [legacyKey, currentKey] of Object.entries(LEGACY_KEY_MAP)) {
+        if (!(legacyKey in config)) continue;
+        isLegacy = true;
+        const value = config[legacyKey];
+        delete config[legacyKey];
+        if (config[currentKey] === undefined && typeof value === 'boolean') {
+            config[currentKey] = value;
+        }
+    }
+
+    return { config, isLegacy };
+};
+
+/**
+ * Upgrades a persisted config to the current StrategyConfig shape.
+ * - Renamed keys are carried over (legacy keys are dropped).
+ * - Fields missing from the saved file are populated from DEFAULT_CONFIG.
+ */
+export const migrateStrategyConfig = (saved: RawStrategyConfig): StrategyConfig => {
+    const { config, isLegacy } = renameLegacyKeys(saved);
+
+    // Legacy configs ran on hard-coded EMA 7 / 25 / 99 - pin them so behaviour is unchanged
+    if (isLegacy) {
+        config.emaFastPeriod = config.emaFastPeriod ?? 7;
+        config.emaMidPeriod = config.emaMidPeriod ?? 25;
+        config.emaSlowPeriod = config.emaSlowPeriod ?? 99;
+    }
+
+    return { ...DEFAULT_CONFIG, ...config };
+};
+
+/**
+ * Upgrades a partial config sent by a client (config updates, backtest overrides) before it is merged
+ * into a running config. Renamed keys are carried over; nothing is defaulted, the running config fills the rest.
+ */
+export const migrateConfigUpdate = (updates: RawStrategyConfig): Partial<StrategyConfig> =>
+    renameLegacyKeys(updates).config;
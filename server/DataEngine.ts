@@ -2,12 +2,18 @@
 
 import WebSocket from 'ws';
 import { Candle, IntervalType, SymbolType } from "../types";
-import { BINANCE_WS_BASE, AVAILABLE_INTERVALS } from "../constants";
-import { fetchHistoricalCandles, parseSocketMessage } from "../services/binanceService";
-import { determineBaseConfig, resampleCandles } from "../services/resampleService";
+import { AVAILABLE_INTERVALS } from "../constants";
+import { ExchangeAdapter, MarketSource, DEFAULT_MARKET_SOURCE, getExchangeAdapter } from "../services/exchangeService";
+import { determineBaseConfig, resampleCandles, intervalToMs } from "../services/resampleService";
 import { FileStore } from "./FileStore";
 
-type DataCallback = (candles: Candle[]) => void;
+export type DataCallback = (candles: Candle[]) => void;
+
+// What a StrategyRunner reads candles from: the live DataEngine, or a MarketReplay feed
+export interface CandleFeed {
+    subscribe(strategyId: string, source: MarketSource, symbol: SymbolType, interval: IntervalType, callback: DataCallback): Promise<void>;
+    unsubscribe(strategyId: string, source: MarketSource, symbol: SymbolType, interval: IntervalType): void;
+}
 
 interface Subscription {
     id: string;
@@ -15,14 +21,27 @@ interface Subscription {
     callback: DataCallback;
 }
 
+// One stream per venue + market + symbol + base interval, so BTCUSDT spot and BTCUSDT perp never mix.
+// USDT-M keys carry no market segment (they predate market types).
+const getStreamKey = (adapter: ExchangeAdapter, symbol: SymbolType, baseInterval: IntervalType): string =>
+    adapter.market === 'USDT_M'
+        ? `${adapter.id}_${symbol}_${baseInterval}`
+        : `${adapter.id}_${adapter.market}_${symbol}_${baseInterval}`;
+
+// MIGRATION: Binance USDT-M history predates the exchange prefix and keeps its SYMBOL_BASEINTERVAL.json files
+const getCandleStoreKey = (adapter: ExchangeAdapter, symbol: SymbolType, baseInterval: IntervalType): string =>
+    adapter.id === 'BINANCE' && adapter.market === 'USDT_M' ? `${symbol}_${baseInterval}` : getStreamKey(adapter, symbol, baseInterval);
+
 /**
- * StreamHandler manages a SINGLE WebSocket connection for a specific Symbol + BaseInterval.
+ * StreamHandler manages a SINGLE WebSocket connection for a specific Exchange + Symbol + BaseInterval.
  */
 class StreamHandler {
+    private adapter: ExchangeAdapter;
     private symbol: SymbolType;
     private baseInterval: IntervalType;
     private ws: WebSocket | null = null;
     private isConnected: boolean = false;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
     
     // The Source of Truth: Buffer of Base Interval Candles (e.g., 1m)
     private baseCandles: Candle[] = []; 
@@ -50,7 +69,8 @@ class StreamHandler {
     // Always Active Flag (for pre-warmed symbols)
     public isAlwaysActive: boolean = false;
 
-    constructor(symbol: SymbolType, baseInterval: IntervalType) {
+    constructor(adapter: ExchangeAdapter, symbol: SymbolType, baseInterval: IntervalType) {
+        this.adapter = adapter;
         this.symbol = symbol;
         this.baseInterval = baseInterval;
     }
@@ -68,7 +88,7 @@ class StreamHandler {
     }
 
     private getStoreKey(): string {
-        return `${this.symbol}_${this.baseInterval}`;
+        return getCandleStoreKey(this.adapter, this.symbol, this.baseInterval);
     }
 
     public async initialize() {
@@ -90,7 +110,7 @@ class StreamHandler {
             let lastTime = localData[localData.length - 1].time;
             const now = Date.now();
             
-            console.log(`[DataEngine] Resuming ${this.symbol} ${this.baseInterval}. Last candle: ${new Date(lastTime).toLocaleString()}`);
+            console.log(`[DataEngine] Resuming ${this.adapter.id} ${this.symbol} ${this.baseInterval}. Last candle: ${new Date(lastTime).toLocaleString()}`);
 
             while (true) {
                 // Buffer to avoid requesting "future" data too aggressively
@@ -98,7 +118,7 @@ class StreamHandler {
 
                 try {
                     // Fetch starting from next ms
-                    const batch = await fetchHistoricalCandles(this.symbol, this.baseInterval, lastTime + 1);
+                    const batch = await this.adapter.fetchKlines(this.symbol, this.baseInterval, lastTime + 1);
                     
                     if (!batch || batch.length === 0) {
                         break; // No more data available
@@ -113,8 +133,8 @@ class StreamHandler {
                     
                     lastTime = this.baseCandles[this.baseCandles.length - 1].time;
 
-                    // If batch was small, we probably reached the tip
-                    if (batch.length < 500) break;
+                    // If batch was not a full page, we reached the tip
+                    if (batch.length < this.adapter.pageLimit) break;
 
                 } catch (e) {
                     console.error(`[DataEngine] Error filling gap for ${this.symbol}:`, e);
@@ -126,16 +146,16 @@ class StreamHandler {
             // 3. Deep Fetch (Multi-Page) for Fresh Start
             // We need enough data for derived intervals. 
             // e.g. 31m derived from 1m needs ~3100 candles for 100 bars of history.
-            // Binance limit is 1500. We fetch 3 pages (~4500 candles).
+            // Page sizes differ per venue (Binance 1500, Bybit 1000, OKX 100) - fetch enough pages to fill the buffer.
             
-            console.log(`[DataEngine] Deep fetching history for ${this.symbol} ${this.baseInterval}...`);
+            console.log(`[DataEngine] Deep fetching history for ${this.adapter.id} ${this.symbol} ${this.baseInterval}...`);
             let allFetched: Candle[] = [];
             let endTime: number | undefined = undefined; // Start with 'now'
 
-            // Fetch up to 4 pages (4 * 1500 = 6000 candles) to ensure coverage
-            for (let i = 0; i < 4; i++) {
+            const pages = Math.ceil(this.MAX_CANDLES / this.adapter.pageLimit);
+            for (let i = 0; i < pages; i++) {
                 try {
-                    const batch = await fetchHistoricalCandles(this.symbol, this.baseInterval, undefined, endTime);
+                    const batch = await this.adapter.fetchKlines(this.symbol, this.baseInterval, undefined, endTime);
                     if (batch.length === 0) break;
                     
                     allFetched = [...batch, ...allFetched]; // Prepend older data
@@ -144,7 +164,7 @@ class StreamHandler {
                     endTime = batch[0].time - 1;
                     
                     // If we got less than limit, we reached beginning of trading
-                    if (batch.length < 500) break; 
+                    if (batch.length < this.adapter.pageLimit) break;
                     
                 } catch (e) {
                     console.error(`[DataEngine] Error during deep fetch page ${i}`, e);
@@ -157,7 +177,7 @@ class StreamHandler {
             allFetched.forEach(c => uniqueMap.set(c.time, c));
             this.baseCandles = Array.from(uniqueMap.values()).sort((a: any, b: any) => a.time - b.time);
             
-            console.log(`[DataEngine] Initialized ${this.symbol} ${this.baseInterval} with ${this.baseCandles.length} candles.`);
+            console.log(`[DataEngine] Initialized ${this.adapter.id} ${this.symbol} ${this.baseInterval} with ${this.baseCandles.length} candles.`);
         }
 
         // Trim to Max Limit
@@ -207,6 +227,11 @@ class StreamHandler {
         }
     }
 
+    // Full base buffer (not trimmed to the 1000 candle display window)
+    public getBaseCandles(): Candle[] {
+        return [...this.baseCandles];
+    }
+
     public hasSubscribers(): boolean {
         return this.subscribers.size > 0;
     }
@@ -229,7 +254,8 @@ class StreamHandler {
     }
 
     public destroy() {
-        console.log(`[DataEngine] Destroying Stream: ${this.symbol} @ ${this.baseInterval}`);
+        console.log(`[DataEngine] Destroying Stream: ${this.adapter.id} ${this.symbol} @ ${this.baseInterval}`);
+        this.stopHeartbeat();
         if (this.ws) {
             this.ws.terminate();
             this.ws = null;
@@ -244,43 +270,55 @@ class StreamHandler {
     }
 
     private connect() {
-        const streamName = `${this.symbol.toLowerCase()}@kline_${this.baseInterval}`;
-        const wsUrl = `${BINANCE_WS_BASE}${streamName}`;
+        const streamName = `${this.adapter.id} ${this.symbol}@kline_${this.baseInterval}`;
+        const wsUrl = this.adapter.getStreamUrl(this.symbol, this.baseInterval);
 
-        this.ws = new WebSocket(wsUrl);
+        const ws = new WebSocket(wsUrl);
+        this.ws = ws;
 
-        this.ws.on('open', () => {
+        ws.on('open', () => {
             console.log(`[DataEngine] WS Connected: ${streamName}`);
             this.isConnected = true;
+            // Venues that subscribe by message (Bybit / OKX) + their keep-alive
+            this.adapter.getSubscribeMessages(this.symbol, this.baseInterval).forEach(m => ws.send(m));
+            const heartbeat = this.adapter.heartbeat;
+            if (heartbeat) {
+                this.stopHeartbeat();
+                this.heartbeatTimer = setInterval(() => {
+                    if (ws.readyState === WebSocket.OPEN) ws.send(heartbeat.message);
+                }, heartbeat.intervalMs);
+            }
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
+        ws.on('message', (data: WebSocket.Data) => {
             try {
-                const msg = JSON.parse(data.toString());
-                if (msg.data) {
-                    const kline = parseSocketMessage(msg.data);
-                    if (kline) {
-                        this.processNewCandle(kline);
-                    }
-                }
+                this.adapter.parseMessage(data.toString(), this.symbol).forEach(kline => this.processNewCandle(kline));
             } catch (e) {
                 console.error(`[DataEngine] Error parsing message`, e);
             }
         });
 
-        this.ws.on('close', () => {
+        ws.on('close', () => {
             this.isConnected = false;
+            this.stopHeartbeat();
             // Reconnect if needed
             if ((this.hasSubscribers() || this.isAlwaysActive) && !this.destroyTimeout) {
                 setTimeout(() => this.connect(), 5000);
             }
         });
         
-        this.ws.on('error', (err) => {
+        ws.on('error', (err) => {
              console.error(`[DataEngine] WS Error: ${streamName}`, err);
         });
     }
 
+    private stopHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
     private processNewCandle(newCandle: Candle) {
         const lastBase = this.baseCandles[this.baseCandles.length - 1];
         if (lastBase && lastBase.time === newCandle.time) {
@@ -343,12 +381,23 @@ class StreamHandler {
 /**
  * Singleton Data Engine
  */
-class DataEngine {
+class DataEngine implements CandleFeed {
     private static instance: DataEngine;
     private streams: Map<string, StreamHandler> = new Map();
+    // Server-wide mock switch: every source is served by the local mock exchange (own candle files)
+    private useMockExchange: boolean = false;
 
     private constructor() {}
 
+    // Call before any stream starts - existing streams keep their venue
+    public setMockExchange(enabled: boolean) {
+        this.useMockExchange = enabled;
+    }
+
+    private getAdapter(source: MarketSource): ExchangeAdapter {
+        return getExchangeAdapter(this.useMockExchange ? { exchange: 'MOCK', marketType: 'USDT_M' } : source);
+    }
+
     public static getInstance(): DataEngine {
         if (!DataEngine.instance) {
             DataEngine.instance = new DataEngine();
@@ -361,12 +410,13 @@ class DataEngine {
      * This iterates through AVAILABLE_INTERVALS and ensures the base stream exists
      * and the target interval is registered for monitoring.
      */
-    public async ensureActive(symbol: SymbolType) {
-         console.log(`[DataEngine] === Pre-warming ALL cycles for ${symbol} ===`);
+    public async ensureActive(symbol: SymbolType, source: MarketSource = DEFAULT_MARKET_SOURCE) {
+         const adapter = this.getAdapter(source);
+         console.log(`[DataEngine] === Pre-warming ALL cycles for ${adapter.id} ${adapter.market} ${symbol} ===`);
          
          // Iterate through all supported intervals to ensure comprehensive coverage
          for (const interval of AVAILABLE_INTERVALS) {
-             const { baseInterval, isNative } = determineBaseConfig(interval);
+             const { baseInterval, isNative } = determineBaseConfig(interval, adapter.nativeIntervals);
              
              // Log the routing decision as per system requirements
              if (isNative) {
@@ -375,11 +425,11 @@ class DataEngine {
                 console.log(`[DataEngine] Routing ${symbol} ${interval.padEnd(4)} -> Synthesizing from ${baseInterval}`);
              }
 
-             const streamKey = `${symbol}_${baseInterval}`;
+             const streamKey = getStreamKey(adapter, symbol, baseInterval);
 
              let stream = this.streams.get(streamKey);
              if (!stream) {
-                stream = new StreamHandler(symbol, baseInterval);
+                stream = new StreamHandler(adapter, symbol, baseInterval);
                 this.streams.set(streamKey, stream);
                 // We initialize asynchronously to avoid blocking loop, but track promise if needed
                 stream.initialize().catch(e => console.error(`[DataEngine] Failed to init stream ${streamKey}`, e));
@@ -394,18 +444,43 @@ class DataEngine {
          console.log(`[DataEngine] === Completed setup for ${symbol} ===\n`);
     }
 
+    /**
+     * Reverse of ensureActive (symbol removed from the preload list): streams lose their
+     * always-active flag and close after the keep-alive unless a strategy still uses them.
+     */
+    public release(symbol: SymbolType, source: MarketSource = DEFAULT_MARKET_SOURCE) {
+        const adapter = this.getAdapter(source);
+        const baseIntervals = new Set(AVAILABLE_INTERVALS.map(interval => determineBaseConfig(interval, adapter.nativeIntervals).baseInterval));
+
+        baseIntervals.forEach(baseInterval => {
+            const streamKey = getStreamKey(adapter, symbol, baseInterval);
+            const stream = this.streams.get(streamKey);
+            if (!stream) return;
+
+            stream.setAlwaysActive(false);
+            stream.scheduleDestroy(() => {
+                if (!stream.hasSubscribers() && !stream.isAlwaysActive) {
+                    this.streams.delete(streamKey);
+                }
+            });
+        });
+        console.log(`[DataEngine] Released pre-warmed streams for ${adapter.id} ${adapter.market} ${symbol}`);
+    }
+
     public async subscribe(
         strategyId: string, 
+        source: MarketSource,
         symbol: SymbolType, 
         interval: IntervalType, 
         callback: DataCallback
     ) {
-        const { baseInterval } = determineBaseConfig(interval);
-        const streamKey = `${symbol}_${baseInterval}`;
+        const adapter = this.getAdapter(source);
+        const { baseInterval } = determineBaseConfig(interval, adapter.nativeIntervals);
+        const streamKey = getStreamKey(adapter, symbol, baseInterval);
 
         let stream = this.streams.get(streamKey);
         if (!stream) {
-            stream = new StreamHandler(symbol, baseInterval);
+            stream = new StreamHandler(adapter, symbol, baseInterval);
             this.streams.set(streamKey, stream);
             await stream.initialize();
         }
@@ -413,9 +488,65 @@ class DataEngine {
         stream.subscribe(strategyId, interval, callback);
     }
 
-    public unsubscribe(strategyId: string, symbol: SymbolType, interval: IntervalType) {
-        const { baseInterval } = determineBaseConfig(interval);
-        const streamKey = `${symbol}_${baseInterval}`;
+    /**
+     * Returns ALL stored history for a symbol/interval (used by the backtester).
+     * Reads the live StreamHandler buffer if the stream is running, otherwise
+     * falls back to the persisted candle file.
+     */
+    public getHistory(source: MarketSource, symbol: SymbolType, interval: IntervalType): Candle[] {
+        const { baseInterval, candles } = this.getBaseHistory(source, symbol, interval);
+        if (interval === baseInterval) return candles;
+        return resampleCandles(candles, interval, baseInterval);
+    }
+
+    // Base interval the venue builds `interval` from (native, or the finer interval it is resampled from)
+    public getBaseInterval(source: MarketSource, interval: IntervalType): IntervalType {
+        return determineBaseConfig(interval, this.getAdapter(source).nativeIntervals).baseInterval;
+    }
+
+    /**
+     * Base candles that closed within [start, end], paged forward through the venue's REST history.
+     * Unlike the stream buffers this reaches any past range (market replay of "last Tuesday").
+     */
+    public async fetchRange(source: MarketSource, symbol: SymbolType, baseInterval: IntervalType, start: number, end: number): Promise<Candle[]> {
+        const adapter = this.getAdapter(source);
+        const baseMs = intervalToMs(baseInterval);
+        const candles: Candle[] = [];
+        let cursor = start;
+
+        while (cursor + baseMs <= end) {
+            const batch = await adapter.fetchKlines(symbol, baseInterval, cursor);
+            const fresh = batch
+                .filter(c => c.time >= cursor && c.time + baseMs <= end)
+                .sort((a, b) => a.time - b.time);
+            if (fresh.length === 0) break; // Past the end, or the venue has nothing more
+
+            candles.push(...fresh);
+            cursor = fresh[fresh.length - 1].time + baseMs;
+        }
+
+        console.log(`[DataEngine] Fetched ${candles.length} ${adapter.id} ${symbol} ${baseInterval} candles (${new Date(start).toISOString()} - ${new Date(end).toISOString()})`);
+        return candles;
+    }
+
+    // Stored candles of the stream an interval is built from
+    public getBaseHistory(source: MarketSource, symbol: SymbolType, interval: IntervalType): { baseInterval: IntervalType; candles: Candle[] } {
+        const adapter = this.getAdapter(source);
+        const { baseInterval } = determineBaseConfig(interval, adapter.nativeIntervals);
+        const streamKey = getStreamKey(adapter, symbol, baseInterval);
+
+        const stream = this.streams.get(streamKey);
+        const candles = stream
+            ? stream.getBaseCandles()
+            : (FileStore.load<Candle[]>(getCandleStoreKey(adapter, symbol, baseInterval)) || []).sort((a, b) => a.time - b.time);
+
+        return { baseInterval, candles };
+    }
+
+    public unsubscribe(strategyId: string, source: MarketSource, symbol: SymbolType, interval: IntervalType) {
+        const adapter = this.getAdapter(source);
+        const { baseInterval } = determineBaseConfig(interval, adapter.nativeIntervals);
+        const streamKey = getStreamKey(adapter, symbol, baseInterval);
         
         const stream = this.streams.get(streamKey);
         if (stream) {
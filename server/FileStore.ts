@@ -34,5 +34,14 @@ export const FileStore = {
         } catch (e) {
             console.error(`[FileStore] Error saving ${key}`, e);
         }
+    },
+
+    remove: (key: string) => {
+        const filePath = path.join(DATA_DIR, `${key}.json`);
+        try {
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        } catch (e) {
+            console.error(`[FileStore] Error removing ${key}`, e);
+        }
     }
 };
@@ -0,0 +1,403 @@
+import { Candle, IntervalType, ReplayAction, ReplayRequest, ReplayStatus, StrategyConfig, StrategyRuntime, SymbolType } from "../types";
+import { MAX_REPLAY_SPEED, DEFAULT_REPLAY_BARS } from "../constants";
+import { MarketSource } from "../services/exchangeService";
+import { intervalToMs, resampleCandles, buildFormingCandle } from "../services/resampleService";
+import { CandleFeed, DataCallback, dataEngine } from "./DataEngine";
+import { StrategyRunner } from "./StrategyRunner";
+
+const TICK_MS = 250; // Real time between replay steps (and UI updates)
+const WARMUP_BARS = 300; // Candles of each subscribed interval loaded before the start so indicators are settled
+const MAX_CANDLES = 5000; // Same base buffer as the live StreamHandler
+const MAX_RANGE_CANDLES = 100000; // Base candles one replay may download (~70 days of 1m)
+const MAX_DERIVED = 1000; // Same window the live streams hand to subscribers
+
+const clampSpeed = (speed: number | undefined): number =>
+    Math.min(MAX_REPLAY_SPEED, Math.max(1, Number(speed) || 1));
+
+// Unique across sessions so the UI can tell a restarted run from the previous one
+let nextRunId = 1;
+
+interface Subscription {
+    id: string;
+    callback: DataCallback;
+}
+
+/**
+ * One downloaded base stream played back against the replay clock. Like the live StreamHandler it keeps
+ * a buffer of base candles (closed ones + the forming one) and hands every subscriber its interval,
+ * resampled from that buffer, on each update.
+ */
+class ReplayStream {
+    public readonly baseInterval: IntervalType;
+    public readonly baseMs: number;
+    private history: Candle[]; // Every downloaded candle, closed, oldest first
+    private cursor: number = 0; // Next candle to close
+    private buffer: Candle[] = [];
+    private subscribers: Map<IntervalType, Subscription[]> = new Map();
+
+    constructor(baseInterval: IntervalType, candles: Candle[]) {
+        this.baseInterval = baseInterval;
+        this.baseMs = intervalToMs(baseInterval);
+        // Only candles that closed before the replay end are downloaded (some venues still flag the newest open)
+        this.history = candles.map(c => ({ ...c, isClosed: true }));
+    }
+
+    public isEmpty(): boolean {
+        return this.history.length === 0;
+    }
+
+    public getFirstTime(): number {
+        return this.history.length > 0 ? this.history[0].time : Infinity;
+    }
+
+    // Close of the last candle
+    public getEndTime(): number {
+        const last = this.history[this.history.length - 1];
+        return last ? last.time + this.baseMs : -Infinity;
+    }
+
+    // Older candles in front of the history (a coarser interval on this base needs a longer warm-up). Call seek afterwards.
+    public prepend(candles: Candle[]) {
+        const first = this.getFirstTime();
+        const older = candles.filter(c => c.time < first).map(c => ({ ...c, isClosed: true }));
+        this.history = [...older, ...this.history];
+        this.cursor += older.length;
+    }
+
+    public nextCloseTime(): number {
+        const candle = this.history[this.cursor];
+        return candle ? candle.time + this.baseMs : Infinity;
+    }
+
+    // Rebuild the buffer as it was at `time` (no updates are sent)
+    public seek(time: number) {
+        this.cursor = this.history.findIndex(c => c.time + this.baseMs > time);
+        if (this.cursor === -1) this.cursor = this.history.length;
+        this.buffer = this.history.slice(Math.max(0, this.cursor - MAX_CANDLES), this.cursor);
+
+        const forming = this.getForming(time);
+        if (forming) this.buffer.push(forming);
+    }
+
+    // Close every candle ending at or before `time`, one update per candle
+    public closeUntil(time: number) {
+        while (this.nextCloseTime() <= time) {
+            this.push(this.history[this.cursor]);
+            this.cursor++;
+        }
+    }
+
+    // Partial update of the candle open at `time` (nothing between candles or after the last one)
+    public updateForming(time: number) {
+        const forming = this.getForming(time);
+        if (forming) this.push(forming);
+    }
+
+    public subscribe(subId: string, targetInterval: IntervalType, callback: DataCallback) {
+        if (!this.subscribers.has(targetInterval)) {
+            this.subscribers.set(targetInterval, []);
+        }
+        this.subscribers.get(targetInterval)!.push({ id: subId, callback });
+        callback(this.getDerived(targetInterval));
+    }
+
+    public unsubscribe(subId: string) {
+        for (const [interval, subs] of this.subscribers.entries()) {
+            const remaining = subs.filter(s => s.id !== subId);
+            if (remaining.length > 0) {
+                this.subscribers.set(interval, remaining);
+            } else {
+                this.subscribers.delete(interval);
+            }
+        }
+    }
+
+    private getForming(time: number): Candle | null {
+        const candle = this.history[this.cursor];
+        if (!candle || candle.time >= time) return null;
+        return buildFormingCandle(candle, (time - candle.time) / this.baseMs);
+    }
+
+    // Same flow as StreamHandler.processNewCandle: replace / append, trim, notify every interval
+    private push(candle: Candle) {
+        const last = this.buffer[this.buffer.length - 1];
+        if (last && last.time === candle.time) {
+            this.buffer[this.buffer.length - 1] = candle;
+        } else {
+            this.buffer.push(candle);
+        }
+        if (this.buffer.length > MAX_CANDLES) {
+            this.buffer = this.buffer.slice(-MAX_CANDLES);
+        }
+
+        for (const [interval, subs] of this.subscribers.entries()) {
+            const candles = this.getDerived(interval);
+            subs.forEach(sub => sub.callback(candles));
+        }
+    }
+
+    private getDerived(targetInterval: IntervalType): Candle[] {
+        if (targetInterval === this.baseInterval) return this.buffer.slice(-MAX_DERIVED);
+        return resampleCandles(this.buffer, targetInterval, this.baseInterval).slice(-MAX_DERIVED);
+    }
+}
+
+/**
+ * Stand-in for the DataEngine during a replay: the same subscribe / unsubscribe calls, served from
+ * the venue's REST history of one symbol over the requested range (not the live buffers, so any past
+ * range can be replayed). Every base stream a subscriber needs (main interval, HTF filters)
+ * follows one shared clock, so candles close in the order they did live.
+ */
+export class ReplayFeed implements CandleFeed {
+    private source: MarketSource;
+    private symbol: SymbolType;
+    private interval: IntervalType;
+    private streams: Map<IntervalType, ReplayStream> = new Map(); // By base interval
+    private mainBase: IntervalType;
+
+    public clock: number;
+    public start: number;
+    public end: number;
+
+    // `from` / `to`: requested range, NaN = DEFAULT_REPLAY_BARS before `to` / now. Nothing is fetched until load().
+    constructor(source: MarketSource, symbol: SymbolType, interval: IntervalType, from: number, to: number) {
+        this.source = source;
+        this.symbol = symbol;
+        this.interval = interval;
+        this.mainBase = dataEngine.getBaseInterval(source, interval);
+
+        const now = Date.now();
+        this.end = Number.isFinite(to) ? Math.min(to, now) : now;
+        this.start = Number.isFinite(from) ? from : this.end - DEFAULT_REPLAY_BARS * intervalToMs(interval);
+        this.clock = this.start;
+    }
+
+    // Download the main interval's range (plus warm-up) and park the clock at its start
+    public async load() {
+        if (this.start >= this.end) {
+            throw new Error('Replay start must be before its end');
+        }
+        const baseCount = Math.ceil((this.end - this.start) / intervalToMs(this.mainBase));
+        if (baseCount > MAX_RANGE_CANDLES) {
+            throw new Error(`Replay range too long: ${baseCount} ${this.mainBase} candles (max ${MAX_RANGE_CANDLES})`);
+        }
+
+        const main = await this.getStream(this.interval);
+        if (main.isEmpty()) {
+            throw new Error(`No ${this.source.exchange} history for ${this.symbol} ${this.interval} in the requested range`);
+        }
+        // A symbol listed after the requested start begins once its own warm-up is available
+        const warmupMs = WARMUP_BARS * intervalToMs(this.interval);
+        this.end = main.getEndTime();
+        this.start = Math.min(Math.max(this.start, main.getFirstTime() + warmupMs), this.end);
+        this.seek(this.start);
+    }
+
+    public async subscribe(strategyId: string, _source: MarketSource, symbol: SymbolType, interval: IntervalType, callback: DataCallback) {
+        if (symbol.toUpperCase() !== this.symbol.toUpperCase()) {
+            console.error(`[MarketReplay] Replay of ${this.symbol} cannot serve ${symbol}. IGNORING.`);
+            return;
+        }
+        const stream = await this.getStream(interval);
+        stream.subscribe(strategyId, interval, callback);
+    }
+
+    public unsubscribe(strategyId: string) {
+        this.streams.forEach(stream => stream.unsubscribe(strategyId));
+    }
+
+    public isEnded(): boolean {
+        return this.clock >= this.end;
+    }
+
+    public seek(time: number) {
+        this.clock = Math.min(this.end, Math.max(this.start, time));
+        this.streams.forEach(stream => stream.seek(this.clock));
+    }
+
+    /**
+     * Move the clock to `target`. Candles are closed in time order across all streams
+     * (coarser streams first at equal times, so an HTF close is in before the main bar is evaluated),
+     * then each stream sends the partial update of its forming candle.
+     */
+    public advanceTo(target: number) {
+        target = Math.min(target, this.end);
+        const streams = this.getOrderedStreams();
+
+        while (true) {
+            const next = Math.min(...streams.map(s => s.nextCloseTime()));
+            if (next > target) break;
+            this.clock = next;
+            streams.forEach(s => s.closeUntil(next));
+        }
+
+        this.clock = Math.max(this.clock, target);
+        streams.forEach(s => s.updateForming(this.clock));
+    }
+
+    // Run to the close of the main interval's forming base candle
+    public step() {
+        const main = this.streams.get(this.mainBase)!;
+        this.advanceTo(main.nextCloseTime());
+    }
+
+    // Stream of the interval's base, downloaded with WARMUP_BARS of `interval` before the replay start
+    private async getStream(interval: IntervalType): Promise<ReplayStream> {
+        const baseInterval = dataEngine.getBaseInterval(this.source, interval);
+        // The warm-up is best effort: it never takes the download past MAX_RANGE_CANDLES
+        const warmupStart = Math.max(
+            this.start - WARMUP_BARS * intervalToMs(interval),
+            this.end - MAX_RANGE_CANDLES * intervalToMs(baseInterval)
+        );
+
+        let stream = this.streams.get(baseInterval);
+        if (!stream) {
+            stream = new ReplayStream(baseInterval, await dataEngine.fetchRange(this.source, this.symbol, baseInterval, warmupStart, this.end));
+            // Streams added later (HTF filters) join at the current clock
+            if (this.streams.size > 0) stream.seek(this.clock);
+            this.streams.set(baseInterval, stream);
+        } else if (!stream.isEmpty() && stream.getFirstTime() > warmupStart) {
+            // A coarser interval resampled from the same base (e.g. a 4h filter on 1m) needs more history
+            stream.prepend(await dataEngine.fetchRange(this.source, this.symbol, baseInterval, warmupStart, stream.getFirstTime()));
+            stream.seek(this.clock);
+        }
+        return stream;
+    }
+
+    private getOrderedStreams(): ReplayStream[] {
+        return Array.from(this.streams.values()).sort((a, b) => b.baseMs - a.baseMs);
+    }
+}
+
+export interface ReplayHandlers {
+    onUpdate: (runtime: StrategyRuntime) => void;
+    onLog: (log: any) => void;
+    onStatus: (status: ReplayStatus) => void;
+}
+
+/**
+ * Market replay of one strategy: a separate StrategyRunner (same engine, risk guard and ledger
+ * booking as production) driven by a ReplayFeed at 1x - MAX_REPLAY_SPEED.
+ * The live runner is never touched: the replay runs on a copy of its config with an in-memory ledger,
+ * and its webhooks go to the replay sink only.
+ */
+export class MarketReplay {
+    private config: StrategyConfig;
+    private handlers: ReplayHandlers;
+    private feed: ReplayFeed;
+    private runner: StrategyRunner;
+    private sinkUrl: string;
+    private speed: number;
+    private paused: boolean = false;
+    private runId: number = nextRunId++;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private stopped: boolean = false; // Stop may arrive while the range is still downloading
+    private lastTick: number = 0;
+    // Set by runner updates, flushed to the UI once per tick
+    private dirty: boolean = false;
+
+    constructor(config: StrategyConfig, request: ReplayRequest, handlers: ReplayHandlers) {
+        // Entries need an active strategy; takeover is a live-account concept
+        this.config = { ...config, isActive: true, manualTakeover: false };
+        this.handlers = handlers;
+        this.sinkUrl = (request.sinkUrl || '').trim();
+        this.speed = clampSpeed(request.speed);
+        this.feed = new ReplayFeed(config, config.symbol, config.interval, request.from, request.to);
+        this.runner = this.createRunner();
+    }
+
+    public async start() {
+        await this.feed.load();
+        if (this.stopped) return;
+        console.log(`[MarketReplay] ${this.config.name} ${this.config.symbol} ${this.config.interval} from ${new Date(this.feed.clock).toISOString()} at ${this.speed}x`);
+        // Status first: the UI keys replay logs by runId, and the first evaluation may already fill
+        this.handlers.onStatus(this.getStatus());
+        await this.runner.start();
+        this.lastTick = Date.now();
+        this.timer = setInterval(() => this.tick(), TICK_MS);
+        this.flush(true);
+    }
+
+    public stop() {
+        this.stopped = true;
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.runner.stop();
+    }
+
+    public async control(action: ReplayAction, value?: number) {
+        // Still downloading (or stopped)
+        if (!this.timer) return;
+        switch (action) {
+            case 'pause':
+                this.paused = true;
+                break;
+            case 'resume':
+                this.paused = false;
+                break;
+            case 'step':
+                this.paused = true;
+                this.feed.step();
+                break;
+            case 'speed':
+                this.speed = clampSpeed(value);
+                break;
+            case 'seek':
+                // A jump restarts the run: positions and fills from before it no longer follow from the data
+                if (value === undefined || !Number.isFinite(value)) return;
+                this.runner.stop();
+                this.feed.seek(value);
+                this.runId = nextRunId++;
+                this.runner = this.createRunner();
+                this.handlers.onStatus(this.getStatus());
+                await this.runner.start();
+                break;
+        }
+        this.flush(true);
+    }
+
+    public getStatus(): ReplayStatus {
+        return {
+            strategyId: this.config.id,
+            runId: this.runId,
+            state: this.feed.isEnded() ? 'ended' : this.paused ? 'paused' : 'running',
+            speed: this.speed,
+            time: this.feed.clock,
+            start: this.feed.start,
+            end: this.feed.end,
+            sinkUrl: this.sinkUrl
+        };
+    }
+
+    public getRuntime(): StrategyRuntime {
+        return this.runner.runtime;
+    }
+
+    private createRunner(): StrategyRunner {
+        return new StrategyRunner(
+            this.config,
+            () => { this.dirty = true; },
+            (log) => this.handlers.onLog(log),
+            { feed: this.feed, clock: () => this.feed.clock, replay: { sinkUrl: this.sinkUrl } }
+        );
+    }
+
+    private tick() {
+        const now = Date.now();
+        const elapsed = (now - this.lastTick) * this.speed;
+        this.lastTick = now;
+        if (this.paused || this.feed.isEnded()) return;
+
+        this.feed.advanceTo(this.feed.clock + elapsed);
+        if (this.feed.isEnded()) console.log(`[MarketReplay] ${this.config.name}: end of the replay range`);
+        this.flush(false);
+    }
+
+    private flush(force: boolean) {
+        if (this.dirty || force) {
+            this.dirty = false;
+            this.handlers.onUpdate(this.runner.runtime);
+        }
+        this.handlers.onStatus(this.getStatus());
+    }
+}
@@ -0,0 +1,344 @@
+import express from 'express';
+import http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Candle, IntervalType, MockExchangeSetting, SymbolType } from "../types";
+import { AVAILABLE_INTERVALS, DEFAULT_MOCK_EXCHANGE, MOCK_EXCHANGE_PORT } from "../constants";
+import { resampleCandles, buildFormingCandle } from "../services/resampleService";
+import { FileStore } from "./FileStore";
+
+const MINUTE_MS = 60000;
+const TICK_MS = 250; // Real time between stream updates
+const MAX_HISTORY = 20000; // Closed candles kept per symbol
+const MAX_PAGE = 1500; // Same cap as Binance USDT-M /klines
+const KLINE_1M_STREAM = /^(.+)@kline_1m$/; // The only stream served
+
+// Random walk: per-minute volatility and start prices (unknown symbols start at 100)
+const WALK_VOLATILITY = 0.0015;
+const START_PRICES: Record<string, number> = { BTC: 60000, ETH: 3000, SOL: 150, BNB: 600, XRP: 0.6, DOGE: 0.15, ADA: 0.45, ZEC: 40 };
+
+// Seeded PRNG (mulberry32) so a seed always replays the same prices
+const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const hashSymbol = (symbol: string): number =>
+    symbol.split('').reduce((h, ch) => Math.imul(h ^ ch.charCodeAt(0), 16777619) >>> 0, 2166136261);
+
+const getStartPrice = (symbol: SymbolType): number => {
+    const base = Object.keys(START_PRICES).find(asset => symbol.startsWith(asset));
+    return base ? START_PRICES[base] : 100;
+};
+
+/**
+ * One symbol's 1m candles on its own simulated clock.
+ * `advance` moves the clock and returns the updates to stream: every candle closed on the way
+ * (isClosed true), then the partially built current candle.
+ */
+interface MockFeed {
+    readonly symbol: SymbolType;
+    getCandles(): Candle[]; // Closed history + the forming candle (like Binance /klines)
+    advance(ms: number): Candle[];
+}
+
+/**
+ * Synthetic prices: geometric random walk. History is generated backwards from the current minute
+ * when the feed is created, live candles grow tick by tick.
+ */
+export class RandomWalkFeed implements MockFeed {
+    public readonly symbol: SymbolType;
+    private random: () => number;
+    private history: Candle[] = [];
+    private forming: Candle;
+    private clock: number;
+    private price: number;
+
+    constructor(symbol: SymbolType, setting: MockExchangeSetting) {
+        this.symbol = symbol;
+        this.random = createRandom(setting.seed ^ hashSymbol(symbol));
+        this.clock = Date.now();
+        this.price = getStartPrice(symbol);
+
+        const currentMinute = Math.floor(this.clock / MINUTE_MS) * MINUTE_MS;
+        const firstMinute = currentMinute - setting.historyBars * MINUTE_MS;
+        for (let time = firstMinute; time < currentMinute; time += MINUTE_MS) {
+            const candle = this.openCandle(time);
+            // A few steps per bar so high / low are not just open / close
+            for (let i = 0; i < 6; i++) this.walk(candle, MINUTE_MS / 6);
+            this.history.push({ ...candle, isClosed: true });
+        }
+        this.forming = this.openCandle(currentMinute);
+        this.walk(this.forming, this.clock - currentMinute);
+    }
+
+    public getCandles(): Candle[] {
+        return [...this.history, { ...this.forming }];
+    }
+
+    public advance(ms: number): Candle[] {
+        const updates: Candle[] = [];
+        const target = this.clock + ms;
+
+        while (this.clock < target) {
+            const candleEnd = this.forming.time + MINUTE_MS;
+            const stepTo = Math.min(target, candleEnd);
+            this.walk(this.forming, stepTo - this.clock);
+            this.clock = stepTo;
+
+            if (stepTo >= candleEnd) {
+                const closed = { ...this.forming, isClosed: true };
+                this.history.push(closed);
+                if (this.history.length > MAX_HISTORY) this.history = this.history.slice(-MAX_HISTORY);
+                updates.push(closed);
+                this.forming = this.openCandle(candleEnd);
+            }
+        }
+
+        updates.push({ ...this.forming });
+        return updates;
+    }
+
+    private openCandle(time: number): Candle {
+        return { symbol: this.symbol, time, open: this.price, high: this.price, low: this.price, close: this.price, volume: 0, isClosed: false };
+    }
+
+    // Move the price over `ms` of simulated time and fold it into `candle`
+    private walk(candle: Candle, ms: number) {
+        if (ms <= 0) return;
+        // Box-Muller normal draw, scaled so the variance grows with elapsed time
+        const u = Math.max(this.random(), 1e-12);
+        const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.random());
+        this.price = this.price * Math.exp(WALK_VOLATILITY * Math.sqrt(ms / MINUTE_MS) * z);
+
+        candle.close = this.price;
+        candle.high = Math.max(candle.high, this.price);
+        candle.low = Math.min(candle.low, this.price);
+        candle.volume += (ms / MINUTE_MS) * (50 + this.random() * 100);
+    }
+}
+
+/**
+ * Recorded 1m candles (data/mock/<SYMBOL>.json - the DataEngine's own SYMBOL_1m.json files can be copied there).
+ * The first `historyBars` candles are history, the rest are replayed: each candle is rebuilt
+ * open -> first extreme -> second extreme -> close over its minute. Stops at the end of the file.
+ */
+class RecordedFeed implements MockFeed {
+    public readonly symbol: SymbolType;
+    private candles: Candle[];
+    private cursor: number; // Index of the forming candle
+    private clock: number;
+
+    constructor(symbol: SymbolType, candles: Candle[], setting: MockExchangeSetting) {
+        this.symbol = symbol;
+        this.candles = candles.map(c => ({ ...c, symbol, isClosed: true }));
+        this.cursor = Math.min(Math.max(1, setting.historyBars), this.candles.length - 1);
+        this.clock = this.candles[this.cursor].time;
+    }
+
+    public getCandles(): Candle[] {
+        const forming = this.getForming();
+        return forming ? [...this.candles.slice(0, this.cursor), forming] : this.candles;
+    }
+
+    public advance(ms: number): Candle[] {
+        if (this.cursor >= this.candles.length) return [];
+        const updates: Candle[] = [];
+        const target = this.clock + ms;
+
+        while (this.cursor < this.candles.length && this.clock < target) {
+            const candleEnd = this.candles[this.cursor].time + MINUTE_MS;
+            this.clock = Math.min(target, candleEnd);
+            if (this.clock < candleEnd) break;
+
+            updates.push(this.candles[this.cursor]);
+            this.cursor++;
+            if (this.cursor >= this.candles.length) {
+                console.log(`[MockExchange] ${this.symbol}: end of recorded data`);
+                return updates;
+            }
+            // Gaps in the recording are skipped over
+            this.clock = Math.max(this.clock, this.candles[this.cursor].time);
+        }
+
+        const forming = this.getForming();
+        if (forming) updates.push(forming);
+        return updates;
+    }
+
+    private getForming(): Candle | null {
+        const candle = this.candles[this.cursor];
+        if (!candle) return null;
+        return buildFormingCandle(candle, (this.clock - candle.time) / MINUTE_MS);
+    }
+}
+
+// Binance kline row: [openTime, o, h, l, c, volume, closeTime, quoteVolume, trades, takerBase, takerQuote, ignore]
+const toKlineRow = (c: Candle, intervalMs: number) => [
+    c.time, String(c.open), String(c.high), String(c.low), String(c.close), String(c.volume),
+    c.time + intervalMs - 1, String(c.volume * c.close), 0, '0', '0', '0'
+];
+
+// Combined stream frame, as parsed by binanceService.parseSocketMessage
+const toStreamFrame = (c: Candle) => JSON.stringify({
+    stream: `${c.symbol.toLowerCase()}@kline_1m`,
+    data: {
+        e: 'kline', E: Date.now(), s: c.symbol,
+        k: {
+            t: c.time, T: c.time + MINUTE_MS - 1, s: c.symbol, i: '1m',
+            o: String(c.open), h: String(c.high), l: String(c.low), c: String(c.close),
+            v: String(c.volume), q: String(c.volume * c.close), n: 0, x: c.isClosed
+        }
+    }
+});
+
+/**
+ * Local stand-in for Binance USDT-M market data, for offline development and deterministic tests.
+ * Serves GET /fapi/v1/klines (any interval, resampled from 1m) and the combined stream
+ * ws://host/stream?streams=btcusdt@kline_1m (1m only - the mock adapter resamples everything else;
+ * a connection asking for any other stream gets an error frame and is closed).
+ * Symbols are created on first request: recorded file if there is one, random walk otherwise.
+ */
+export class MockExchange {
+    private setting: MockExchangeSetting = DEFAULT_MOCK_EXCHANGE;
+    private feeds: Map<SymbolType, MockFeed> = new Map();
+    private clients: Map<WebSocket, Set<string>> = new Map(); // Socket -> stream names
+    private server: http.Server | null = null;
+    private wss: WebSocketServer | null = null;
+    private tickTimer: ReturnType<typeof setInterval> | null = null;
+    private lastTick: number = 0;
+
+    public start(setting: MockExchangeSetting, port: number = MOCK_EXCHANGE_PORT): Promise<void> {
+        this.setting = { ...DEFAULT_MOCK_EXCHANGE, ...setting };
+
+        const app = express();
+        app.get('/fapi/v1/ping', (_req, res) => { res.json({}); });
+        app.get('/fapi/v1/time', (_req, res) => { res.json({ serverTime: Date.now() }); });
+        app.get('/fapi/v1/klines', (req, res) => {
+            const result = this.getKlines(req.query as Record<string, string>);
+            if (typeof result === 'string') {
+                res.status(400).json({ code: -1120, msg: result });
+            } else {
+                res.json(result);
+            }
+        });
+
+        this.server = http.createServer(app);
+        this.wss = new WebSocketServer({ server: this.server, path: '/stream' });
+        this.wss.on('connection', (ws, req) => this.handleConnection(ws, req.url || ''));
+
+        this.lastTick = Date.now();
+        this.tickTimer = setInterval(() => this.tick(), TICK_MS);
+
+        return new Promise((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, () => {
+                console.log(`[MockExchange] Listening on port ${port} (speed ${this.setting.speed}x, seed ${this.setting.seed})`);
+                resolve();
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        if (this.tickTimer) clearInterval(this.tickTimer);
+        this.tickTimer = null;
+        this.clients.forEach((_streams, ws) => ws.close());
+        this.clients.clear();
+        this.wss?.close();
+
+        return new Promise(resolve => {
+            if (!this.server) return resolve();
+            this.server.close(() => resolve());
+            this.server = null;
+        });
+    }
+
+    public setSpeed(speed: number) {
+        this.setting = { ...this.setting, speed: Math.max(0, speed) };
+    }
+
+    public getFeed(symbol: SymbolType): MockFeed {
+        const key = symbol.toUpperCase();
+        let feed = this.feeds.get(key);
+        if (!feed) {
+            const recorded = FileStore.load<Candle[]>(`mock/${key}`);
+            if (recorded && recorded.length > 1) {
+                feed = new RecordedFeed(key, [...recorded].sort((a, b) => a.time - b.time), this.setting);
+                console.log(`[MockExchange] ${key}: replaying ${recorded.length} recorded candles`);
+            } else {
+                feed = new RandomWalkFeed(key, this.setting);
+                console.log(`[MockExchange] ${key}: random walk (seed ${this.setting.seed})`);
+            }
+            this.feeds.set(key, feed);
+        }
+        return feed;
+    }
+
+    // Same paging rules as Binance: startTime pages forward, endTime alone pages backward
+    private getKlines(query: Record<string, string>): any[] | string {
+        const symbol = (query.symbol || '').toUpperCase();
+        const interval = query.interval as IntervalType;
+        if (!symbol) return 'Mandatory parameter \'symbol\' was not sent.';
+        if (!AVAILABLE_INTERVALS.includes(interval)) return 'Invalid interval.';
+
+        const limit = Math.min(parseInt(query.limit) || 500, MAX_PAGE);
+        const startTime = query.startTime ? parseInt(query.startTime) : undefined;
+        const endTime = query.endTime ? parseInt(query.endTime) : undefined;
+
+        const base = this.getFeed(symbol).getCandles();
+        const candles = interval === '1m' ? base : resampleCandles(base, interval, '1m');
+        const inRange = candles.filter(c => (startTime === undefined || c.time >= startTime) && (endTime === undefined || c.time <= endTime));
+        const page = startTime !== undefined ? inRange.slice(0, limit) : inRange.slice(-limit);
+
+        const intervalMs = page.length > 1 ? page[1].time - page[0].time : MINUTE_MS;
+        return page.map(c => toKlineRow(c, intervalMs));
+    }
+
+    private handleConnection(ws: WebSocket, url: string) {
+        const streams = new URL(url, 'ws://localhost').searchParams.get('streams') || '';
+        const names = new Set(streams.split('/').map(s => s.trim().toLowerCase()).filter(Boolean));
+
+        // Only 1m klines are produced: anything else is refused instead of staying silent forever
+        const unsupported = Array.from(names).filter(name => !KLINE_1M_STREAM.test(name));
+        if (names.size === 0 || unsupported.length > 0) {
+            const msg = names.size === 0 ? 'No streams requested' : `Unsupported stream ${unsupported.join(', ')} (only <symbol>@kline_1m)`;
+            console.warn(`[MockExchange] ${msg}`);
+            ws.send(JSON.stringify({ error: { code: 2, msg } }));
+            ws.close(1008, msg.slice(0, 120));
+            return;
+        }
+
+        // Create the feeds now so history and stream line up
+        names.forEach(name => this.getFeed(KLINE_1M_STREAM.exec(name)![1]));
+
+        this.clients.set(ws, names);
+        ws.on('close', () => this.clients.delete(ws));
+        ws.on('error', () => this.clients.delete(ws));
+    }
+
+    private tick() {
+        const now = Date.now();
+        const elapsed = (now - this.lastTick) * this.setting.speed;
+        this.lastTick = now;
+        if (elapsed <= 0) return;
+
+        this.feeds.forEach(feed => {
+            const updates = feed.advance(elapsed);
+            if (updates.length === 0) return;
+
+            const stream = `${feed.symbol.toLowerCase()}@kline_1m`;
+            const frames = updates.map(toStreamFrame);
+            this.clients.forEach((names, ws) => {
+                if (!names.has(stream) || ws.readyState !== WebSocket.OPEN) return;
+                frames.forEach(frame => ws.send(frame));
+            });
+        });
+    }
+}
+
+export const mockExchange = new MockExchange();
@@ -0,0 +1,153 @@
+
+import { LedgerState, LedgerFill, LedgerSummary, StrategyConfig, WebhookPayload, EquityPoint, PerformanceSnapshot, DailyResetSetting } from "../types";
+import { DEFAULT_DAILY_RESET } from "../constants";
+import { createLedger, bookFill, payloadToFill, unrealizedPnl } from "../services/ledgerService";
+import { countConsecutiveLosses } from "../services/riskService";
+import { getTradingDayStart, getTradingWeekStart } from "../services/dailyResetService";
+import { FileStore } from "./FileStore";
+
+// Keep the persisted files bounded
+const MAX_TRADES = 500;
+const MAX_EQUITY_POINTS = 2000;
+
+// Realized PnL marks: day / week starts fall on 15 min boundaries in every time zone; a week and a day of them is kept
+const MARK_MS = 15 * 60 * 1000;
+const MARK_RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+// The engine marks take-profit targets and grid levels as resting limit orders (maker, no slippage).
+// Everything else (signals, stops, trailing, manual, older logs without order_type) crosses the book as a taker.
+const isMakerFill = (payload: WebhookPayload) => payload.order_type === 'limit';
+
+/**
+ * PaperLedger books every payload a StrategyRunner emits as a simulated fill
+ * and tracks realized / unrealized PnL. One ledger per strategy, persisted as
+ * data/ledger_<strategyId>.json so it survives restarts.
+ * Market replay runs use an in-memory ledger (`persist` false) so the live one is never touched.
+ */
+export class PaperLedger {
+    private strategyId: string;
+    private persist: boolean;
+    public state: LedgerState;
+
+    // Cumulative realized PnL after each fill (persisted separately as data/equity_<strategyId>.json)
+    private equityCurve: EquityPoint[];
+
+    constructor(strategyId: string, persist: boolean = true) {
+        this.strategyId = strategyId;
+        this.persist = persist;
+        // MIGRATION / SAFETY: merge with a fresh ledger so missing fields get defaults
+        const saved = persist ? FileStore.load<LedgerState>(this.getStoreKey()) : null;
+        this.state = { ...createLedger(), ...saved };
+        this.equityCurve = (persist && FileStore.load<EquityPoint[]>(this.getEquityKey())) || [];
+    }
+
+    private getStoreKey(): string {
+        return `ledger_${this.strategyId}`;
+    }
+
+    private getEquityKey(): string {
+        return `equity_${this.strategyId}`;
+    }
+
+    public book(payload: WebhookPayload, config: StrategyConfig, time: number = Date.now()): LedgerFill {
+        const maker = isMakerFill(payload);
+        const fill = payloadToFill(payload, time, {
+            feeBps: maker ? config.makerFeeBps : config.takerFeeBps,
+            slippageBps: maker ? 0 : config.slippageBps
+        });
+
+        const realizedMarks = this.markRealized(fill.time); // Taken before the fill moves realizedPnl
+        const next = bookFill(this.state, fill);
+        this.state = { ...next, trades: next.trades.slice(-MAX_TRADES), realizedMarks };
+        this.equityCurve = [...this.equityCurve, { time: fill.time, equity: this.state.realizedPnl }].slice(-MAX_EQUITY_POINTS);
+        this.save();
+        return fill;
+    }
+
+    public getSummary(markPrice: number): LedgerSummary {
+        return {
+            positionQty: this.state.positionQty,
+            avgEntryPrice: this.state.avgEntryPrice,
+            realizedPnl: this.state.realizedPnl,
+            unrealizedPnl: unrealizedPnl(this.state, markPrice),
+            totalFees: this.state.totalFees,
+            tradeCount: this.state.trades.length
+        };
+    }
+
+    // Day / week windows follow the strategy's daily reset (weeks start at Monday's reset)
+    public getPerformance(reset: DailyResetSetting = DEFAULT_DAILY_RESET, now: number = Date.now()): PerformanceSnapshot {
+        const dayStart = getTradingDayStart(now, reset);
+        const weekStart = getTradingWeekStart(now, reset);
+
+        return {
+            strategyId: this.strategyId,
+            realizedToday: this.realizedSince(dayStart),
+            realizedWeek: this.realizedSince(weekStart),
+            realizedAllTime: this.state.realizedPnl,
+            totalFees: this.state.totalFees,
+            equityCurve: this.equityCurve,
+            trades: [...this.state.trades].reverse()
+        };
+    }
+
+    // Risk guard inputs counted from `since` (an acknowledgement) or today's start, whichever is later
+    public getRiskInputs(markPrice: number, since: number, reset: DailyResetSetting = DEFAULT_DAILY_RESET, now: number = Date.now()) {
+        const dayStart = getTradingDayStart(now, reset);
+        return {
+            dailyPnl: this.realizedSince(Math.max(dayStart, since)),
+            consecutiveLosses: countConsecutiveLosses(this.state.trades, since),
+            equity: this.getEquity(markPrice)
+        };
+    }
+
+    // Realized + unrealized PnL at `markPrice` (cheap enough to run on every tick)
+    public getEquity(markPrice: number): number {
+        return this.state.realizedPnl + unrealizedPnl(this.state, markPrice);
+    }
+
+    // Realized PnL booked at or after `start`
+    private realizedSince(start: number): number {
+        // Exact from the equity curve while it still reaches back past `start`
+        const curve = this.equityCurve;
+        if (curve.length < MAX_EQUITY_POINTS || curve[0].time < start) {
+            let baseline = 0;
+            for (const point of curve) {
+                if (point.time >= start) break;
+                baseline = point.equity;
+            }
+            return this.state.realizedPnl - baseline;
+        }
+
+        // Trimmed: from the mark of the bucket holding `start` (exact for day / week starts,
+        // a start inside a bucket also counts the bucket's earlier fills). No mark = no fill since.
+        const mark = this.state.realizedMarks.find(m => m.time + MARK_MS > start);
+        return mark ? this.state.realizedPnl - mark.equity : 0;
+    }
+
+    // Marks including the bucket of a fill at `time` (opened with the realized PnL before that fill)
+    private markRealized(time: number): EquityPoint[] {
+        const bucket = Math.floor(time / MARK_MS) * MARK_MS;
+        const marks = this.state.realizedMarks.filter(m => m.time >= bucket - MARK_RETENTION_MS);
+        const last = marks[marks.length - 1];
+        if (last && last.time >= bucket) return marks;
+        return [...marks, { time: bucket, equity: this.state.realizedPnl }];
+    }
+
+    public reset() {
+        this.state = createLedger();
+        this.equityCurve = [];
+        this.save();
+    }
+
+    public destroy() {
+        FileStore.remove(this.getStoreKey());
+        FileStore.remove(this.getEquityKey());
+    }
+
+    private save() {
+        if (!this.persist) return;
+        FileStore.save(this.getStoreKey(), this.state);
+        FileStore.save(this.getEquityKey(), this.equityCurve);
+    }
+}
@@ -0,0 +1,127 @@
+import { ClosedTrade, GlobalRiskState, RiskLimits, RiskMetrics } from "../types";
+import { EMPTY_RISK_METRICS, buildRiskMetrics, checkRiskLimits, countConsecutiveLosses } from "../services/riskService";
+import { getTradingDayStart } from "../services/dailyResetService";
+import { FileStore } from "./FileStore";
+import { systemSettings } from "./SystemSettings";
+import { StrategyRunner } from "./StrategyRunner";
+
+const STORE_KEY = 'risk_guard';
+
+interface SavedRiskGuard {
+    enabled: boolean;
+    limits: RiskLimits;
+    halt: GlobalRiskState['halt'];
+    ackTime: number;
+    peakEquity: number;
+}
+
+const DEFAULT_LIMITS: RiskLimits = { maxDailyLoss: 0, maxConsecutiveLosses: 0, maxDrawdown: 0, flattenOnTrip: true };
+
+/**
+ * RiskGuard is the account-wide kill switch: the same limits as the per-strategy guard,
+ * measured over the sum of every strategy's paper ledger.
+ * When it trips the server halts every runner; nothing can be re-activated until the
+ * halt is acknowledged. Persisted as data/risk_guard.json so a halt survives restarts.
+ */
+class RiskGuard {
+    private enabled: boolean = false;
+    private limits: RiskLimits = DEFAULT_LIMITS;
+    private halt: GlobalRiskState['halt'] = null;
+    private ackTime: number = 0;
+    private metrics: RiskMetrics = EMPTY_RISK_METRICS;
+    // Realized side of the metrics (daily PnL, losing streak) only moves on fills and at the daily reset,
+    // so it is cached and rebuilt when a ledger changed or the trading day rolled over
+    private realized = { dailyPnl: 0, consecutiveLosses: 0 };
+    private realizedDayStart = 0;
+    private realizedStale = true;
+
+    constructor() {
+        // MIGRATION / SAFETY: fields missing from older files fall back to defaults
+        const saved = FileStore.load<Partial<SavedRiskGuard>>(STORE_KEY);
+        if (saved) {
+            this.enabled = !!saved.enabled;
+            this.limits = { ...DEFAULT_LIMITS, ...saved.limits };
+            this.halt = saved.halt || null;
+            this.ackTime = saved.ackTime || 0;
+            this.metrics = { ...EMPTY_RISK_METRICS, peakEquity: saved.peakEquity || 0 };
+        }
+    }
+
+    public getState(): GlobalRiskState {
+        return { enabled: this.enabled, limits: this.limits, halt: this.halt, metrics: this.metrics };
+    }
+
+    public isHalted(): boolean {
+        return this.halt !== null;
+    }
+
+    public updateSettings(enabled: boolean, limits: Partial<RiskLimits>) {
+        this.enabled = enabled;
+        this.limits = { ...this.limits, ...limits };
+        this.save();
+    }
+
+    // A ledger booked a fill, was reset or removed - rebuild the realized metrics on the next check
+    public invalidateRealized() {
+        this.realizedStale = true;
+    }
+
+    /**
+     * Refresh the combined metrics and trip when a limit is breached.
+     * Runs on every runner update: only equity is summed per tick, the realized side comes from the cache.
+     * Returns the trip reason the first time it trips, '' otherwise.
+     */
+    public check(runners: StrategyRunner[]): string {
+        // The account-wide day follows the global daily reset
+        const reset = systemSettings.get().dailyReset;
+        const dayStart = getTradingDayStart(Date.now(), reset);
+        if (this.realizedStale || dayStart !== this.realizedDayStart) {
+            this.refreshRealized(runners, dayStart);
+        }
+
+        const equity = runners.reduce((sum, runner) => sum + runner.ledger.getEquity(runner.runtime.lastPrice), 0);
+        this.metrics = buildRiskMetrics(this.realized.dailyPnl, this.realized.consecutiveLosses, equity, this.metrics.peakEquity);
+
+        if (!this.enabled || this.halt) return '';
+        const reason = checkRiskLimits(this.limits, this.metrics);
+        if (!reason) return '';
+
+        this.halt = { scope: 'GLOBAL', reason, time: Date.now() };
+        console.warn(`[RiskGuard] GLOBAL risk guard tripped: ${reason}`);
+        this.save();
+        return reason;
+    }
+
+    // Manual acknowledgement: clear the halt and measure from now, with the peak reset to current equity
+    public acknowledge() {
+        if (this.halt) console.log(`[RiskGuard] Global halt acknowledged (${this.halt.reason})`);
+        this.halt = null;
+        this.ackTime = Date.now();
+        this.metrics = { ...EMPTY_RISK_METRICS, peakEquity: this.metrics.equity };
+        this.realizedStale = true;
+        this.save();
+    }
+
+    private refreshRealized(runners: StrategyRunner[], dayStart: number) {
+        const reset = systemSettings.get().dailyReset;
+        const dailyPnl = runners.reduce((sum, runner) => sum + runner.ledger.getRiskInputs(0, this.ackTime, reset).dailyPnl, 0);
+        // Losing streak across strategies is counted on the merged trade list
+        const trades = runners.reduce((all, runner) => all.concat(runner.ledger.state.trades), [] as ClosedTrade[]);
+        this.realized = { dailyPnl, consecutiveLosses: countConsecutiveLosses(trades, this.ackTime) };
+        this.realizedDayStart = dayStart;
+        this.realizedStale = false;
+    }
+
+    private save() {
+        const data: SavedRiskGuard = {
+            enabled: this.enabled,
+            limits: this.limits,
+            halt: this.halt,
+            ackTime: this.ackTime,
+            peakEquity: this.metrics.peakEquity
+        };
+        FileStore.save(STORE_KEY, data);
+    }
+}
+
+export const riskGuard = new RiskGuard();
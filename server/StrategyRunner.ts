@@ -1,44 +1,75 @@
 
 
-import { StrategyConfig, StrategyRuntime, Candle, PositionState, TradeStats, WebhookPayload } from "../types";
+import { StrategyConfig, StrategyRuntime, Candle, PositionState, TradeStats, WebhookPayload, IntervalType, RiskHalt } from "../types";
 import { enrichCandlesWithIndicators } from "../services/indicatorService";
-import { evaluateStrategy } from "../services/strategyEngine";
-import { dataEngine } from "./DataEngine";
-
-const INITIAL_POS_STATE: PositionState = {
-    direction: 'FLAT', 
-    initialQuantity: 0,
-    remainingQuantity: 0,
-    entryPrice: 0, 
-    highestPrice: 0, 
-    lowestPrice: 0, 
-    openTime: 0, 
-    tpLevelsHit: [], 
-    slLevelsHit: [],
-    pendingReversion: null,
-    pendingReversionReason: ''
+import { evaluateStrategy, getClosedTrend, createFlatPosition, createOpenPosition, buildPayload, getCloseCooldown } from "../services/strategyEngine";
+import { evaluateGrid } from "../services/gridEngine";
+import { calculateEntrySize, roundQuantity, getContractSize, quantityToNotional } from "../services/sizingService";
+import { getEffectiveLeverage, getLiquidationWarnings } from "../services/marginService";
+import { EMPTY_RISK_METRICS, getStrategyRiskLimits, checkRiskLimits, buildRiskMetrics } from "../services/riskService";
+import { resolveDailyReset } from "../services/dailyResetService";
+import { resolveMarketType } from "../services/exchangeService";
+import { CandleFeed, dataEngine } from "./DataEngine";
+import { PaperLedger } from "./PaperLedger";
+import { systemSettings } from "./SystemSettings";
+
+const INITIAL_POS_STATE: PositionState = createFlatPosition();
+
+const INITIAL_STATS: TradeStats = { dailyTradeCount: 0, lastTradeDate: new Date().toISOString().split('T')[0], cooldownUntil: 0, cooldownReason: '' };
+
+// Distinct higher-timeframe intervals a config needs (the main interval is never subscribed twice)
+const getHtfIntervals = (config: StrategyConfig): IntervalType[] => {
+    if (!config.useHtfFilter) return [];
+    const intervals = config.htfFilters.filter(f => f.active).map(f => f.interval);
+    return Array.from(new Set(intervals)).filter(i => i !== config.interval);
 };
 
-const INITIAL_STATS: TradeStats = { dailyTradeCount: 0, lastTradeDate: new Date().toISOString().split('T')[0] };
+export interface RunnerOptions {
+    feed?: CandleFeed; // Market data (default: the live DataEngine)
+    clock?: () => number; // Current time (a replay run follows the replay clock)
+    // Market replay run: in-memory ledger, webhooks only go to sinkUrl (empty = suppressed)
+    replay?: { sinkUrl: string };
+}
 
 export class StrategyRunner {
     public runtime: StrategyRuntime;
     private onUpdate: (id: string, runtime: StrategyRuntime) => void;
     private onLog: (log: any) => void;
     private isRunning: boolean = false;
+
+    private feed: CandleFeed;
+    private now: () => number;
+    private replay: RunnerOptions['replay'];
+
+    // Every emitted payload is booked here (paper mode or live)
+    public ledger: PaperLedger;
     
     // Safety ID to prevent processing stale callbacks from previous interval subscriptions
     private subscriptionId: number = 0;
 
-    constructor(config: StrategyConfig, onUpdate: (id: string, runtime: StrategyRuntime) => void, onLog: (log: any) => void) {
+    // Higher-timeframe intervals subscribed by the last start()
+    private htfIntervals: IntervalType[] = [];
+
+    // Risk guard baseline: trades / daily PnL before the last acknowledgement don't count
+    private riskAckTime: number = 0;
+
+    constructor(config: StrategyConfig, onUpdate: (id: string, runtime: StrategyRuntime) => void, onLog: (log: any) => void, options: RunnerOptions = {}) {
         this.onUpdate = onUpdate;
         this.onLog = onLog;
+        this.feed = options.feed || dataEngine;
+        this.now = options.clock || Date.now;
+        this.replay = options.replay;
+        this.ledger = new PaperLedger(config.id, !this.replay);
         this.runtime = {
             config: config,
             candles: [],
             positionState: INITIAL_POS_STATE,
             tradeStats: INITIAL_STATS,
-            lastPrice: 0
+            lastPrice: 0,
+            ledger: this.ledger.getSummary(0),
+            htfTrends: {},
+            riskHalt: null,
+            riskMetrics: EMPTY_RISK_METRICS
         };
     }
 
@@ -53,8 +84,9 @@ export class StrategyRunner {
         const currentSid = this.subscriptionId;
 
         // Subscribe to Data Engine
-        await dataEngine.subscribe(
+        await this.feed.subscribe(
             this.runtime.config.id,
+            this.runtime.config,
             this.runtime.config.symbol,
             this.runtime.config.interval,
             (candles) => {
@@ -65,6 +97,25 @@ export class StrategyRunner {
                 this.handleDataUpdate(candles);
             }
         );
+
+        // Higher-timeframe filters: only track their trend, evaluation stays driven by the main interval
+        this.htfIntervals = getHtfIntervals(this.runtime.config);
+        for (const interval of this.htfIntervals) {
+            await this.feed.subscribe(
+                this.getHtfSubscriptionId(interval),
+                this.runtime.config,
+                this.runtime.config.symbol,
+                interval,
+                (candles) => {
+                    if (this.subscriptionId !== currentSid) return;
+                    this.handleHtfUpdate(interval, candles);
+                }
+            );
+        }
+    }
+
+    private getHtfSubscriptionId(interval: IntervalType): string {
+        return `${this.runtime.config.id}#htf_${interval}`;
     }
 
     public stop() {
@@ -72,17 +123,33 @@ export class StrategyRunner {
         this.isRunning = false;
         
         // Unsubscribe from Data Engine
-        dataEngine.unsubscribe(
+        this.feed.unsubscribe(
             this.runtime.config.id, 
+            this.runtime.config,
             this.runtime.config.symbol, 
             this.runtime.config.interval
         );
+
+        for (const interval of this.htfIntervals) {
+            this.feed.unsubscribe(this.getHtfSubscriptionId(interval), this.runtime.config, this.runtime.config.symbol, interval);
+        }
+        this.htfIntervals = [];
+        this.runtime.htfTrends = {};
     }
 
     public updateConfig(newConfig: StrategyConfig) {
+        const oldExchange = this.runtime.config.exchange;
+        const oldMarket = this.runtime.config.marketType;
         const oldSymbol = this.runtime.config.symbol;
         const oldInterval = this.runtime.config.interval;
+        const oldHtf = getHtfIntervals(this.runtime.config).join(',');
         const wasManual = this.runtime.config.manualTakeover;
+
+        // A tripped risk guard keeps the strategy off until it is acknowledged
+        if (newConfig.isActive && this.runtime.riskHalt) {
+            console.warn(`[${newConfig.name}] Refusing to activate: risk guard tripped (${this.runtime.riskHalt.reason}), acknowledge first`);
+            newConfig = { ...newConfig, isActive: false };
+        }
         
         this.runtime.config = newConfig;
 
@@ -91,8 +158,8 @@ export class StrategyRunner {
              this.initializeManualPosition(newConfig);
         }
 
-        // If symbol or interval changed, we need to resubscribe
-        if (newConfig.symbol !== oldSymbol || newConfig.interval !== oldInterval) {
+        // If exchange, market, symbol or interval changed, we need to resubscribe
+        if (newConfig.exchange !== oldExchange || newConfig.marketType !== oldMarket || newConfig.symbol !== oldSymbol || newConfig.interval !== oldInterval) {
             this.stop();
             // Clear current state as context changed
             this.runtime.candles = []; 
@@ -101,6 +168,11 @@ export class StrategyRunner {
             this.emitUpdate(); 
             
             this.start();
+        } else if (getHtfIntervals(newConfig).join(',') !== oldHtf) {
+            // Higher-timeframe filter set changed - resubscribe, candles stay valid
+            this.stop();
+            this.start();
+            this.emitUpdate();
         } else {
             // Just trigger an update to ensure UI sees new config
             this.emitUpdate();
@@ -111,20 +183,37 @@ export class StrategyRunner {
         return {
             config: this.runtime.config,
             positionState: this.runtime.positionState,
-            tradeStats: this.runtime.tradeStats
+            tradeStats: this.runtime.tradeStats,
+            risk: {
+                halt: this.runtime.riskHalt,
+                ackTime: this.riskAckTime,
+                peakEquity: this.runtime.riskMetrics.peakEquity
+            }
         };
     }
 
-    public restoreState(position: PositionState, stats: TradeStats) {
-        this.runtime.positionState = position;
-        this.runtime.tradeStats = stats;
+    public restoreState(position: PositionState, stats: TradeStats, risk?: { halt: RiskHalt | null; ackTime: number; peakEquity: number }) {
+        // MIGRATION: fields added after the snapshot was written fall back to flat defaults
+        this.runtime.positionState = { ...createFlatPosition(), ...position };
+        this.runtime.tradeStats = { ...INITIAL_STATS, ...stats };
+        if (risk) {
+            this.runtime.riskHalt = risk.halt || null;
+            this.riskAckTime = risk.ackTime || 0;
+            this.runtime.riskMetrics = { ...EMPTY_RISK_METRICS, peakEquity: risk.peakEquity || 0 };
+        }
         console.log(`[${this.runtime.config.name}] State Restored: ${position.direction}, Today's Trades: ${stats.dailyTradeCount}`);
     }
 
+    private getLatestATR(): number | undefined {
+        const candles = this.runtime.candles;
+        return candles.length > 0 ? candles[candles.length - 1].atr : undefined;
+    }
+
     private initializeManualPosition(config: StrategyConfig) {
         // SAFETY FIX: Ensure defaults to prevent crash from undefined takeoverDirection
         const direction = config.takeoverDirection || 'FLAT';
-        const qty = config.takeoverQuantity || 0;
+        // Rounded to the lot step so the init order is a valid size
+        const qty = roundQuantity(config, config.takeoverQuantity || 0);
 
         if (direction === 'FLAT') {
             this.runtime.positionState = INITIAL_POS_STATE;
@@ -132,19 +221,7 @@ export class StrategyRunner {
         } else {
             const price = this.runtime.lastPrice; 
             
-            this.runtime.positionState = {
-                direction: direction,
-                initialQuantity: qty,
-                remainingQuantity: qty,
-                entryPrice: price,
-                highestPrice: direction === 'LONG' ? price : 0,
-                lowestPrice: direction === 'SHORT' ? price : 0,
-                openTime: Date.now(), 
-                tpLevelsHit: [],
-                slLevelsHit: [],
-                pendingReversion: null,
-                pendingReversionReason: ''
-            };
+            this.runtime.positionState = createOpenPosition(direction, qty, price, this.now(), config, this.getLatestATR());
 
             const payload: WebhookPayload = {
                 secret: config.secret || '',
@@ -154,14 +231,17 @@ export class StrategyRunner {
                 position: direction?.toLowerCase() || 'flat',
                 symbol: config.symbol,
                 quantity: qty.toString(),
-                trade_amount: qty * price,
-                leverage: 5,
-                timestamp: new Date().toISOString(),
-                tv_exchange: "BINANCE",
+                trade_amount: quantityToNotional(config, qty, price),
+                leverage: getEffectiveLeverage(config),
+                timestamp: new Date(this.now()).toISOString(),
+                tv_exchange: config.tvExchange || "BINANCE",
                 strategy_name: config.name,
                 tp_level: "Manual_Takeover_Init",
                 execution_price: price,
-                execution_quantity: qty
+                execution_quantity: qty,
+                sizing: 'TAKEOVER',
+                margin_mode: config.marginMode.toLowerCase(),
+                contract_size: getContractSize(config) || undefined
             };
             this.sendWebhook(payload, true);
             console.log(`[${config.name}] Manual Takeover: Initialized ${direction} ${qty}`);
@@ -171,31 +251,43 @@ export class StrategyRunner {
     public handleManualOrder(type: 'LONG' | 'SHORT' | 'FLAT') {
         const price = this.runtime.lastPrice;
         if (price === 0) return;
+        if (type === 'SHORT' && resolveMarketType(this.runtime.config) === 'SPOT') {
+            console.warn(`[${this.runtime.config.name}] Manual SHORT skipped: spot markets cannot be shorted`);
+            return;
+        }
 
-        const now = new Date();
+        const now = new Date(this.now());
         let act = '';
         let pos = '';
         let quantity = 0;
         let tradeAmount = 0;
-
+        let sizing: string = this.runtime.config.sizingMode;
+
+        // Manual entries follow the strategy's sizing mode
+        if (type === 'LONG' || type === 'SHORT') {
+            const size = calculateEntrySize(this.runtime.config, price, this.getLatestATR());
+            if (size.quantity <= 0) {
+                console.warn(`[${this.runtime.config.name}] Manual ${type} skipped: size below the minimum order quantity (${size.note})`);
+                return;
+            }
+            quantity = size.quantity;
+            tradeAmount = size.amount;
+            sizing = size.note;
+        }
         if (type === 'LONG') { 
             act = 'buy'; 
             pos = 'long'; 
-            tradeAmount = this.runtime.config.tradeAmount;
-            quantity = tradeAmount / price;
         }
         if (type === 'SHORT') { 
             act = 'sell'; 
             pos = 'short'; 
-            tradeAmount = this.runtime.config.tradeAmount;
-            quantity = tradeAmount / price;
         }
         if (type === 'FLAT') { 
             // FIX: If Long, Sell to close. If Short, Buy to close.
             act = this.runtime.positionState.direction === 'LONG' ? 'sell' : 'buy'; 
             pos = 'flat'; 
             quantity = this.runtime.positionState.remainingQuantity; 
-            tradeAmount = quantity * price; 
+            tradeAmount = quantityToNotional(this.runtime.config, quantity, price); 
         }
 
         const payload: WebhookPayload = {
@@ -205,13 +297,17 @@ export class StrategyRunner {
             symbol: this.runtime.config.symbol,
             quantity: quantity.toString(),
             trade_amount: tradeAmount, 
-            leverage: 5,
+            leverage: getEffectiveLeverage(this.runtime.config),
             timestamp: now.toISOString(),
-            tv_exchange: "BINANCE",
+            tv_exchange: this.runtime.config.tvExchange || "BINANCE",
             strategy_name: "Manual_Override",
             tp_level: "手动操作",
             execution_price: price,
-            execution_quantity: quantity
+            execution_quantity: quantity,
+            sizing,
+            margin_mode: this.runtime.config.marginMode.toLowerCase(),
+            order_type: 'market',
+            contract_size: getContractSize(this.runtime.config) || undefined
         };
 
         // Update State Manually
@@ -219,21 +315,10 @@ export class StrategyRunner {
         let newState: PositionState;
 
         if (type === 'FLAT') {
+            if (this.runtime.positionState.direction !== 'FLAT' && quantity > 0) newStats = this.getStatsAfterClose(quantity, price);
             newState = INITIAL_POS_STATE;
         } else {
-            newState = {
-                direction: type,
-                initialQuantity: quantity,
-                remainingQuantity: quantity,
-                entryPrice: price,
-                highestPrice: type === 'LONG' ? price : 0,
-                lowestPrice: type === 'SHORT' ? price : 0,
-                openTime: now.getTime(),
-                tpLevelsHit: [],
-                slLevelsHit: [],
-                pendingReversion: null,
-                pendingReversionReason: ''
-            };
+            newState = createOpenPosition(type, quantity, price, now.getTime(), this.runtime.config, this.getLatestATR());
             newStats.dailyTradeCount += 1;
         }
 
@@ -263,24 +348,27 @@ export class StrategyRunner {
         this.runtime.lastPrice = candles[candles.length - 1].close;
 
         // 2. Enrich (Calculate Indicators)
-        const enriched = enrichCandlesWithIndicators(candles, {
-            macdFast: this.runtime.config.macdFast,
-            macdSlow: this.runtime.config.macdSlow,
-            macdSignal: this.runtime.config.macdSignal
-        });
+        const enriched = enrichCandlesWithIndicators(candles, this.runtime.config);
         
         this.runtime.candles = enriched;
 
-        // 3. Evaluate Strategy
-        const result = evaluateStrategy(
+        // 3. Evaluate Strategy (grid strategies run their own engine, same result shape)
+        const evaluate = this.runtime.config.strategyType === 'GRID' ? evaluateGrid : evaluateStrategy;
+        const result = evaluate(
             enriched, 
             this.runtime.config, 
             this.runtime.positionState, 
-            this.runtime.tradeStats
+            this.runtime.tradeStats,
+            { now: new Date(this.now()), htfTrends: this.runtime.htfTrends, dailyReset: systemSettings.get().dailyReset }
         );
 
-        // 4. Update State
+        // 4. Update State (a fresh position gets its stops checked against the liquidation estimate)
+        const wasFlat = this.runtime.positionState.direction === 'FLAT';
         this.runtime.positionState = result.newPositionState;
+        if (wasFlat && result.newPositionState.direction !== 'FLAT') {
+            getLiquidationWarnings(this.runtime.config, result.newPositionState)
+                .forEach(w => console.warn(`[${this.runtime.config.name}] WARNING: ${w}`));
+        }
         this.runtime.tradeStats = result.newTradeStats;
 
         // 5. Execute Actions
@@ -288,38 +376,156 @@ export class StrategyRunner {
             result.actions.forEach(action => this.sendWebhook(action));
         }
 
-        // 6. Notify Manager
+        // 6. Risk Guard (after the fills so realized PnL is current)
+        this.refreshRiskMetrics();
+        const limits = getStrategyRiskLimits(this.runtime.config);
+        if (limits && this.runtime.config.isActive && !this.runtime.riskHalt) {
+            const reason = checkRiskLimits(limits, this.runtime.riskMetrics);
+            if (reason) this.haltByRisk('STRATEGY', reason, limits.flattenOnTrip);
+        }
+
+        // 7. Notify Manager
+        this.emitUpdate();
+    }
+
+    // Higher-timeframe update: refresh the trend only (UI sees it with the next main update)
+    private handleHtfUpdate(interval: IntervalType, candles: Candle[]) {
+        if (candles.length === 0) return;
+
+        // Same zero tolerance identity check as the main stream
+        const incomingSymbol = candles[0].symbol;
+        if (incomingSymbol && incomingSymbol.toUpperCase() !== this.runtime.config.symbol.toUpperCase()) {
+             console.error(`[CRITICAL] ZERO TOLERANCE: Strategy ${this.runtime.config.name} HTF ${interval} received Data for ${incomingSymbol}. IGNORING.`);
+             return;
+        }
+
+        const enriched = enrichCandlesWithIndicators(candles, this.runtime.config);
+        this.runtime.htfTrends = { ...this.runtime.htfTrends, [interval]: getClosedTrend(enriched) };
+    }
+
+    // The strategy's own daily reset, or the global default
+    public getDailyReset() {
+        return resolveDailyReset(this.runtime.config, systemSettings.get().dailyReset);
+    }
+
+    private refreshRiskMetrics() {
+        const inputs = this.ledger.getRiskInputs(this.runtime.lastPrice, this.riskAckTime, this.getDailyReset(), this.now());
+        this.runtime.riskMetrics = buildRiskMetrics(inputs.dailyPnl, inputs.consecutiveLosses, inputs.equity, this.runtime.riskMetrics.peakEquity);
+    }
+
+    // Trip the risk guard: optionally flatten, switch the strategy off and leave an alert log.
+    // The strategy stays off until acknowledgeRisk(). A halt already in place is kept (it tripped
+    // first and is acknowledged on its own); a later trip only adds its flatten.
+    public haltByRisk(scope: RiskHalt['scope'], reason: string, flatten: boolean) {
+        const config = this.runtime.config;
+        if (flatten) this.flattenPosition(`风控平仓: ${reason}`);
+
+        if (this.runtime.riskHalt) {
+            console.warn(`[${config.name}] RISK GUARD (${scope}) tripped: ${reason} - keeping the earlier ${this.runtime.riskHalt.scope} halt`);
+            this.emitUpdate();
+            return;
+        }
+
+        this.runtime.config = { ...config, isActive: false };
+        this.runtime.riskHalt = { scope, reason, time: this.now() };
+        console.warn(`[${config.name}] RISK GUARD (${scope}) tripped: ${reason}`);
+
+        this.onLog({
+            id: Math.random().toString(36).substr(2, 9),
+            strategyId: config.id,
+            strategyName: config.name,
+            timestamp: this.now(),
+            status: 'risk',
+            type: scope === 'GLOBAL' ? 'Risk (Global)' : 'Risk',
+            message: `${reason}${flatten ? ' - 已平仓' : ''}, 策略已停止`
+        });
+        this.emitUpdate();
+    }
+
+    // Manual acknowledgement: clears the halt and restarts the guard's baseline from now
+    public acknowledgeRisk() {
+        if (!this.runtime.riskHalt) return;
+        console.log(`[${this.runtime.config.name}] Risk guard acknowledged (${this.runtime.riskHalt.reason})`);
+        this.runtime.riskHalt = null;
+        this.riskAckTime = this.now();
+        this.runtime.riskMetrics = { ...EMPTY_RISK_METRICS, peakEquity: this.runtime.riskMetrics.equity };
+        this.refreshRiskMetrics();
+        this.emitUpdate();
+    }
+
+    // Close whatever is open at the last price (risk guard)
+    private flattenPosition(reason: string) {
+        const position = this.runtime.positionState;
+        const price = this.runtime.lastPrice;
+        if (position.direction === 'FLAT' || !(position.remainingQuantity > 0) || price === 0) return;
+
+        const qty = position.remainingQuantity;
+        const action = position.direction === 'LONG' ? 'sell' : 'buy';
+        const payload = buildPayload(this.runtime.config, action, 'flat', reason, qty * price, qty, price, new Date(this.now()));
+
+        this.runtime.tradeStats = this.getStatsAfterClose(qty, price);
+        this.runtime.positionState = createFlatPosition();
+        this.sendWebhook(payload);
+    }
+
+    // Trade stats once the open position is closed (`qty` at `price`): the cooldown starts as after an engine exit
+    private getStatsAfterClose(qty: number, price: number): TradeStats {
+        const cooldown = getCloseCooldown(this.runtime.config, this.runtime.positionState, qty, price, this.now());
+        return { ...this.runtime.tradeStats, cooldownUntil: cooldown.until, cooldownReason: cooldown.reason };
+    }
+
+    public resetLedger() {
+        this.ledger.reset();
         this.emitUpdate();
     }
 
     private async sendWebhook(payload: WebhookPayload, isManual: boolean = false) {
+        const isPaper = this.runtime.config.paperTrading;
+
+        // Book the fill first so PnL is tracked regardless of webhook delivery
+        const fill = this.ledger.book(payload, this.runtime.config, this.now());
+
         const logEntry = {
             id: Math.random().toString(36).substr(2, 9),
             strategyId: this.runtime.config.id,
             strategyName: this.runtime.config.name,
-            timestamp: Date.now(),
+            timestamp: this.now(),
             payload,
-            status: 'sent',
+            status: this.replay ? 'replay' : isPaper ? 'paper' : 'sent',
             type: isManual ? 'Manual' : 'Strategy'
         };
         this.onLog(logEntry);
 
+        // SAFETY: a replay never reaches the strategy's real webhook, only the replay sink (if any)
+        if (this.replay) {
+            if (this.replay.sinkUrl) await this.postWebhook(this.replay.sinkUrl, payload);
+            return;
+        }
+
+        if (isPaper) {
+            console.log(`[${this.runtime.config.name}] Paper Fill: ${fill.side} ${fill.quantity.toFixed(6)} @ ${fill.price.toFixed(4)} (fee ${fill.fee.toFixed(4)})`);
+            return;
+        }
+
         const url = this.runtime.config.webhookUrl;
-        if (url) {
-            try {
-                await fetch(url, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(payload)
-                });
-                console.log(`[${this.runtime.config.name}] Webhook Sent: ${payload.action}`);
-            } catch (e) {
-                console.error(`[${this.runtime.config.name}] Webhook Failed`, e);
-            }
+        if (url) await this.postWebhook(url, payload);
+    }
+
+    private async postWebhook(url: string, payload: WebhookPayload) {
+        try {
+            await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload)
+            });
+            console.log(`[${this.runtime.config.name}] Webhook Sent: ${payload.action}${this.replay ? ' (replay sink)' : ''}`);
+        } catch (e) {
+            console.error(`[${this.runtime.config.name}] Webhook Failed`, e);
         }
     }
 
     private emitUpdate() {
+        this.runtime.ledger = this.ledger.getSummary(this.runtime.lastPrice);
         this.onUpdate(this.runtime.config.id, this.runtime);
     }
 }
@@ -0,0 +1,94 @@
+import { SymbolInfo } from "../types";
+import { MarketSource, getExchangeAdapter } from "../services/exchangeService";
+import { setSymbolCatalogue } from "../services/symbolService";
+import { FileStore } from "./FileStore";
+
+const STORE_KEY = 'symbols';
+
+// exchangeInfo changes rarely (listings / delistings) - refresh a few times a day
+const REFRESH_MS = 6 * 60 * 60 * 1000;
+
+// Markets whose symbol lists are loaded (venues without fetchSymbols keep the static lists)
+const CATALOGUE_SOURCES: MarketSource[] = [
+    { exchange: 'BINANCE', marketType: 'USDT_M' },
+    { exchange: 'BINANCE', marketType: 'COIN_M' },
+    { exchange: 'BINANCE', marketType: 'SPOT' },
+];
+
+interface SavedCatalogue {
+    fetchedAt: number;
+    symbols: SymbolInfo[];
+}
+
+/**
+ * SymbolCatalogue caches every market's exchangeInfo (data/symbols.json) so sizing uses the
+ * venue's real lot sizes and the UI can search the full symbol list.
+ * The cached file is used right away on start; a refresh replaces a market only when its fetch succeeds.
+ */
+class SymbolCatalogue {
+    private fetchedAt: number = 0;
+    private symbols: SymbolInfo[] = [];
+    private refreshing: Promise<boolean> | null = null;
+
+    constructor() {
+        const saved = FileStore.load<Partial<SavedCatalogue>>(STORE_KEY);
+        if (saved && Array.isArray(saved.symbols)) {
+            this.fetchedAt = saved.fetchedAt || 0;
+            this.symbols = saved.symbols;
+            setSymbolCatalogue(this.symbols);
+        }
+    }
+
+    public getAll(): SymbolInfo[] {
+        return this.symbols;
+    }
+
+    public getFetchedAt(): number {
+        return this.fetchedAt;
+    }
+
+    /**
+     * Reload from the venues when the cache is older than REFRESH_MS (or always with `force`).
+     * Resolves true when anything was reloaded. Concurrent calls share one refresh.
+     */
+    public refresh(force: boolean = false): Promise<boolean> {
+        if (!force && Date.now() - this.fetchedAt < REFRESH_MS) return Promise.resolve(false);
+        if (!this.refreshing) {
+            this.refreshing = this.load().finally(() => { this.refreshing = null; });
+        }
+        return this.refreshing;
+    }
+
+    private async load(): Promise<boolean> {
+        let symbols = this.symbols;
+        let loaded = false;
+
+        for (const source of CATALOGUE_SOURCES) {
+            const adapter = getExchangeAdapter(source);
+            if (!adapter.fetchSymbols) continue;
+
+            const fetched = await adapter.fetchSymbols();
+            if (fetched.length === 0) {
+                console.warn(`[SymbolCatalogue] ${adapter.id} ${adapter.market}: no symbols returned, keeping the cached list`);
+                continue;
+            }
+
+            symbols = [
+                ...symbols.filter(s => s.exchange !== adapter.id || s.marketType !== adapter.market),
+                ...fetched
+            ];
+            loaded = true;
+            console.log(`[SymbolCatalogue] ${adapter.id} ${adapter.market}: ${fetched.length} symbols`);
+        }
+
+        if (!loaded) return false;
+
+        this.symbols = symbols;
+        this.fetchedAt = Date.now();
+        setSymbolCatalogue(this.symbols);
+        FileStore.save(STORE_KEY, { fetchedAt: this.fetchedAt, symbols: this.symbols });
+        return true;
+    }
+}
+
+export const symbolCatalogue = new SymbolCatalogue();
@@ -0,0 +1,37 @@
+import { SystemSettings } from "../types";
+import { DEFAULT_DAILY_RESET, DEFAULT_PRELOAD_SYMBOLS, DEFAULT_MOCK_EXCHANGE } from "../constants";
+import { FileStore } from "./FileStore";
+
+const STORE_KEY = 'settings';
+
+const DEFAULT_SETTINGS: SystemSettings = {
+    dailyReset: DEFAULT_DAILY_RESET,
+    preloadSymbols: DEFAULT_PRELOAD_SYMBOLS,
+    mockExchange: DEFAULT_MOCK_EXCHANGE
+};
+
+/**
+ * Server-wide settings editable at runtime (persisted as data/settings.json).
+ * Strategies read defaults from here when they have no value of their own.
+ */
+class SystemSettingsStore {
+    private settings: SystemSettings;
+
+    constructor() {
+        // MIGRATION / SAFETY: merge with defaults so missing fields are populated
+        const saved = FileStore.load<Partial<SystemSettings>>(STORE_KEY);
+        this.settings = { ...DEFAULT_SETTINGS, ...saved };
+        this.settings.mockExchange = { ...DEFAULT_MOCK_EXCHANGE, ...saved?.mockExchange };
+    }
+
+    public get(): SystemSettings {
+        return this.settings;
+    }
+
+    public update(updates: Partial<SystemSettings>) {
+        this.settings = { ...this.settings, ...updates };
+        FileStore.save(STORE_KEY, this.settings);
+    }
+}
+
+export const systemSettings = new SystemSettingsStore();
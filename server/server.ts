@@ -5,10 +5,18 @@ import http from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import { StrategyRunner } from './StrategyRunner';
-import { DEFAULT_CONFIG, PRELOAD_SYMBOLS } from '../constants';
-import { StrategyConfig, StrategyRuntime } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { StrategyConfig, StrategyRuntime, BacktestOptions, PerformanceSnapshot, Candle, IntervalType, RiskLimits, SystemSettings, PreloadSymbol, ReplayRequest, ReplayAction } from '../types';
 import { FileStore } from './FileStore';
+import { migrateStrategyConfig, migrateConfigUpdate, RawStrategyConfig } from './ConfigMigration';
 import { dataEngine } from './DataEngine';
+import { riskGuard } from './RiskGuard';
+import { systemSettings } from './SystemSettings';
+import { symbolCatalogue } from './SymbolCatalogue';
+import { mockExchange } from './MockExchange';
+import { MarketReplay } from './MarketReplay';
+import { runBacktest, DEFAULT_BACKTEST_OPTIONS } from '../services/backtestService';
+import { resolveDailyReset } from '../services/dailyResetService';
 
 const app = express();
 app.use(cors() as any);
@@ -28,6 +36,9 @@ const PORT = 3001;
 const strategies: Record<string, StrategyRunner> = {};
 let logs: any[] = [];
 
+// Market replay sessions by strategy id. Never persisted; their logs stay out of `logs`.
+const replays: Record<string, MarketReplay> = {};
+
 // --- Persistence Helpers ---
 function saveSystemState() {
     try {
@@ -47,13 +58,25 @@ function saveSystemState() {
 async function initializeSystem() {
     console.log('[System] Initializing...');
 
-    // 0. Pre-warm Data (Background Collection)
-    console.log(`[System] Pre-warming data for: ${PRELOAD_SYMBOLS.join(', ')}`);
-    for (const symbol of PRELOAD_SYMBOLS) {
+    // 0. Offline mode: start the local mock exchange and route all market data to it
+    const mockSetting = systemSettings.get().mockExchange;
+    if (mockSetting.enabled) {
+        await mockExchange.start(mockSetting);
+        dataEngine.setMockExchange(true);
+        console.log('[System] Market data: local mock exchange');
+    }
+
+    // 0b. Pre-warm Data (Background Collection)
+    const preload = systemSettings.get().preloadSymbols;
+    console.log(`[System] Pre-warming data for: ${preload.map(getPreloadKey).join(', ')}`);
+    for (const entry of preload) {
         // We use '1m' as base to allow synthesis of all other timeframes
-        await dataEngine.ensureActive(symbol); 
+        await dataEngine.ensureActive(entry.symbol, entry); 
     }
 
+    // Symbol catalogue: the cached list is usable right away, the refresh runs in the background
+    refreshSymbolCatalogue(false);
+
     // 1. Restore Logs
     const savedLogs = FileStore.load<any[]>('logs');
     if (savedLogs && Array.isArray(savedLogs)) {
@@ -68,26 +91,29 @@ async function initializeSystem() {
         
         for (const snapshot of savedSnapshots) {
             try {
-                // MIGRATION / SAFETY: Merge saved config with DEFAULT_CONFIG.
+                // MIGRATION / SAFETY: Rename legacy keys and merge saved config with DEFAULT_CONFIG.
                 // This ensures new fields like 'takeoverDirection' are populated with defaults 
                 // if they are missing from the saved file.
-                const sanitizedConfig = { ...DEFAULT_CONFIG, ...snapshot.config };
+                const sanitizedConfig = migrateStrategyConfig(snapshot.config);
 
                 // Re-create Runner
                 const runner = new StrategyRunner(
                     sanitizedConfig,
                     (id, runtime) => {
                         broadcastUpdate(id, runtime);
+                        checkGlobalRisk();
                     },
                     (log) => {
                         addLog(log);
+                        riskGuard.invalidateRealized(); // Fills move the global guard's realized PnL
                         saveSystemState(); // Save on new log
+                        broadcastPerformance(log.strategyId);
                     }
                 );
 
                 // Restore Internal State
                 if (snapshot.positionState && snapshot.tradeStats) {
-                    runner.restoreState(snapshot.positionState, snapshot.tradeStats);
+                    runner.restoreState(snapshot.positionState, snapshot.tradeStats, snapshot.risk);
                 }
 
                 strategies[sanitizedConfig.id] = runner;
@@ -101,10 +127,15 @@ async function initializeSystem() {
         // Default Start
         const defaultRunner = new StrategyRunner(
             DEFAULT_CONFIG, 
-            (id, runtime) => broadcastUpdate(id, runtime),
+            (id, runtime) => {
+                broadcastUpdate(id, runtime);
+                checkGlobalRisk();
+            },
             (log) => {
                 addLog(log);
+                riskGuard.invalidateRealized(); // Fills move the global guard's realized PnL
                 saveSystemState();
+                broadcastPerformance(log.strategyId);
             }
         );
         strategies[DEFAULT_CONFIG.id] = defaultRunner;
@@ -132,6 +163,100 @@ function broadcastFullState(socketId?: string) {
     } else {
         io.emit('full_state', fullState);
     }
+    broadcastAllPerformance(socketId);
+}
+
+// Performance (equity curve + trade list) is heavier than runtime, so it is only sent on fills
+function broadcastPerformance(id: string) {
+    const runner = strategies[id];
+    if (runner) {
+        io.emit('performance_update', runner.ledger.getPerformance(runner.getDailyReset()));
+    }
+}
+
+function broadcastAllPerformance(socketId?: string) {
+    const all: Record<string, PerformanceSnapshot> = {};
+    Object.keys(strategies).forEach(id => {
+        if (strategies[id]) {
+            all[id] = strategies[id].ledger.getPerformance(strategies[id].getDailyReset());
+        }
+    });
+
+    if (socketId) {
+        io.to(socketId).emit('performance_full', all);
+    } else {
+        io.emit('performance_full', all);
+    }
+}
+
+// Global risk guard: re-checked on every runner update (equity only, the realized side is
+// rebuilt after fills), broadcast at most once per second
+let lastRiskBroadcast = 0;
+
+function checkGlobalRisk() {
+    const runners = Object.values(strategies).filter(Boolean);
+    const reason = riskGuard.check(runners);
+    if (reason) {
+        const limits = riskGuard.getState().limits;
+        runners.forEach(runner => runner.haltByRisk('GLOBAL', `全局风控: ${reason}`, limits.flattenOnTrip));
+        saveSystemState();
+        broadcastGlobalRisk();
+        return;
+    }
+    if (Date.now() - lastRiskBroadcast >= 1000) broadcastGlobalRisk();
+}
+
+function broadcastGlobalRisk(socketId?: string) {
+    lastRiskBroadcast = Date.now();
+    if (socketId) {
+        io.to(socketId).emit('risk_global', riskGuard.getState());
+    } else {
+        io.emit('risk_global', riskGuard.getState());
+    }
+}
+
+function getPreloadKey(entry: PreloadSymbol): string {
+    return `${entry.exchange}:${entry.marketType}:${entry.symbol}`;
+}
+
+// Start streams for symbols added to the preload list, release the ones removed from it
+function applyPreloadChange(previous: PreloadSymbol[], next: PreloadSymbol[]) {
+    const previousKeys = new Set(previous.map(getPreloadKey));
+    const nextKeys = new Set(next.map(getPreloadKey));
+
+    previous
+        .filter(entry => !nextKeys.has(getPreloadKey(entry)))
+        .forEach(entry => dataEngine.release(entry.symbol, entry));
+    next
+        .filter(entry => !previousKeys.has(getPreloadKey(entry)))
+        .forEach(entry => dataEngine.ensureActive(entry.symbol, entry).catch(e => console.error(`[System] Pre-warm failed for ${getPreloadKey(entry)}`, e)));
+}
+
+// Uppercased, unique, no empty symbols
+function normalizePreload(entries: PreloadSymbol[]): PreloadSymbol[] {
+    const seen = new Set<string>();
+    return entries
+        .map(entry => ({ exchange: entry.exchange, marketType: entry.marketType, symbol: (entry.symbol || '').trim().toUpperCase() }))
+        .filter(entry => {
+            const key = getPreloadKey(entry);
+            if (!entry.symbol || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+}
+
+function refreshSymbolCatalogue(force: boolean) {
+    symbolCatalogue.refresh(force)
+        .then(changed => { if (changed) io.emit('symbol_catalogue', symbolCatalogue.getAll()); })
+        .catch(e => console.error('[System] Symbol catalogue refresh failed', e));
+}
+
+function stopReplay(id: string) {
+    const replay = replays[id];
+    if (!replay) return;
+    replay.stop();
+    delete replays[id];
+    io.emit('replay_stopped', id);
 }
 
 function addLog(log: any) {
@@ -146,13 +271,25 @@ io.on('connection', (socket) => {
 
     // Send initial data
     broadcastFullState(socket.id);
+    broadcastGlobalRisk(socket.id);
+    socket.emit('system_settings', systemSettings.get());
+    socket.emit('symbol_catalogue', symbolCatalogue.getAll());
+    Object.values(replays).forEach(replay => {
+        socket.emit('replay_status', replay.getStatus());
+        socket.emit('replay_update', { id: replay.getStatus().strategyId, runtime: replay.getRuntime() });
+    });
 
     // Frontend requests to update config
-    socket.on('cmd_update_config', ({ id, updates }: { id: string, updates: Partial<StrategyConfig> }) => {
+    socket.on('cmd_update_config', ({ id, updates }: { id: string, updates: RawStrategyConfig }) => {
         const runner = strategies[id];
         if (runner) {
-            // Safety: Merge updates into existing config properly
-            const newConfig = { ...runner.runtime.config, ...updates };
+            // Safety: Merge updates into existing config properly (legacy keys from older clients renamed)
+            const newConfig = { ...runner.runtime.config, ...migrateConfigUpdate(updates) };
+            // SAFETY: Nothing starts while the global risk guard is tripped
+            if (newConfig.isActive && riskGuard.isHalted()) {
+                newConfig.isActive = false;
+                socket.emit('risk_error', { id, message: '全局风控已触发, 请先确认解除' });
+            }
             runner.updateConfig(newConfig);
             saveSystemState(); // Save on config change
             console.log(`Updated config for ${id}`);
@@ -166,10 +303,15 @@ io.on('connection', (socket) => {
         
         const newRunner = new StrategyRunner(
             newConfig,
-            (id, runtime) => broadcastUpdate(id, runtime),
+            (id, runtime) => {
+                broadcastUpdate(id, runtime);
+                checkGlobalRisk();
+            },
             (log) => {
                 addLog(log);
+                riskGuard.invalidateRealized(); // Fills move the global guard's realized PnL
                 saveSystemState();
+                broadcastPerformance(log.strategyId);
             }
         );
         strategies[newId] = newRunner;
@@ -182,8 +324,11 @@ io.on('connection', (socket) => {
     // Frontend requests to remove strategy
     socket.on('cmd_remove_strategy', (id: string) => {
         if (strategies[id]) {
+            stopReplay(id);
             strategies[id].stop();
+            strategies[id].ledger.destroy();
             delete strategies[id];
+            riskGuard.invalidateRealized();
             saveSystemState(); // Save on deletion
             broadcastFullState();
         }
@@ -196,6 +341,142 @@ io.on('connection', (socket) => {
             saveSystemState(); // Save on manual order
         }
     });
+
+    // Risk Guard: acknowledge a strategy halt (a global halt must be acknowledged globally first)
+    socket.on('cmd_ack_risk', (id: string) => {
+        const runner = strategies[id];
+        if (!runner) return;
+        if (runner.runtime.riskHalt?.scope === 'GLOBAL' && riskGuard.isHalted()) {
+            socket.emit('risk_error', { id, message: '全局风控已触发, 请先确认解除全局风控' });
+            return;
+        }
+        runner.acknowledgeRisk();
+        saveSystemState();
+    });
+
+    socket.on('cmd_update_global_risk', ({ enabled, limits }: { enabled: boolean, limits: Partial<RiskLimits> }) => {
+        riskGuard.updateSettings(enabled, limits);
+        broadcastGlobalRisk();
+    });
+
+    // Clears the global halt and every strategy halt it caused (strategies stay off until re-enabled)
+    socket.on('cmd_ack_global_risk', () => {
+        riskGuard.acknowledge();
+        Object.values(strategies).forEach(runner => {
+            if (runner.runtime.riskHalt?.scope === 'GLOBAL') runner.acknowledgeRisk();
+        });
+        checkGlobalRisk();
+        broadcastGlobalRisk();
+        saveSystemState();
+    });
+
+    // Server-wide settings (global daily reset, preload list)
+    socket.on('cmd_update_settings', (updates: Partial<SystemSettings>) => {
+        // Mock speed applies at once; switching the mock on / off needs a restart
+        if (updates.mockExchange && systemSettings.get().mockExchange.enabled) {
+            mockExchange.setSpeed(updates.mockExchange.speed);
+        }
+        if (updates.preloadSymbols) {
+            const previous = systemSettings.get().preloadSymbols;
+            updates = { ...updates, preloadSymbols: normalizePreload(updates.preloadSymbols) };
+            applyPreloadChange(previous, updates.preloadSymbols!);
+        }
+        systemSettings.update(updates);
+        io.emit('system_settings', systemSettings.get());
+        broadcastAllPerformance(); // Day / week windows may have moved
+        console.log('[System] Settings updated', updates);
+    });
+
+    // Reload every market's symbol list from the venues now
+    socket.on('cmd_refresh_symbols', () => {
+        refreshSymbolCatalogue(true);
+    });
+
+    // Paper Ledger: start a fresh paper run
+    socket.on('cmd_reset_ledger', (id: string) => {
+        if (strategies[id]) {
+            strategies[id].resetLedger();
+            riskGuard.invalidateRealized();
+            broadcastPerformance(id);
+            console.log(`[PaperLedger] Reset ledger for ${id}`);
+        }
+    });
+
+    // Backtest: replay stored candles through the strategy's config (optionally with overrides)
+    socket.on('cmd_run_backtest', async ({ id, overrides, options }: { id: string, overrides?: RawStrategyConfig, options?: Partial<BacktestOptions> }) => {
+        const runner = strategies[id];
+        if (!runner) {
+            socket.emit('backtest_error', { id, message: 'Strategy not found' });
+            return;
+        }
+
+        try {
+            const config = { ...runner.runtime.config, ...migrateConfigUpdate(overrides || {}) };
+            const candles = dataEngine.getHistory(config, config.symbol, config.interval);
+            if (candles.length === 0) {
+                socket.emit('backtest_error', { id, message: `No stored data for ${config.exchange} ${config.symbol} ${config.interval}` });
+                return;
+            }
+
+            // Intrabar replay needs the finer candles behind each bar
+            const backtestOptions = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+            const baseCandles = backtestOptions.replayMode === 'base'
+                ? dataEngine.getHistory(config, config.symbol, backtestOptions.baseInterval)
+                : [];
+
+            // Higher-timeframe filters replay against their own stored history
+            const htfCandles: Partial<Record<IntervalType, Candle[]>> = {};
+            if (config.useHtfFilter) {
+                config.htfFilters
+                    .filter(f => f.active && f.interval !== config.interval)
+                    .forEach(f => { htfCandles[f.interval] = dataEngine.getHistory(config, config.symbol, f.interval); });
+            }
+
+            const started = Date.now();
+            const dailyReset = resolveDailyReset(config, systemSettings.get().dailyReset);
+            const result = await runBacktest(candles, config, backtestOptions, baseCandles, htfCandles, dailyReset);
+            console.log(`[Backtest] ${config.name} ${config.symbol} ${config.interval}: ${result.bars} bars, ${result.stats.totalTrades} trades (${result.replayMode}, ${result.baseBars} intrabar / ${result.fallbackBars} fallback) in ${Date.now() - started}ms`);
+            socket.emit('backtest_result', { id, result });
+        } catch (e) {
+            console.error(`[Backtest] Failed for ${id}`, e);
+            socket.emit('backtest_error', { id, message: String(e) });
+        }
+    });
+
+    // Market replay: the strategy's current config on downloaded history, webhooks suppressed or sent to a sink
+    socket.on('cmd_replay_start', async ({ id, request }: { id: string, request: ReplayRequest }) => {
+        const runner = strategies[id];
+        if (!runner) {
+            socket.emit('replay_error', { id, message: 'Strategy not found' });
+            return;
+        }
+
+        stopReplay(id);
+        try {
+            const replay = new MarketReplay(runner.runtime.config, request, {
+                onUpdate: (runtime) => io.emit('replay_update', { id, runtime }),
+                onLog: (log) => io.emit('replay_log', log),
+                onStatus: (status) => io.emit('replay_status', status)
+            });
+            replays[id] = replay;
+            await replay.start();
+        } catch (e) {
+            console.error(`[MarketReplay] Failed to start for ${id}`, e);
+            delete replays[id];
+            socket.emit('replay_error', { id, message: e instanceof Error ? e.message : String(e) });
+        }
+    });
+
+    socket.on('cmd_replay_control', ({ id, action, value }: { id: string, action: ReplayAction, value?: number }) => {
+        const replay = replays[id];
+        if (replay) {
+            replay.control(action, value).catch(e => console.error(`[MarketReplay] ${action} failed for ${id}`, e));
+        }
+    });
+
+    socket.on('cmd_replay_stop', (id: string) => {
+        stopReplay(id);
+    });
 });
 
 // Periodic Save (Safety Net)
@@ -203,6 +484,16 @@ setInterval(() => {
     saveSystemState();
 }, 5000); // Save every 5 seconds
 
+// Refresh day/week PnL windows even when no fills happen
+setInterval(() => {
+    broadcastAllPerformance();
+}, 60000);
+
+// Pick up listings / delistings (no-op while the cached catalogue is fresh)
+setInterval(() => {
+    refreshSymbolCatalogue(false);
+}, 60 * 60 * 1000);
+
 // Start Server
 initializeSystem().then(() => {
     server.listen(PORT, () => {
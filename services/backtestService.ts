@@ -0,0 +1,262 @@
+
+import { Candle, StrategyConfig, PositionState, TradeStats, BacktestOptions, BacktestResult, BacktestStats, EquityPoint, ClosedTrade, LedgerState, IntervalType, TrendDirection, DailyResetSetting } from "../types";
+import { DEFAULT_DAILY_RESET } from "../constants";
+import { enrichCandlesWithIndicators } from "./indicatorService";
+import { evaluateStrategy, getTrendDirection, createFlatPosition } from "./strategyEngine";
+import { evaluateGrid } from "./gridEngine";
+import { intervalToMs } from "./resampleService";
+import { createLedger, bookFill, payloadToFill, unrealizedPnl } from "./ledgerService";
+
+// DataEngine hands StrategyRunner at most 1000 candles per update; the engine sees the same trailing window.
+// Closed bars are enriched once over the whole series (past ~1000 bars the EMA seed no longer shows);
+// only a forming bar replayed tick by tick is enriched with its trailing window.
+const LIVE_WINDOW = 1000;
+
+// Work done between yields to the event loop, so a long replay does not stall the server
+const YIELD_EVERY_MS = 20;
+
+// Reported when there are no losing trades (Infinity does not survive JSON)
+const MAX_PROFIT_FACTOR = 999;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  initialCapital: 10000,
+  feeBps: 5, // Binance USDT-M taker 0.05%
+  slippageBps: 2,
+  replayMode: 'close',
+  baseInterval: '1m',
+  pathAssumption: 'pessimistic'
+};
+
+const INITIAL_POS_STATE: PositionState = createFlatPosition();
+
+/**
+ * Replays closed candles bar by bar through the live enrich + evaluate path.
+ * Every emitted payload is booked as a simulated fill at its execution price
+ * (TP / SL style exits at their level, everything else at the bar's close or tick price).
+ * A position still open at the end is marked to market in the equity curve but
+ * not counted as a trade.
+ *
+ * Replay modes (options.replayMode):
+ * - close: each bar is evaluated once, already closed.
+ * - ohlc:  each bar is split into O -> H/L -> L/H -> C ticks fed as a forming bar,
+ *          so intrabar exits fire in path order instead of the engine's TP-first check.
+ * - base:  each bar is rebuilt from its base candles (e.g. 1m behind 15m), each base
+ *          candle split into ticks as above. Bars whose base data is missing or
+ *          incomplete fall back to 'ohlc'.
+ *
+ * Higher-timeframe filters read `htfCandles[interval]`: at each tick the trend of the
+ * last HTF candle that had closed by then is used, as the live runner does.
+ *
+ * The replay yields to the event loop every YIELD_EVERY_MS so sockets and live strategies keep running.
+ */
+export const runBacktest = async (
+  candles: Candle[],
+  config: StrategyConfig,
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+  baseCandles: Candle[] = [],
+  htfCandles: Partial<Record<IntervalType, Candle[]>> = {},
+  dailyReset: DailyResetSetting = DEFAULT_DAILY_RESET
+): Promise<BacktestResult> => {
+  // Only closed bars are replayable; the forming bar at the tip is dropped
+  const bars = candles.filter(c => c.isClosed);
+  const intervalMs = intervalToMs(config.interval);
+  const baseMs = intervalToMs(options.baseInterval);
+
+  // Force the strategy "on" and fully automatic for the simulation
+  const simConfig: StrategyConfig = { ...config, isActive: true, manualTakeover: false };
+  const evaluate = simConfig.strategyType === 'GRID' ? evaluateGrid : evaluateStrategy;
+  const costs = { feeBps: options.feeBps, slippageBps: options.slippageBps };
+
+  let position: PositionState = INITIAL_POS_STATE;
+  let stats: TradeStats = { dailyTradeCount: 0, lastTradeDate: '', cooldownUntil: 0, cooldownReason: '' };
+  let ledger: LedgerState = createLedger();
+  const equityCurve: EquityPoint[] = [];
+
+  // Group base candles by the target bar they belong to (mirrors resampleCandles bucketing)
+  const baseGroups: Map<number, Candle[]> = new Map();
+  if (options.replayMode === 'base' && baseMs < intervalMs) {
+    for (const b of baseCandles) {
+      if (!b.isClosed) continue;
+      const bucket = Math.floor(b.time / intervalMs) * intervalMs;
+      if (!baseGroups.has(bucket)) baseGroups.set(bucket, []);
+      baseGroups.get(bucket)!.push(b);
+    }
+  }
+  // Per HTF interval: closed candles (enriched once, EMA is causal) and their close times
+  const htfSeries = Object.entries(htfCandles).map(([interval, series]) => {
+    const closed = enrichCandlesWithIndicators((series || []).filter(c => c.isClosed), simConfig);
+    const htfMs = intervalToMs(interval);
+    return { interval: interval as IntervalType, closed, closeTimes: closed.map(c => c.time + htfMs), cursor: -1 };
+  });
+
+  // Advance each cursor to the last HTF candle closed at `time` (ticks arrive in time order)
+  const getHtfTrends = (time: number) => {
+    const trends: Partial<Record<IntervalType, TrendDirection>> = {};
+    for (const htf of htfSeries) {
+      while (htf.cursor + 1 < htf.closed.length && htf.closeTimes[htf.cursor + 1] <= time) htf.cursor++;
+      if (htf.cursor >= 0) trends[htf.interval] = getTrendDirection(htf.closed[htf.cursor]);
+    }
+    return trends;
+  };
+
+  const expectedBasePerBar = Math.round(intervalMs / baseMs);
+  let baseBars = 0;
+  let fallbackBars = 0;
+
+  const enrichedBars = enrichCandlesWithIndicators(bars, simConfig);
+
+  // Feed one (possibly still forming) version of bar i to the engine
+  const step = (i: number, forming: Candle, time: number) => {
+    const start = Math.max(0, i + 1 - LIVE_WINDOW);
+    let enriched: Candle[];
+    if (forming === bars[i]) {
+      enriched = enrichedBars.slice(start, i + 1);
+    } else {
+      const window = bars.slice(start, i);
+      window.push(forming);
+      enriched = enrichCandlesWithIndicators(window, simConfig);
+    }
+
+    const result = evaluate(enriched, simConfig, position, stats, { now: new Date(time), htfTrends: getHtfTrends(time), dailyReset });
+
+    position = result.newPositionState;
+    stats = result.newTradeStats;
+    result.actions.forEach(action => {
+      ledger = bookFill(ledger, payloadToFill(action, time, costs));
+    });
+  };
+
+  let sliceStart = Date.now();
+  for (let i = 0; i < bars.length; i++) {
+    if (Date.now() - sliceStart >= YIELD_EVERY_MS) {
+      await yieldToEventLoop();
+      sliceStart = Date.now();
+    }
+
+    const bar = bars[i];
+    // Signals on close are seen just before the next bar opens
+    const closeTime = bar.time + intervalMs - 1;
+
+    if (options.replayMode === 'close') {
+      step(i, bar, closeTime);
+    } else {
+      let sources = [bar];
+      let sourceMs = intervalMs;
+
+      const group = baseGroups.get(bar.time);
+      if (options.replayMode === 'base') {
+        if (group && group.length === expectedBasePerBar) {
+          sources = group;
+          sourceMs = baseMs;
+          baseBars++;
+        } else {
+          fallbackBars++;
+        }
+      }
+
+      let forming: Candle | null = null;
+      sources.forEach((src, srcIdx) => {
+        const path = tickPath(src, position.direction, options.pathAssumption);
+        path.forEach((price, tickIdx) => {
+          const isFinalTick = srcIdx === sources.length - 1 && tickIdx === path.length - 1;
+          forming = forming
+            ? { ...forming, high: Math.max(forming.high, price), low: Math.min(forming.low, price), close: price }
+            : { ...bar, open: price, high: price, low: price, close: price, volume: 0 };
+          // Volume accrues per source candle; only the final tick carries the closed flag
+          if (tickIdx === path.length - 1) forming.volume += src.volume;
+          forming.isClosed = isFinalTick;
+
+          const tickTime = src.time + Math.round(((tickIdx + 1) / path.length) * sourceMs) - 1;
+          step(i, forming, tickTime);
+        });
+      });
+    }
+
+    equityCurve.push({
+      time: bar.time,
+      equity: options.initialCapital + ledger.realizedPnl + unrealizedPnl(ledger, bar.close)
+    });
+  }
+
+  return {
+    symbol: config.symbol,
+    interval: config.interval,
+    startTime: bars.length > 0 ? bars[0].time : 0,
+    endTime: bars.length > 0 ? bars[bars.length - 1].time : 0,
+    bars: bars.length,
+    replayMode: options.replayMode,
+    baseBars,
+    fallbackBars,
+    trades: ledger.trades,
+    equityCurve,
+    stats: calculateBacktestStats(ledger.trades, equityCurve, options.initialCapital, intervalMs, ledger.totalFees)
+  };
+};
+
+// Order in which a candle's extremes are visited when we cannot see inside it.
+// With a position open the assumption decides; when flat we use the usual
+// heuristic that bearish candles print their high first.
+const tickPath = (c: Candle, direction: PositionState['direction'], assumption: BacktestOptions['pathAssumption']): number[] => {
+  let highFirst: boolean;
+  if (direction === 'LONG') highFirst = assumption === 'optimistic';
+  else if (direction === 'SHORT') highFirst = assumption === 'pessimistic';
+  else highFirst = c.close < c.open;
+
+  return highFirst ? [c.open, c.high, c.low, c.close] : [c.open, c.low, c.high, c.close];
+};
+
+export const calculateBacktestStats = (
+  trades: ClosedTrade[],
+  equityCurve: EquityPoint[],
+  initialCapital: number,
+  intervalMs: number,
+  totalFees: number
+): BacktestStats => {
+  const wins = trades.filter(t => t.pnl > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = trades.filter(t => t.pnl < 0).reduce((sum, t) => sum - t.pnl, 0);
+
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+  const netPnl = finalEquity - initialCapital;
+
+  // Max Drawdown (peak to trough)
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    const dd = peak - point.equity;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (peak > 0 && (dd / peak) * 100 > maxDrawdownPct) maxDrawdownPct = (dd / peak) * 100;
+  }
+
+  // Sharpe from per-bar returns, annualised by bars per year (risk-free = 0)
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prevEq = equityCurve[i - 1].equity;
+    if (prevEq > 0) returns.push(equityCurve[i].equity / prevEq - 1);
+  }
+  let sharpe = 0;
+  if (returns.length > 1) {
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    if (std > 0) sharpe = (mean / std) * Math.sqrt(YEAR_MS / intervalMs);
+  }
+
+  return {
+    totalTrades: trades.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? Math.min(grossProfit / grossLoss, MAX_PROFIT_FACTOR) : (grossProfit > 0 ? MAX_PROFIT_FACTOR : 0),
+    netPnl,
+    totalReturnPct: initialCapital > 0 ? (netPnl / initialCapital) * 100 : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    sharpe,
+    totalFees
+  };
+};
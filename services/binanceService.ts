@@ -1,18 +1,46 @@
 
 
-import { Candle, IntervalType, SymbolType } from "../types";
-import { BINANCE_REST_BASE } from "../constants";
+import { Candle, IntervalType, SymbolType, MarketType, SymbolInfo } from "../types";
+import {
+  BINANCE_REST_BASE, BINANCE_WS_BASE,
+  BINANCE_COINM_REST_BASE, BINANCE_COINM_WS_BASE,
+  BINANCE_SPOT_REST_BASE, BINANCE_SPOT_WS_BASE,
+  MOCK_REST_BASE, MOCK_WS_BASE
+} from "../constants";
+import { ExchangeAdapter, parseJsonFrame } from "./exchangeService";
+
+interface MarketEndpoints {
+  rest: string;
+  ws: string;
+  pageLimit: number;
+}
+
+// Endpoints and page size per market. Spot pages are capped at 1000 rows.
+const MARKET_ENDPOINTS: Record<MarketType, MarketEndpoints> = {
+  USDT_M: { rest: BINANCE_REST_BASE, ws: BINANCE_WS_BASE, pageLimit: 1500 },
+  COIN_M: { rest: BINANCE_COINM_REST_BASE, ws: BINANCE_COINM_WS_BASE, pageLimit: 1500 },
+  SPOT: { rest: BINANCE_SPOT_REST_BASE, ws: BINANCE_SPOT_WS_BASE, pageLimit: 1000 },
+};
+
+// Intervals Binance serves natively (same set on all three markets)
+const NATIVE_INTERVALS: IntervalType[] = [
+  '1m', '3m', '5m', '15m', '30m',
+  '1h', '2h', '4h', '6h', '8h', '12h',
+  '1d', '3d', '1w', '1M'
+];
 
 export const fetchHistoricalCandles = async (
   symbol: SymbolType, 
   interval: IntervalType, 
   startTime?: number, 
-  endTime?: number
+  endTime?: number,
+  market: MarketType = 'USDT_M',
+  endpoints: MarketEndpoints = MARKET_ENDPOINTS[market]
 ): Promise<Candle[]> => {
   try {
-    // Binance Futures Endpoint: /klines
-    // Increase limit to 1500 (max allowed) to support resampling from smaller intervals
-    let url = `${BINANCE_REST_BASE}/klines?symbol=${symbol}&interval=${interval}&limit=1500`;
+    // /klines on every market, max page size to support resampling from smaller intervals
+    const { rest, pageLimit } = endpoints;
+    let url = `${rest}/klines?symbol=${symbol}&interval=${interval}&limit=${pageLimit}`;
     
     if (startTime) {
         url += `&startTime=${startTime}`;
@@ -36,7 +64,8 @@ export const fetchHistoricalCandles = async (
       high: parseFloat(d[2]),
       low: parseFloat(d[3]),
       close: parseFloat(d[4]),
-      volume: parseFloat(d[5]),
+      // COIN-M volume (index 5) counts contracts - use the base asset volume so it compares across markets
+      volume: parseFloat(market === 'COIN_M' ? d[7] : d[5]),
       isClosed: true
     }));
 
@@ -46,7 +75,7 @@ export const fetchHistoricalCandles = async (
   }
 };
 
-export const parseSocketMessage = (msg: any): Candle | null => {
+export const parseSocketMessage = (msg: any, market: MarketType = 'USDT_M'): Candle | null => {
   if (msg.e !== 'kline') return null;
   const k = msg.k;
 
@@ -57,7 +86,91 @@ export const parseSocketMessage = (msg: any): Candle | null => {
     high: parseFloat(k.h),
     low: parseFloat(k.l),
     close: parseFloat(k.c),
-    volume: parseFloat(k.v),
+    volume: parseFloat(market === 'COIN_M' ? k.q : k.v), // COIN-M: k.v is contracts, k.q base asset
     isClosed: k.x
   };
 };
+
+// Value of one exchangeInfo filter field (0 when the filter or field is missing)
+const readFilter = (filters: any[], type: string, ...fields: string[]): number => {
+  const filter = (filters || []).find(f => f.filterType === type);
+  if (!filter) return 0;
+  const field = fields.find(f => filter[f] !== undefined);
+  return field ? parseFloat(filter[field]) || 0 : 0;
+};
+
+/**
+ * exchangeInfo of one market. The three markets differ slightly:
+ *   USDT-M - status, MIN_NOTIONAL.notional
+ *   COIN-M - contractStatus, contractSize (USD), no notional minimum
+ *   Spot   - status, NOTIONAL.minNotional (older symbols: MIN_NOTIONAL.minNotional). Only TRADING pairs are kept.
+ * Leverage caps need a signed request and are not part of SymbolInfo (see sizingService.getSymbolFilter).
+ */
+export const fetchBinanceSymbols = async (market: MarketType = 'USDT_M'): Promise<SymbolInfo[]> => {
+  try {
+    const response = await fetch(`${MARKET_ENDPOINTS[market].rest}/exchangeInfo`);
+    const data = await response.json();
+
+    if (!Array.isArray(data?.symbols)) {
+      console.error("Invalid exchangeInfo from Binance:", JSON.stringify(data).slice(0, 200));
+      return [];
+    }
+
+    return data.symbols
+      .map((s: any): SymbolInfo => ({
+        symbol: s.symbol,
+        exchange: 'BINANCE',
+        marketType: market,
+        status: s.status || s.contractStatus || 'UNKNOWN',
+        baseAsset: s.baseAsset || '',
+        quoteAsset: s.quoteAsset || '',
+        tickSize: readFilter(s.filters, 'PRICE_FILTER', 'tickSize'),
+        stepSize: readFilter(s.filters, 'LOT_SIZE', 'stepSize'),
+        minQty: readFilter(s.filters, 'LOT_SIZE', 'minQty'),
+        minNotional: readFilter(s.filters, 'MIN_NOTIONAL', 'notional', 'minNotional') || readFilter(s.filters, 'NOTIONAL', 'minNotional'),
+        ...(market === 'COIN_M' && s.contractSize ? { contractSize: Number(s.contractSize) } : {})
+      }))
+      .filter((s: SymbolInfo) => market !== 'SPOT' || s.status === 'TRADING');
+  } catch (error) {
+    console.error("Failed to fetch Binance exchangeInfo", error);
+    return [];
+  }
+};
+
+const createBinanceAdapter = (market: MarketType): ExchangeAdapter => ({
+  id: 'BINANCE',
+  market,
+  nativeIntervals: NATIVE_INTERVALS,
+  pageLimit: MARKET_ENDPOINTS[market].pageLimit,
+  fetchKlines: (symbol, interval, startTime, endTime) => fetchHistoricalCandles(symbol, interval, startTime, endTime, market),
+  fetchSymbols: () => fetchBinanceSymbols(market),
+
+  // Combined stream: the stream name is part of the URL, no subscribe message needed
+  getStreamUrl: (symbol, interval) => `${MARKET_ENDPOINTS[market].ws}${symbol.toLowerCase()}@kline_${interval}`,
+  getSubscribeMessages: () => [],
+
+  // Frames of other symbols are dropped and ours is stamped on the candle (same contract as Bybit / OKX)
+  parseMessage: (raw, symbol) => {
+    const frame = parseJsonFrame(raw);
+    if (!frame || !frame.data) return [];
+    if (typeof frame.data.s !== 'string' || frame.data.s.toUpperCase() !== symbol.toUpperCase()) return [];
+    const kline = parseSocketMessage(frame.data, market);
+    return kline ? [{ ...kline, symbol }] : [];
+  }
+});
+
+export const binanceAdapter = createBinanceAdapter('USDT_M');
+export const binanceCoinMAdapter = createBinanceAdapter('COIN_M');
+export const binanceSpotAdapter = createBinanceAdapter('SPOT');
+
+// Local mock exchange: same wire protocol, but it only produces 1m candles (everything else is resampled)
+const MOCK_ENDPOINTS: MarketEndpoints = { rest: MOCK_REST_BASE, ws: MOCK_WS_BASE, pageLimit: 1500 };
+
+export const mockAdapter: ExchangeAdapter = {
+  ...binanceAdapter,
+  id: 'MOCK',
+  nativeIntervals: ['1m'],
+  fetchKlines: (symbol, interval, startTime, endTime) => fetchHistoricalCandles(symbol, interval, startTime, endTime, 'USDT_M', MOCK_ENDPOINTS),
+  fetchSymbols: undefined,
+  getStreamUrl: (symbol, interval) => `${MOCK_WS_BASE}${symbol.toLowerCase()}@kline_${interval}`
+};
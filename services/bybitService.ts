@@ -0,0 +1,92 @@
+
+import { Candle, IntervalType, SymbolType } from "../types";
+import { BYBIT_REST_BASE, BYBIT_WS_BASE } from "../constants";
+import { ExchangeAdapter, parseJsonFrame } from "./exchangeService";
+import { intervalToMs } from "./resampleService";
+
+// Our interval -> Bybit V5 kline interval (only these are native)
+const INTERVAL_MAP: Partial<Record<IntervalType, string>> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+  '1d': 'D', '1w': 'W', '1M': 'M'
+};
+
+const PAGE_LIMIT = 1000;
+
+// Bybit V5 rows: [startTime, open, high, low, close, volume, turnover] as strings, newest first
+const parseRestRow = (row: string[], symbol: SymbolType): Candle => ({
+  symbol,
+  time: parseInt(row[0]),
+  open: parseFloat(row[1]),
+  high: parseFloat(row[2]),
+  low: parseFloat(row[3]),
+  close: parseFloat(row[4]),
+  volume: parseFloat(row[5]),
+  isClosed: true
+});
+
+export const fetchBybitKlines = async (
+  symbol: SymbolType,
+  interval: IntervalType,
+  startTime?: number,
+  endTime?: number
+): Promise<Candle[]> => {
+  try {
+    let url = `${BYBIT_REST_BASE}/market/kline?category=linear&symbol=${symbol}&interval=${INTERVAL_MAP[interval] || interval}&limit=${PAGE_LIMIT}`;
+
+    // Start alone returns the NEWEST page after it - cap the end so paging forward has no holes
+    if (startTime && !endTime) endTime = startTime + PAGE_LIMIT * intervalToMs(interval) - 1;
+    if (startTime) url += `&start=${startTime}`;
+    if (endTime) url += `&end=${endTime}`;
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.retCode !== 0 || !Array.isArray(data.result?.list)) {
+      console.error("Invalid response from Bybit:", JSON.stringify(data));
+      return [];
+    }
+
+    return data.result.list.map((row: string[]) => parseRestRow(row, symbol)).reverse();
+  } catch (error) {
+    console.error("Failed to fetch Bybit historical data", error);
+    return [];
+  }
+};
+
+// Topic frame: { topic: "kline.1.BTCUSDT", data: [{ start, open, high, low, close, volume, confirm, ... }] }
+export const parseBybitMessage = (raw: string, symbol: SymbolType): Candle[] => {
+  const frame = parseJsonFrame(raw);
+  if (!frame || typeof frame.topic !== 'string' || !frame.topic.startsWith('kline.') || !Array.isArray(frame.data)) return [];
+
+  // The topic carries the symbol - never stamp another symbol's candle with ours
+  const topicSymbol = frame.topic.split('.')[2];
+  if (topicSymbol !== symbol.toUpperCase()) return [];
+
+  return frame.data.map((k: any) => ({
+    symbol,
+    time: Number(k.start),
+    open: parseFloat(k.open),
+    high: parseFloat(k.high),
+    low: parseFloat(k.low),
+    close: parseFloat(k.close),
+    volume: parseFloat(k.volume),
+    isClosed: k.confirm === true
+  }));
+};
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: 'BYBIT',
+  market: 'USDT_M',
+  nativeIntervals: Object.keys(INTERVAL_MAP) as IntervalType[],
+  pageLimit: PAGE_LIMIT,
+  fetchKlines: fetchBybitKlines,
+
+  getStreamUrl: () => BYBIT_WS_BASE,
+  getSubscribeMessages: (symbol, interval) => [
+    JSON.stringify({ op: 'subscribe', args: [`kline.${INTERVAL_MAP[interval] || interval}.${symbol.toUpperCase()}`] })
+  ],
+  // Bybit drops idle public connections after 10 minutes without a ping
+  heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+  parseMessage: parseBybitMessage
+};
@@ -0,0 +1,39 @@
+
+import { StrategyConfig, DailyResetSetting } from "../types";
+import { DEFAULT_DAILY_RESET } from "../constants";
+import { getZoneOffset, fromZonedTime } from "./timeZoneService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// The strategy's own reset, or the global default when it has none
+export const resolveDailyReset = (config: StrategyConfig, globalDefault: DailyResetSetting = DEFAULT_DAILY_RESET): DailyResetSetting =>
+  config.dailyResetTimezone ? { timezone: config.dailyResetTimezone, hour: config.dailyResetHour } : globalDefault;
+
+// Wall-clock time shifted so the trading day starts at 00:00
+const getShiftedLocal = (ms: number, reset: DailyResetSetting): number =>
+  ms + getZoneOffset(ms, reset.timezone) - reset.hour * HOUR_MS;
+
+// Trading day `ms` belongs to, as YYYY-MM-DD (replaces the UTC date in TradeStats.lastTradeDate)
+export const getTradingDayKey = (ms: number, reset: DailyResetSetting): string =>
+  new Date(getShiftedLocal(ms, reset)).toISOString().split('T')[0];
+
+// Start (UTC ms) of the trading day containing `ms`
+export const getTradingDayStart = (ms: number, reset: DailyResetSetting): number => {
+  const dayStart = Math.floor(getShiftedLocal(ms, reset) / DAY_MS) * DAY_MS;
+  return fromZonedTime(dayStart + reset.hour * HOUR_MS, reset.timezone);
+};
+
+// Start of the trading week (Monday's reset) containing `ms`
+export const getTradingWeekStart = (ms: number, reset: DailyResetSetting): number => {
+  const day = Math.floor(getShiftedLocal(ms, reset) / DAY_MS);
+  // Epoch day 0 was a Thursday; shift so weeks start on Monday
+  const monday = (day - (day + 3) % 7) * DAY_MS;
+  return fromZonedTime(monday + reset.hour * HOUR_MS, reset.timezone);
+};
+
+// Next reset after `ms`
+export const getNextDailyReset = (ms: number, reset: DailyResetSetting): number => {
+  const dayStart = Math.floor(getShiftedLocal(ms, reset) / DAY_MS) * DAY_MS;
+  return fromZonedTime(dayStart + DAY_MS + reset.hour * HOUR_MS, reset.timezone);
+};
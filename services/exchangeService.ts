@@ -0,0 +1,65 @@
+
+import { Candle, IntervalType, SymbolType, ExchangeId, MarketType, SymbolInfo } from "../types";
+import { binanceAdapter, binanceCoinMAdapter, binanceSpotAdapter, mockAdapter } from "./binanceService";
+import { bybitAdapter } from "./bybitService";
+import { okxAdapter } from "./okxService";
+
+/**
+ * Everything DataEngine needs from a venue's public market data.
+ * Symbols and intervals are always our own names ("BTCUSDT", "1h"); adapters translate them
+ * and must stamp parsed candles with our symbol so the runner's ZERO TOLERANCE check holds.
+ */
+export interface ExchangeAdapter {
+  id: ExchangeId;
+  market: MarketType;
+  // Intervals the venue serves directly; everything else is synthesized (determineBaseConfig)
+  nativeIntervals: IntervalType[];
+  // Max candles per REST page. A shorter page means the range is exhausted.
+  pageLimit: number;
+
+  // One page of closed history, oldest first. startTime / endTime are inclusive ms bounds.
+  fetchKlines: (symbol: SymbolType, interval: IntervalType, startTime?: number, endTime?: number) => Promise<Candle[]>;
+  // Every listed instrument of this market ([] on failure). Venues without it use the static symbol lists.
+  fetchSymbols?: () => Promise<SymbolInfo[]>;
+
+  getStreamUrl: (symbol: SymbolType, interval: IntervalType) => string;
+  // Sent once the socket is open (venues that subscribe by message)
+  getSubscribeMessages: (symbol: SymbolType, interval: IntervalType) => string[];
+  // Keep-alive the venue expects, if any
+  heartbeat?: { intervalMs: number; message: string };
+  // Raw socket frame -> kline updates for `symbol` ([] for acks, pongs, other channels)
+  parseMessage: (raw: string, symbol: SymbolType) => Candle[];
+}
+
+// Where a strategy's candles come from
+export type MarketSource = { exchange: ExchangeId; marketType: MarketType };
+
+export const DEFAULT_MARKET_SOURCE: MarketSource = { exchange: 'BINANCE', marketType: 'USDT_M' };
+
+// Only Binance serves COIN-M and spot here; other venues always resolve to USDT-M
+export const resolveMarketType = (source: Partial<MarketSource>): MarketType =>
+  (source.exchange || 'BINANCE') === 'BINANCE' && source.marketType ? source.marketType : 'USDT_M';
+
+// Unknown ids (old saved configs) fall back to Binance USDT-M.
+// NOTE: resolved per call, not in a module-level map - the adapters import parseJsonFrame from here.
+export const getExchangeAdapter = (source: Partial<MarketSource> = DEFAULT_MARKET_SOURCE): ExchangeAdapter => {
+  switch (source.exchange) {
+    case 'BYBIT': return bybitAdapter;
+    case 'OKX': return okxAdapter;
+    case 'MOCK': return mockAdapter;
+  }
+  switch (resolveMarketType(source)) {
+    case 'COIN_M': return binanceCoinMAdapter;
+    case 'SPOT': return binanceSpotAdapter;
+    default: return binanceAdapter;
+  }
+};
+
+// JSON frame or null (venues also send plain-text pongs)
+export const parseJsonFrame = (raw: string): any => {
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+};
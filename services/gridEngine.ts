@@ -0,0 +1,255 @@
+
+import { Candle, StrategyConfig, PositionState, TradeStats, WebhookPayload, GridLevel } from "../types";
+import { StrategyResult, EvaluationContext, buildPayload, createFlatPosition, createOpenPosition, addFill, getExitPnl, getCloseCooldown } from "./strategyEngine";
+import { getScheduleStatus } from "./scheduleService";
+import { roundQuantity, notionalToQuantity } from "./sizingService";
+import { getTradingDayKey, resolveDailyReset } from "./dailyResetService";
+import { resolveMarketType } from "./exchangeService";
+
+// Quantities below this are treated as zero (same tolerance as strategyEngine)
+const QTY_EPSILON = 0.000001;
+
+// Spot cannot be shorted, so a spot grid only ever sells what its buys filled
+const getGridMode = (config: StrategyConfig): StrategyConfig['gridMode'] =>
+  resolveMarketType(config) === 'SPOT' ? 'LONG' : config.gridMode;
+
+// Grid settings that shape the levels - a change rebuilds them
+const getGridKey = (config: StrategyConfig): string =>
+  [getGridMode(config), config.gridLower, config.gridUpper, config.gridLevelCount, config.gridLevelAmount].join('|');
+
+// Evenly spaced level prices from gridLower to gridUpper (inclusive). Empty when the range is invalid.
+export const getGridPrices = (config: StrategyConfig): number[] => {
+  const count = Math.floor(config.gridLevelCount);
+  if (count < 2 || !(config.gridLower > 0) || !(config.gridUpper > config.gridLower)) return [];
+  const step = (config.gridUpper - config.gridLower) / (count - 1);
+  return Array.from({ length: count }, (_, i) => config.gridLower + i * step);
+};
+
+// Initial orders around `price`: buys below, sells above (depending on the mode).
+// The level closest to the price stays empty - it is the gap the first fill moves into.
+export const buildGridLevels = (config: StrategyConfig, price: number): GridLevel[] => {
+  const prices = getGridPrices(config);
+  const mode = getGridMode(config);
+  let closest = -1;
+  prices.forEach((p, i) => {
+    if (closest < 0 || Math.abs(p - price) < Math.abs(prices[closest] - price)) closest = i;
+  });
+
+  return prices.map((p, i) => {
+    let side: GridLevel['side'] = null;
+    if (i !== closest) {
+      if (p < price && mode !== 'SHORT') side = 'buy';
+      if (p > price && mode !== 'LONG') side = 'sell';
+    }
+    // Levels whose size rounds below the lot minimum stay empty
+    const quantity = side ? roundQuantity(config, notionalToQuantity(config, config.gridLevelAmount, p)) : 0;
+    return { price: p, side: quantity > 0 ? side : null, quantity, fillCount: 0 };
+  });
+};
+
+// Signed net quantity (long > 0, short < 0)
+const getNetQuantity = (pos: PositionState): number => {
+  if (pos.direction === 'LONG') return pos.remainingQuantity;
+  if (pos.direction === 'SHORT') return -pos.remainingQuantity;
+  return 0;
+};
+
+// Book a grid fill against the net position (grid fields are left to the caller)
+const applyFill = (pos: PositionState, side: 'buy' | 'sell', qty: number, price: number, time: number, config: StrategyConfig): PositionState => {
+  const signed = side === 'buy' ? qty : -qty;
+  const net = getNetQuantity(pos);
+
+  // 1. Opening from flat
+  if (Math.abs(net) <= QTY_EPSILON) {
+    return createOpenPosition(signed > 0 ? 'LONG' : 'SHORT', qty, price, time, config);
+  }
+
+  // 2. Adding in the same direction - entryPrice stays the volume-weighted average
+  if (Math.sign(net) === Math.sign(signed)) {
+    return addFill(pos, price, qty, time);
+  }
+
+  // 3. Reducing (a fill larger than the position flips it with the remainder)
+  const closeQty = Math.min(qty, Math.abs(net));
+  const remaining = Math.abs(net) - closeQty;
+  if (remaining > QTY_EPSILON) {
+    return { ...pos, remainingQuantity: remaining, realizedPnl: pos.realizedPnl + getExitPnl(config, pos, closeQty, price) };
+  }
+  const leftover = qty - closeQty;
+  return leftover > QTY_EPSILON ? applyFill(createFlatPosition(), side, leftover, price, time, config) : createFlatPosition();
+};
+
+// Prices visited since the previous evaluation, in path order, ending at the current close.
+// Extremes beyond what the last evaluation saw of that bar were visited in between; within a bar
+// bearish candles are assumed to print their high first (the backtester's flat-position heuristic).
+const getPricePath = (candles: Candle[], pos: PositionState): number[] => {
+  const last = candles[candles.length - 1];
+  const path: number[] = [];
+  const visit = (c: Candle, seenHigh: number, seenLow: number) => {
+    const extremes = c.close < c.open ? [c.high, c.low] : [c.low, c.high];
+    extremes.forEach(p => { if (p > seenHigh || p < seenLow) path.push(p); });
+  };
+
+  if (pos.gridBarTime > 0) {
+    if (last.time === pos.gridBarTime) {
+      visit(last, pos.gridBarHigh, pos.gridBarLow);
+    } else {
+      // Rest of the bar seen last time, then all of the new one
+      const prev = candles[candles.length - 2];
+      if (prev && prev.time === pos.gridBarTime) visit(prev, pos.gridBarHigh, pos.gridBarLow);
+      visit(last, -Infinity, Infinity);
+    }
+  }
+  path.push(last.close);
+  return path;
+};
+
+// Remember the current bar and price so the next evaluation only replays what is new
+const trackPrice = (pos: PositionState, last: Candle): PositionState => ({
+  ...pos,
+  gridLastPrice: last.close,
+  gridBarTime: last.time,
+  gridBarHigh: last.time === pos.gridBarTime ? Math.max(pos.gridBarHigh, last.high) : last.high,
+  gridBarLow: last.time === pos.gridBarTime ? Math.min(pos.gridBarLow, last.low) : last.low
+});
+
+/**
+ * Grid strategy. Limit orders rest on evenly spaced levels; every evaluation fills the levels
+ * the price crossed since the previous one (in path order, through the bar's high and low) and
+ * arms the counter order one level away: a filled buy arms a sell above, a filled sell arms a buy below.
+ * Counter orders that reduce the net position are always armed; ones that would re-open
+ * exposure on a level only when gridRearm is on.
+ * Fills that grow the net position follow the signal engine's entry gates (trading schedule and
+ * blackouts, maxDailyTrades, cooldown); reducing fills always go through. A schedule flatten closes
+ * the net position at market and the grid is rebuilt once entries are allowed again.
+ * Each fill becomes a WebhookPayload at the level price, same as the signal engine's actions.
+ */
+export const evaluateGrid = (
+  candles: Candle[],
+  config: StrategyConfig,
+  currentPosition: PositionState,
+  tradeStats: TradeStats,
+  context: EvaluationContext = {}
+): StrategyResult => {
+  const actions: WebhookPayload[] = [];
+  let nextPos = { ...currentPosition };
+  const nextStats = { ...tradeStats };
+
+  if (candles.length === 0 || !config.isActive) {
+    return { newPositionState: nextPos, newTradeStats: nextStats, actions };
+  }
+
+  const last = candles[candles.length - 1];
+  const price = last.close;
+  const now = context.now || new Date();
+  const dateKey = getTradingDayKey(now.getTime(), resolveDailyReset(config, context.dailyReset)); // YYYY-MM-DD
+
+  // Reset daily stats if new day
+  if (nextStats.lastTradeDate !== dateKey) {
+    nextStats.dailyTradeCount = 0;
+    nextStats.lastTradeDate = dateKey;
+  }
+
+  // Starts the cooldown when a fill of `closeQty` at `exitPrice` takes the net position back to flat
+  const startCooldown = (closed: PositionState, closeQty: number, exitPrice: number) => {
+    const cooldown = getCloseCooldown(config, closed, closeQty, exitPrice, now.getTime());
+    nextStats.cooldownUntil = cooldown.until;
+    nextStats.cooldownReason = cooldown.reason;
+  };
+
+  // 1. Schedule flatten: close the net position at market; the levels are rebuilt after the window
+  const schedule = getScheduleStatus(config, now.getTime());
+  if (schedule.flattenReason) {
+    if (nextPos.direction !== 'FLAT' && nextPos.remainingQuantity > QTY_EPSILON) {
+      const qty = nextPos.remainingQuantity;
+      actions.push(buildPayload(config, nextPos.direction === 'LONG' ? 'sell' : 'buy', 'flat', schedule.flattenReason, qty * price, qty, price, now));
+      nextStats.dailyTradeCount++;
+      startCooldown(nextPos, qty, price);
+      nextPos = { ...createFlatPosition(), gridKey: nextPos.gridKey };
+    }
+    return { newPositionState: trackPrice(nextPos, last), newTradeStats: nextStats, actions };
+  }
+
+  // 2. (Re)build the levels on first run or after the grid settings changed.
+  // The net position is kept - a rebuilt grid only manages it through its new levels.
+  const gridKey = getGridKey(config);
+  if (nextPos.gridLevels.length === 0 || nextPos.gridKey !== gridKey) {
+    nextPos.gridLevels = buildGridLevels(config, price);
+    nextPos.gridKey = gridKey;
+    return { newPositionState: trackPrice(nextPos, last), newTradeStats: nextStats, actions };
+  }
+
+  const from = nextPos.gridLastPrice;
+  const path = getPricePath(candles, nextPos);
+  const tracked = trackPrice(nextPos, last);
+
+  // Manual takeover pauses the grid (the price is still tracked so nothing fills on resume)
+  if (config.manualTakeover || !(from > 0)) {
+    return { newPositionState: tracked, newTradeStats: nextStats, actions };
+  }
+
+  const levels = nextPos.gridLevels.map(l => ({ ...l }));
+  const inCooldown = now.getTime() < (nextStats.cooldownUntil || 0);
+
+  // Fill one level and arm its counter order. Growing the position needs the entry gates.
+  const fillLevel = (level: GridLevel, idx: number) => {
+    const side = level.side as 'buy' | 'sell';
+    const qty = level.quantity;
+    const netBefore = getNetQuantity(nextPos);
+    const grows = Math.abs(netBefore + (side === 'buy' ? qty : -qty)) > Math.abs(netBefore) + QTY_EPSILON;
+    const canOpen = nextStats.dailyTradeCount < config.maxDailyTrades && schedule.canEnter && !inCooldown;
+    if (grows && !canOpen) return; // The order keeps resting
+
+    const before = nextPos;
+    nextPos = applyFill(nextPos, side, qty, level.price, now.getTime(), config);
+    const netAfter = getNetQuantity(nextPos);
+    if (Math.abs(netAfter) < Math.abs(netBefore) - QTY_EPSILON) nextStats.dailyTradeCount++;
+    if (Math.abs(netBefore) > QTY_EPSILON && Math.abs(netAfter) <= QTY_EPSILON) startCooldown(before, Math.abs(netBefore), level.price);
+
+    const position = nextPos.direction === 'FLAT' ? 'flat' : nextPos.direction.toLowerCase();
+    const reason = `${side === 'buy' ? '网格买入' : '网格卖出'} L${idx + 1}`;
+    actions.push(buildPayload(config, side, position, reason, qty * level.price, qty, level.price, now, undefined, 'limit'));
+
+    level.side = null;
+    level.fillCount++;
+
+    // Counter order one level away, same quantity so the round trip nets out
+    const counterIdx = side === 'buy' ? idx + 1 : idx - 1;
+    const counter = levels[counterIdx];
+    if (!counter || counter.side !== null) return;
+    const reducesExposure = side === 'buy' ? netAfter > QTY_EPSILON : netAfter < -QTY_EPSILON;
+    if (reducesExposure || config.gridRearm || counter.fillCount === 0) {
+      counter.side = side === 'buy' ? 'sell' : 'buy';
+      counter.quantity = qty;
+    }
+  };
+
+  // 3. Walk the path: each leg fills the levels it crossed, nearest first
+  let legStart = from;
+  path.forEach(to => {
+    if (to === legStart) return;
+    const movingDown = to < legStart;
+    const start = legStart;
+    levels
+      .map((level, idx) => ({ level, idx }))
+      .filter(({ level }) => movingDown
+        ? level.side === 'buy' && level.price >= to && level.price < start
+        : level.side === 'sell' && level.price <= to && level.price > start)
+      .sort((a, b) => movingDown ? b.level.price - a.level.price : a.level.price - b.level.price)
+      .forEach(({ level, idx }) => fillLevel(level, idx));
+    legStart = to;
+  });
+
+  // Fills rebuild the position from defaults - keep the grid bookkeeping
+  nextPos = {
+    ...nextPos,
+    gridLevels: levels,
+    gridKey,
+    gridLastPrice: tracked.gridLastPrice,
+    gridBarTime: tracked.gridBarTime,
+    gridBarHigh: tracked.gridBarHigh,
+    gridBarLow: tracked.gridBarLow
+  };
+
+  return { newPositionState: nextPos, newTradeStats: nextStats, actions };
+};
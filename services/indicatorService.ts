@@ -114,12 +114,166 @@ export const calculateMACD = (candles: Candle[], fast: number, slow: number, sig
   return { macdLine, macdSignalLine, macdHist };
 };
 
-export const enrichCandlesWithIndicators = (candles: Candle[], config?: { macdFast: number, macdSlow: number, macdSignal: number }): Candle[] => {
+// Relative Strength Index (Wilder smoothing)
+export const calculateRSI = (candles: Candle[], period: number): number[] => {
+  const rsiArray: number[] = new Array(candles.length).fill(NaN);
+  if (candles.length <= period) return rsiArray;
+
+  // Initial average gain / loss over the first `period` changes
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRSI = (gain: number, loss: number) => loss === 0 ? (gain === 0 ? 50 : 100) : 100 - (100 / (1 + gain / loss));
+  rsiArray[period] = toRSI(avgGain, avgLoss);
+
+  for (let i = period + 1; i < candles.length; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    rsiArray[i] = toRSI(avgGain, avgLoss);
+  }
+
+  return rsiArray;
+};
+
+// Bollinger Bands (SMA +/- stdDev * population standard deviation)
+export const calculateBollingerBands = (candles: Candle[], period: number, stdDev: number) => {
+  const upper: number[] = new Array(candles.length).fill(NaN);
+  const middle: number[] = new Array(candles.length).fill(NaN);
+  const lower: number[] = new Array(candles.length).fill(NaN);
+
+  for (let i = period - 1; i < candles.length; i++) {
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += candles[j].close;
+    const mean = sum / period;
+
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (candles[j].close - mean) ** 2;
+    const deviation = Math.sqrt(variance / period);
+
+    middle[i] = mean;
+    upper[i] = mean + stdDev * deviation;
+    lower[i] = mean - stdDev * deviation;
+  }
+
+  return { upper, middle, lower };
+};
+
+// Average True Range (Wilder smoothing)
+export const calculateATR = (candles: Candle[], period: number): number[] => {
+  const atrArray: number[] = new Array(candles.length).fill(NaN);
+  if (candles.length < period) return atrArray;
+
+  const trueRange = (i: number) => {
+    const c = candles[i];
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  };
+
+  // Initial ATR = simple average of the first `period` true ranges
+  let sum = 0;
+  for (let i = 0; i < period; i++) sum += trueRange(i);
+  atrArray[period - 1] = sum / period;
+
+  for (let i = period; i < candles.length; i++) {
+    atrArray[i] = (atrArray[i - 1] * (period - 1) + trueRange(i)) / period;
+  }
+
+  return atrArray;
+};
+
+// Supertrend: ATR bands around HL2 that ratchet with the trend.
+// direction 1 = uptrend (line is the lower band), -1 = downtrend (line is the upper band)
+export const calculateSupertrend = (candles: Candle[], period: number, multiplier: number) => {
+  const atr = calculateATR(candles, period);
+  const line: number[] = new Array(candles.length).fill(NaN);
+  const direction: number[] = new Array(candles.length).fill(NaN);
+
+  let finalUpper = NaN;
+  let finalLower = NaN;
+
+  for (let i = 0; i < candles.length; i++) {
+    if (isNaN(atr[i])) continue;
+
+    const c = candles[i];
+    const hl2 = (c.high + c.low) / 2;
+    const basicUpper = hl2 + multiplier * atr[i];
+    const basicLower = hl2 - multiplier * atr[i];
+    const prevClose = i > 0 ? candles[i - 1].close : c.close;
+
+    // Bands only tighten while price stays on their side
+    finalUpper = isNaN(finalUpper) || basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+    finalLower = isNaN(finalLower) || basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+
+    const prevDir = i > 0 && !isNaN(direction[i - 1]) ? direction[i - 1] : 1;
+    let dir = prevDir;
+    if (prevDir === 1 && c.close < finalLower) dir = -1;
+    else if (prevDir === -1 && c.close > finalUpper) dir = 1;
+
+    direction[i] = dir;
+    line[i] = dir === 1 ? finalLower : finalUpper;
+  }
+
+  return { line, direction };
+};
+
+// Session VWAP (typical price weighted by volume), resets at 00:00 UTC
+export const calculateVWAP = (candles: Candle[]): number[] => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const vwapArray: number[] = [];
+
+  let session = -1;
+  let cumPV = 0;
+  let cumVolume = 0;
+
+  for (const c of candles) {
+    const day = Math.floor(c.time / DAY_MS);
+    if (day !== session) {
+      session = day;
+      cumPV = 0;
+      cumVolume = 0;
+    }
+    cumPV += ((c.high + c.low + c.close) / 3) * c.volume;
+    cumVolume += c.volume;
+    vwapArray.push(cumVolume > 0 ? cumPV / cumVolume : NaN);
+  }
+
+  return vwapArray;
+};
+
+// StrategyConfig satisfies this shape, so runners can pass their config straight through
+export interface IndicatorSettings {
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+  emaFastPeriod?: number;
+  emaMidPeriod?: number;
+  emaSlowPeriod?: number;
+  rsiPeriod?: number;
+  bbPeriod?: number;
+  bbStdDev?: number;
+  atrPeriod?: number;
+  supertrendPeriod?: number;
+  supertrendMultiplier?: number;
+}
+
+const valueOrUndefined = (v: number) => isNaN(v) ? undefined : v;
+
+export const enrichCandlesWithIndicators = (candles: Candle[], config?: IndicatorSettings): Candle[] => {
   if (candles.length === 0) return [];
 
-  const ema7 = calculateEMA(candles, 7);
-  const ema25 = calculateEMA(candles, 25);
-  const ema99 = calculateEMA(candles, 99);
+  // Default EMA lengths (7 / 25 / 99) if not provided
+  const emaFast = calculateEMA(candles, config?.emaFastPeriod || 7);
+  const emaMid = calculateEMA(candles, config?.emaMidPeriod || 25);
+  const emaSlow = calculateEMA(candles, config?.emaSlowPeriod || 99);
 
   // Default MACD settings if not provided
   const f = config?.macdFast || 50;
@@ -128,13 +282,28 @@ export const enrichCandlesWithIndicators = (candles: Candle[], config?: { macdFa
 
   const { macdLine, macdSignalLine, macdHist } = calculateMACD(candles, f, s, sig);
 
+  // Oscillators / volatility (common textbook defaults if not provided)
+  const rsi = calculateRSI(candles, config?.rsiPeriod || 14);
+  const bb = calculateBollingerBands(candles, config?.bbPeriod || 20, config?.bbStdDev || 2);
+  const atr = calculateATR(candles, config?.atrPeriod || 14);
+  const supertrend = calculateSupertrend(candles, config?.supertrendPeriod || 10, config?.supertrendMultiplier || 3);
+  const vwap = calculateVWAP(candles);
+
   return candles.map((c, i) => ({
     ...c,
-    ema7: isNaN(ema7[i]) ? undefined : ema7[i],
-    ema25: isNaN(ema25[i]) ? undefined : ema25[i],
-    ema99: isNaN(ema99[i]) ? undefined : ema99[i],
-    macdLine: isNaN(macdLine[i]) ? undefined : macdLine[i],
-    macdSignal: isNaN(macdSignalLine[i]) ? undefined : macdSignalLine[i],
-    macdHist: isNaN(macdHist[i]) ? undefined : macdHist[i],
+    emaFast: valueOrUndefined(emaFast[i]),
+    emaMid: valueOrUndefined(emaMid[i]),
+    emaSlow: valueOrUndefined(emaSlow[i]),
+    macdLine: valueOrUndefined(macdLine[i]),
+    macdSignal: valueOrUndefined(macdSignalLine[i]),
+    macdHist: valueOrUndefined(macdHist[i]),
+    rsi: valueOrUndefined(rsi[i]),
+    bbUpper: valueOrUndefined(bb.upper[i]),
+    bbMiddle: valueOrUndefined(bb.middle[i]),
+    bbLower: valueOrUndefined(bb.lower[i]),
+    atr: valueOrUndefined(atr[i]),
+    supertrend: valueOrUndefined(supertrend.line[i]),
+    supertrendDir: valueOrUndefined(supertrend.direction[i]),
+    vwap: valueOrUndefined(vwap[i]),
   }));
 };
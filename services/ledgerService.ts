@@ -0,0 +1,163 @@
+
+import { LedgerState, LedgerFill, ClosedTrade, WebhookPayload } from "../types";
+
+// Quantities below this are treated as zero (same tolerance as strategyEngine)
+const QTY_EPSILON = 0.000001;
+
+export interface FillCosts {
+  feeBps: number;
+  slippageBps: number;
+}
+
+export const createLedger = (): LedgerState => ({
+  positionQty: 0,
+  avgEntryPrice: 0,
+  realizedPnl: 0,
+  totalFees: 0,
+  openTrade: null,
+  trades: [],
+  realizedMarks: []
+});
+
+// Convert a webhook payload into a simulated fill.
+// Slippage always works against us: buys fill higher, sells fill lower.
+export const payloadToFill = (payload: WebhookPayload, time: number, costs: FillCosts): LedgerFill => {
+  const quantity = payload.execution_quantity ?? parseFloat(payload.quantity);
+  const rawPrice = payload.execution_price ?? (quantity > 0 ? payload.trade_amount / quantity : 0);
+  const side: 'buy' | 'sell' = payload.action === 'buy' ? 'buy' : 'sell';
+
+  const slip = costs.slippageBps / 10000;
+  const price = side === 'buy' ? rawPrice * (1 + slip) : rawPrice * (1 - slip);
+  // COIN-M fees are charged on the contracts' USD face value
+  const notional = payload.contract_size ? quantity * payload.contract_size : quantity * price;
+  const fee = notional * (costs.feeBps / 10000);
+
+  return { time, side, quantity, price, fee, reason: payload.tp_level, contractSize: payload.contract_size };
+};
+
+// Pnl (USDT) of `signedQty` moving from `entry` to `exit`.
+// Inverse (COIN-M) contracts earn coin: qty * size * (1/entry - 1/exit), valued here at the exit price.
+const pricePnl = (entry: number, exit: number, signedQty: number, contractSize?: number): number =>
+  contractSize && entry > 0
+    ? (exit - entry) * signedQty * contractSize / entry
+    : (exit - entry) * signedQty;
+
+export const unrealizedPnl = (ledger: LedgerState, markPrice: number): number => {
+  if (Math.abs(ledger.positionQty) <= QTY_EPSILON) return 0;
+  return pricePnl(ledger.avgEntryPrice, markPrice, ledger.positionQty, ledger.contractSize);
+};
+
+// Book a fill against the net position.
+// Buys add to longs / reduce shorts, sells the opposite. A fill larger than the
+// open position closes the round trip and opens a new one with the remainder.
+export const bookFill = (ledger: LedgerState, fill: LedgerFill): LedgerState => {
+  if (fill.quantity <= QTY_EPSILON) return ledger;
+
+  const signedQty = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+  const pos = ledger.positionQty;
+  const isFlat = Math.abs(pos) <= QTY_EPSILON;
+
+  // 1. Opening or adding in the same direction
+  if (isFlat || Math.sign(pos) === Math.sign(signedQty)) {
+    const newQty = (isFlat ? 0 : pos) + signedQty;
+    const prevAbs = isFlat ? 0 : Math.abs(pos);
+    const avgEntryPrice = (prevAbs * ledger.avgEntryPrice + fill.quantity * fill.price) / Math.abs(newQty);
+
+    const prevTrade = ledger.openTrade;
+    const openTrade = prevTrade && !isFlat
+      ? {
+          ...prevTrade,
+          maxQuantity: Math.max(prevTrade.maxQuantity, Math.abs(newQty)),
+          entryValue: prevTrade.entryValue + fill.quantity * fill.price,
+          entryQty: prevTrade.entryQty + fill.quantity,
+          fees: prevTrade.fees + fill.fee
+        }
+      : {
+          direction: (signedQty > 0 ? 'LONG' : 'SHORT') as 'LONG' | 'SHORT',
+          entryTime: fill.time,
+          maxQuantity: fill.quantity,
+          entryValue: fill.quantity * fill.price,
+          entryQty: fill.quantity,
+          exitValue: 0,
+          exitQty: 0,
+          fees: fill.fee,
+          realized: 0,
+          entryReason: fill.reason
+        };
+
+    return {
+      ...ledger,
+      positionQty: newQty,
+      avgEntryPrice,
+      contractSize: isFlat ? fill.contractSize : ledger.contractSize,
+      realizedPnl: ledger.realizedPnl - fill.fee,
+      totalFees: ledger.totalFees + fill.fee,
+      openTrade
+    };
+  }
+
+  // 2. Reducing / closing
+  const closeQty = Math.min(fill.quantity, Math.abs(pos));
+  const closeFee = fill.fee * (closeQty / fill.quantity);
+  const gross = pricePnl(ledger.avgEntryPrice, fill.price, closeQty * Math.sign(pos), ledger.contractSize);
+  const remainingPos = pos + Math.sign(signedQty) * closeQty;
+
+  // Defensive: rebuild the round trip if it was lost (e.g. truncated state file)
+  const trade = ledger.openTrade || {
+    direction: (pos > 0 ? 'LONG' : 'SHORT') as 'LONG' | 'SHORT',
+    entryTime: fill.time,
+    maxQuantity: Math.abs(pos),
+    entryValue: Math.abs(pos) * ledger.avgEntryPrice,
+    entryQty: Math.abs(pos),
+    exitValue: 0,
+    exitQty: 0,
+    fees: 0,
+    realized: 0,
+    entryReason: ''
+  };
+  const updatedTrade = {
+    ...trade,
+    exitValue: trade.exitValue + closeQty * fill.price,
+    exitQty: trade.exitQty + closeQty,
+    fees: trade.fees + closeFee,
+    realized: trade.realized + gross
+  };
+
+  let next: LedgerState = {
+    ...ledger,
+    positionQty: remainingPos,
+    realizedPnl: ledger.realizedPnl + gross - closeFee,
+    totalFees: ledger.totalFees + closeFee,
+    openTrade: updatedTrade
+  };
+
+  if (Math.abs(remainingPos) <= QTY_EPSILON) {
+    const closed: ClosedTrade = {
+      direction: updatedTrade.direction,
+      entryTime: updatedTrade.entryTime,
+      exitTime: fill.time,
+      entryPrice: updatedTrade.entryValue / updatedTrade.entryQty,
+      exitPrice: updatedTrade.exitValue / updatedTrade.exitQty,
+      quantity: updatedTrade.maxQuantity,
+      pnl: updatedTrade.realized - updatedTrade.fees,
+      fees: updatedTrade.fees,
+      entryReason: updatedTrade.entryReason,
+      exitReason: fill.reason
+    };
+    next = {
+      ...next,
+      positionQty: 0,
+      avgEntryPrice: 0,
+      openTrade: null,
+      trades: [...next.trades, closed]
+    };
+  }
+
+  // 3. Flip: remainder of the fill opens the opposite side
+  const leftover = fill.quantity - closeQty;
+  if (leftover > QTY_EPSILON) {
+    return bookFill(next, { ...fill, quantity: leftover, fee: fill.fee - closeFee });
+  }
+
+  return next;
+};
@@ -0,0 +1,74 @@
+
+import { StrategyConfig, PositionState } from "../types";
+import { getSymbolFilter, getContractSize } from "./sizingService";
+import { resolveMarketType } from "./exchangeService";
+
+// Leverage actually sent: whole number between 1 and the symbol's cap (always 1 on spot)
+export const getEffectiveLeverage = (config: StrategyConfig): number => {
+  if (resolveMarketType(config) === 'SPOT') return 1;
+  const cap = getSymbolFilter(config).maxLeverage;
+  const requested = Math.floor(config.leverage) || 1;
+  return Math.min(Math.max(1, requested), cap);
+};
+
+// Validation message for the configured leverage ('' = valid)
+export const getLeverageError = (config: StrategyConfig): string => {
+  if (resolveMarketType(config) === 'SPOT') return config.leverage > 1 ? '现货不使用杠杆，按 1x 下单' : '';
+  const cap = getSymbolFilter(config).maxLeverage;
+  if (!(config.leverage >= 1)) return '杠杆至少为 1x，按 1x 下单';
+  if (config.leverage > cap) return `${config.symbol} 最高 ${cap}x，按 ${cap}x 下单`;
+  if (!Number.isInteger(config.leverage)) return `杠杆需为整数，按 ${getEffectiveLeverage(config)}x 下单`;
+  return '';
+};
+
+/**
+ * Estimated liquidation price of an open position (0 = flat / never liquidated).
+ * Single-tier maintenance margin, fees and funding ignored:
+ *   ISOLATED - margin = notional / leverage
+ *   CROSS    - margin = accountBalance (the whole balance backs the position)
+ */
+export const estimateLiquidationPrice = (config: StrategyConfig, position: PositionState): number => {
+  if (position.direction === 'FLAT' || !(position.remainingQuantity > 0) || !(position.entryPrice > 0)) return 0;
+  // Spot positions are fully paid for
+  if (resolveMarketType(config) === 'SPOT') return 0;
+
+  const entry = position.entryPrice;
+  // COIN-M contracts -> coin held at entry (approximates the inverse payoff near the entry price)
+  const contractSize = getContractSize(config);
+  const qty = contractSize > 0 ? position.remainingQuantity * contractSize / entry : position.remainingQuantity;
+  const mmr = getSymbolFilter(config).maintMarginRate;
+  const margin = config.marginMode === 'CROSS' ? config.accountBalance : qty * entry / getEffectiveLeverage(config);
+
+  const liq = position.direction === 'LONG'
+    ? (qty * entry - margin) / (qty * (1 - mmr))
+    : (qty * entry + margin) / (qty * (1 + mmr));
+  return liq > 0 ? liq : 0;
+};
+
+// Stop prices of the open position from every enabled stop (0-priced stops are skipped)
+export const getStopPrices = (config: StrategyConfig, position: PositionState): { label: string; price: number }[] => {
+  if (position.direction === 'FLAT') return [];
+  const sign = position.direction === 'LONG' ? -1 : 1;
+  const atEntry = (pct: number) => position.entryPrice * (1 + sign * pct / 100);
+  const stops: { label: string; price: number }[] = [];
+
+  if (config.useFixedTPSL) stops.push({ label: '固定止损', price: atEntry(config.stopLossPct) });
+  if (config.useMultiTPSL) {
+    const pcts = config.slLevels.filter(l => l.active && l.pct > 0).map(l => l.pct);
+    if (pcts.length > 0) stops.push({ label: '分批止损', price: atEntry(Math.max(...pcts)) });
+  }
+  if (config.useATRStops && position.atrStopPrice > 0) stops.push({ label: 'ATR止损', price: position.atrStopPrice });
+  if (config.useChandelierStop && position.chandelierStop > 0) stops.push({ label: '吊灯止损', price: position.chandelierStop });
+  if (config.useBreakEven && position.breakEvenStop > 0) stops.push({ label: '保本止损', price: position.breakEvenStop });
+  return stops;
+};
+
+// Stops that would only trigger after the position is liquidated
+export const getLiquidationWarnings = (config: StrategyConfig, position: PositionState): string[] => {
+  const liq = estimateLiquidationPrice(config, position);
+  if (!(liq > 0)) return [];
+  const isLong = position.direction === 'LONG';
+  return getStopPrices(config, position)
+    .filter(stop => isLong ? stop.price <= liq : stop.price >= liq)
+    .map(stop => `${stop.label} ${stop.price.toFixed(4)} 超出强平价 ${liq.toFixed(4)}`);
+};
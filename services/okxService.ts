@@ -0,0 +1,90 @@
+
+import { Candle, IntervalType, SymbolType } from "../types";
+import { OKX_REST_BASE, OKX_WS_BASE } from "../constants";
+import { ExchangeAdapter, parseJsonFrame } from "./exchangeService";
+import { intervalToMs } from "./resampleService";
+
+// Our interval -> OKX bar. 6h and up use the *utc bars - plain ones are aligned to Hong Kong time.
+const BAR_MAP: Partial<Record<IntervalType, string>> = {
+  '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+  '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '12h': '12Hutc',
+  '1d': '1Dutc', '1w': '1Wutc', '1M': '1Mutc'
+};
+
+// history-candles serves at most 100 rows per request
+const PAGE_LIMIT = 100;
+
+// "BTCUSDT" -> "BTC-USDT-SWAP" (USDT-margined perpetual)
+export const toOkxInstId = (symbol: SymbolType): string => {
+  const upper = symbol.toUpperCase();
+  return upper.endsWith('USDT') ? `${upper.slice(0, -4)}-USDT-SWAP` : upper;
+};
+
+// OKX rows: [ts, open, high, low, close, vol (contracts), volCcy (base coin), volCcyQuote, confirm], newest first.
+// Volume is taken in base coin so it matches the other venues.
+const parseRow = (row: string[], symbol: SymbolType): Candle => ({
+  symbol,
+  time: parseInt(row[0]),
+  open: parseFloat(row[1]),
+  high: parseFloat(row[2]),
+  low: parseFloat(row[3]),
+  close: parseFloat(row[4]),
+  volume: parseFloat(row[6]),
+  isClosed: row[8] === '1'
+});
+
+export const fetchOkxKlines = async (
+  symbol: SymbolType,
+  interval: IntervalType,
+  startTime?: number,
+  endTime?: number
+): Promise<Candle[]> => {
+  try {
+    let url = `${OKX_REST_BASE}/market/history-candles?instId=${toOkxInstId(symbol)}&bar=${BAR_MAP[interval] || interval}&limit=${PAGE_LIMIT}`;
+
+    // `after` = older than, `before` = newer than (both exclusive).
+    // `before` alone returns the NEWEST page - cap the end so paging forward has no holes.
+    if (startTime && !endTime) endTime = startTime + PAGE_LIMIT * intervalToMs(interval) - 1;
+    if (endTime) url += `&after=${endTime + 1}`;
+    if (startTime) url += `&before=${startTime - 1}`;
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.code !== '0' || !Array.isArray(data.data)) {
+      console.error("Invalid response from OKX:", JSON.stringify(data));
+      return [];
+    }
+
+    return data.data.map((row: string[]) => parseRow(row, symbol)).reverse();
+  } catch (error) {
+    console.error("Failed to fetch OKX historical data", error);
+    return [];
+  }
+};
+
+// Channel frame: { arg: { channel: "candle1m", instId: "BTC-USDT-SWAP" }, data: [[ts, o, h, l, c, ...]] }
+export const parseOkxMessage = (raw: string, symbol: SymbolType): Candle[] => {
+  const frame = parseJsonFrame(raw);
+  if (!frame || !frame.arg || !Array.isArray(frame.data)) return [];
+  if (typeof frame.arg.channel !== 'string' || !frame.arg.channel.startsWith('candle')) return [];
+  if (frame.arg.instId !== toOkxInstId(symbol)) return [];
+
+  return frame.data.map((row: string[]) => parseRow(row, symbol));
+};
+
+export const okxAdapter: ExchangeAdapter = {
+  id: 'OKX',
+  market: 'USDT_M',
+  nativeIntervals: Object.keys(BAR_MAP) as IntervalType[],
+  pageLimit: PAGE_LIMIT,
+  fetchKlines: fetchOkxKlines,
+
+  getStreamUrl: () => OKX_WS_BASE,
+  getSubscribeMessages: (symbol, interval) => [
+    JSON.stringify({ op: 'subscribe', args: [{ channel: `candle${BAR_MAP[interval] || interval}`, instId: toOkxInstId(symbol) }] })
+  ],
+  // OKX closes connections idle for 30s; it answers a plain "ping" with "pong"
+  heartbeat: { intervalMs: 25000, message: 'ping' },
+  parseMessage: parseOkxMessage
+};
@@ -2,13 +2,6 @@
 
 import { Candle, IntervalType } from "../types";
 
-// Explicit list of intervals supported natively by Binance Futures
-const NATIVE_INTERVALS = [
-  '1m', '3m', '5m', '15m', '30m', 
-  '1h', '2h', '4h', '6h', '8h', '12h', 
-  '1d', '3d', '1w', '1M'
-];
-
 // Helper to convert interval string to milliseconds
 export const intervalToMs = (interval: string): number => {
   const match = interval.match(/^(\d+)([a-zA-Z]+)$/);
@@ -27,12 +20,12 @@ export const intervalToMs = (interval: string): number => {
   return value * mult;
 };
 
-// Determine the best native Binance interval to use as a base for resampling
+// Determine the best native interval of the venue (ExchangeAdapter.nativeIntervals) to use as a base for resampling
 // STRATEGY: Native First -> Smart Synthesis
-export const determineBaseConfig = (targetInterval: IntervalType): { baseInterval: IntervalType, isNative: boolean } => {
+export const determineBaseConfig = (targetInterval: IntervalType, nativeIntervals: IntervalType[]): { baseInterval: IntervalType, isNative: boolean } => {
   
-  // 1. Native Priority: If Binance supports it, use it directly.
-  if (NATIVE_INTERVALS.includes(targetInterval as string)) {
+  // 1. Native Priority: If the exchange supports it, use it directly.
+  if (nativeIntervals.includes(targetInterval)) {
     return { baseInterval: targetInterval, isNative: true };
   }
 
@@ -49,12 +42,14 @@ export const determineBaseConfig = (targetInterval: IntervalType): { baseInterva
     '45m': '15m', // 15m * 3
     
     '3h': '1h',   // 1h * 3
+    '8h': '4h',   // 4h * 2 (not native on Bybit / OKX)
     '10h': '2h',  // 2h * 5
     
     '2d': '1d',   // 1d * 2
+    '3d': '1d',   // 1d * 3 (not native on Bybit / OKX)
   };
 
-  if (mappings[targetInterval]) {
+  if (mappings[targetInterval] && nativeIntervals.includes(mappings[targetInterval] as IntervalType)) {
       return { baseInterval: mappings[targetInterval] as IntervalType, isNative: false };
   }
 
@@ -108,4 +103,26 @@ export const resampleCandles = (baseCandles: Candle[], targetInterval: IntervalT
   }
 
   return Array.from(resampledMap.values()).sort((a, b) => a.time - b.time);
-};
\ No newline at end of file
+};
+
+// A closed candle rebuilt as it looked `progress` (0 - 1) of the way through its interval.
+// Price path: open -> first extreme -> second extreme -> close (bullish bars visit the low first, bearish bars the high).
+export const buildFormingCandle = (candle: Candle, progress: number): Candle => {
+  const bullish = candle.close >= candle.open;
+  const path = [candle.open, bullish ? candle.low : candle.high, bullish ? candle.high : candle.low, candle.close];
+  const clamped = Math.min(1, Math.max(0, progress));
+
+  const position = clamped * (path.length - 1);
+  const leg = Math.min(Math.floor(position), path.length - 2);
+  const price = path[leg] + (path[leg + 1] - path[leg]) * (position - leg);
+  const visited = [...path.slice(0, leg + 1), price];
+
+  return {
+    ...candle,
+    high: Math.max(...visited),
+    low: Math.min(...visited),
+    close: price,
+    volume: candle.volume * clamped,
+    isClosed: false
+  };
+};
@@ -0,0 +1,46 @@
+
+import { ClosedTrade, RiskLimits, RiskMetrics, StrategyConfig } from "../types";
+
+export const EMPTY_RISK_METRICS: RiskMetrics = { dailyPnl: 0, consecutiveLosses: 0, equity: 0, peakEquity: 0, drawdown: 0 };
+
+// Per-strategy limits (null = guard disabled)
+export const getStrategyRiskLimits = (config: StrategyConfig): RiskLimits | null => {
+  if (!config.useRiskGuard) return null;
+  return {
+    maxDailyLoss: config.riskMaxDailyLoss,
+    maxConsecutiveLosses: config.riskMaxConsecutiveLosses,
+    maxDrawdown: config.riskMaxDrawdown,
+    flattenOnTrip: config.riskFlattenOnTrip
+  };
+};
+
+// Losing round trips in a row, newest first, ignoring trades that closed before `since`
+export const countConsecutiveLosses = (trades: ClosedTrade[], since: number): number => {
+  const sorted = trades.filter(t => t.exitTime >= since).sort((a, b) => b.exitTime - a.exitTime);
+  let count = 0;
+  for (const trade of sorted) {
+    if (trade.pnl >= 0) break;
+    count++;
+  }
+  return count;
+};
+
+// Fold the current equity into the metrics (the peak only ever rises until reset)
+export const buildRiskMetrics = (dailyPnl: number, consecutiveLosses: number, equity: number, previousPeak: number): RiskMetrics => {
+  const peakEquity = Math.max(previousPeak, equity);
+  return { dailyPnl, consecutiveLosses, equity, peakEquity, drawdown: peakEquity - equity };
+};
+
+// Reason of the first limit that is breached ('' = within limits). 0 disables a limit.
+export const checkRiskLimits = (limits: RiskLimits, metrics: RiskMetrics): string => {
+  if (limits.maxDailyLoss > 0 && -metrics.dailyPnl >= limits.maxDailyLoss) {
+    return `当日亏损 ${(-metrics.dailyPnl).toFixed(2)}U ≥ ${limits.maxDailyLoss}U`;
+  }
+  if (limits.maxConsecutiveLosses > 0 && metrics.consecutiveLosses >= limits.maxConsecutiveLosses) {
+    return `连续亏损 ${metrics.consecutiveLosses} 笔 ≥ ${limits.maxConsecutiveLosses} 笔`;
+  }
+  if (limits.maxDrawdown > 0 && metrics.drawdown >= limits.maxDrawdown) {
+    return `回撤 ${metrics.drawdown.toFixed(2)}U ≥ ${limits.maxDrawdown}U`;
+  }
+  return '';
+};
@@ -0,0 +1,212 @@
+
+import { Candle, RuleNode, RuleOperand, RuleComparator, SignalRules, StrategyConfig } from "../types";
+
+// --- Evaluation ---
+
+// Resolve an operand at candle index `i` (undefined when the field is not available yet)
+const readOperand = (operand: RuleOperand, candles: Candle[], i: number): number | undefined => {
+  if (operand.type === 'value') return operand.value;
+  const idx = i - (operand.offset || 0);
+  if (idx < 0) return undefined;
+  const v = candles[idx][operand.field];
+  return typeof v === 'number' && !isNaN(v) ? v : undefined;
+};
+
+const compareAt = (comparator: RuleComparator, left: RuleOperand, right: RuleOperand, candles: Candle[], i: number): boolean => {
+  const a = readOperand(left, candles, i);
+  const b = readOperand(right, candles, i);
+  if (a === undefined || b === undefined) return false;
+
+  switch (comparator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case 'crossAbove':
+    case 'crossBelow': {
+      const prevA = readOperand(left, candles, i - 1);
+      const prevB = readOperand(right, candles, i - 1);
+      if (prevA === undefined || prevB === undefined) return false;
+      return comparator === 'crossAbove'
+        ? prevA <= prevB && a > b
+        : prevA >= prevB && a < b;
+    }
+  }
+};
+
+// Evaluate a rule tree against the latest candle (or `index` if given).
+// Empty AND groups are false so a half-built tree never fires.
+export const evaluateRule = (node: RuleNode, candles: Candle[], index: number = candles.length - 1): boolean => {
+  switch (node.kind) {
+    case 'and':
+      return node.children.length > 0 && node.children.every(child => evaluateRule(child, candles, index));
+    case 'or':
+      return node.children.some(child => evaluateRule(child, candles, index));
+    case 'not':
+      return !evaluateRule(node.child, candles, index);
+    case 'condition': {
+      const bars = Math.max(1, Math.floor(node.lookback || 1));
+      if (index - bars + 1 < 0) return false;
+      for (let k = 0; k < bars; k++) {
+        const hit = compareAt(node.comparator, node.left, node.right, candles, index - k);
+        if (node.lookbackMode === 'all' && !hit) return false;
+        if (node.lookbackMode !== 'all' && hit) return true;
+      }
+      return node.lookbackMode === 'all';
+    }
+  }
+};
+
+// --- Description (for logs / UI) ---
+
+const COMPARATOR_LABELS: Record<RuleComparator, string> = {
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+  crossAbove: '上穿',
+  crossBelow: '下穿',
+};
+
+const describeOperand = (operand: RuleOperand): string => {
+  if (operand.type === 'value') return `${operand.value}`;
+  return operand.offset ? `${operand.field}[${operand.offset}]` : operand.field;
+};
+
+export const describeRule = (node: RuleNode): string => {
+  switch (node.kind) {
+    case 'and':
+    case 'or': {
+      const joiner = node.kind === 'and' ? ' AND ' : ' OR ';
+      return `(${node.children.map(describeRule).join(joiner)})`;
+    }
+    case 'not':
+      return `NOT ${describeRule(node.child)}`;
+    case 'condition': {
+      const base = `${describeOperand(node.left)} ${COMPARATOR_LABELS[node.comparator]} ${describeOperand(node.right)}`;
+      if (node.lookback <= 1) return base;
+      return `${base} (${node.lookbackMode === 'all' ? '连续' : '近'}${node.lookback}根)`;
+    }
+  }
+};
+
+// --- Builders ---
+
+export const createCondition = (partial: Partial<Extract<RuleNode, { kind: 'condition' }>> = {}): RuleNode => ({
+  kind: 'condition',
+  left: { type: 'field', field: 'close', offset: 0 },
+  comparator: '>',
+  right: { type: 'field', field: 'emaSlow', offset: 0 },
+  lookback: 1,
+  lookbackMode: 'any',
+  ...partial,
+});
+
+const field = (name: Extract<RuleOperand, { type: 'field' }>['field'], offset: number = 0): RuleOperand => ({ type: 'field', field: name, offset });
+const value = (v: number): RuleOperand => ({ type: 'value', value: v });
+const cross = (left: RuleOperand, comparator: 'crossAbove' | 'crossBelow', right: RuleOperand): RuleNode =>
+  createCondition({ left, comparator, right });
+
+// Collapse a list of alternatives into a single node (null when nothing is enabled)
+const anyOf = (nodes: RuleNode[]): RuleNode | null => {
+  if (nodes.length === 0) return null;
+  if (nodes.length === 1) return nodes[0];
+  return { kind: 'or', children: nodes };
+};
+
+/**
+ * Converts the toggle-based signal groups into equivalent rule trees.
+ * The toggle chain fires when ANY enabled signal fires (first match only picks the reason text),
+ * so each slot becomes an OR of the enabled signals. Trend filter / reversion are not signals
+ * and keep applying on top of the rules.
+ */
+export const convertTogglesToRules = (config: StrategyConfig): SignalRules => {
+  const up = {
+    fastMid: cross(field('emaFast'), 'crossAbove', field('emaMid')),
+    fastSlow: cross(field('emaFast'), 'crossAbove', field('emaSlow')),
+    midSlow: cross(field('emaMid'), 'crossAbove', field('emaSlow')),
+    macd: cross(field('macdLine'), 'crossAbove', field('macdSignal')),
+    rsi: cross(field('rsi'), 'crossAbove', value(config.rsiOversold)),
+    // Previous close below the lower band, current close back inside
+    bb: {
+      kind: 'and',
+      children: [
+        createCondition({ left: field('close', 1), comparator: '<', right: field('bbLower', 1) }),
+        createCondition({ left: field('close'), comparator: '>=', right: field('bbLower') }),
+      ],
+    } as RuleNode,
+    supertrend: cross(field('supertrendDir'), 'crossAbove', value(0)),
+    vwap: cross(field('close'), 'crossAbove', field('vwap')),
+  };
+
+  const down = {
+    fastMid: cross(field('emaFast'), 'crossBelow', field('emaMid')),
+    fastSlow: cross(field('emaFast'), 'crossBelow', field('emaSlow')),
+    midSlow: cross(field('emaMid'), 'crossBelow', field('emaSlow')),
+    macd: cross(field('macdLine'), 'crossBelow', field('macdSignal')),
+    rsi: cross(field('rsi'), 'crossBelow', value(config.rsiOverbought)),
+    bb: {
+      kind: 'and',
+      children: [
+        createCondition({ left: field('close', 1), comparator: '>', right: field('bbUpper', 1) }),
+        createCondition({ left: field('close'), comparator: '<=', right: field('bbUpper') }),
+      ],
+    } as RuleNode,
+    supertrend: cross(field('supertrendDir'), 'crossBelow', value(0)),
+    vwap: cross(field('close'), 'crossBelow', field('vwap')),
+  };
+
+  // Fast/Mid crossing Slow = either line crossing
+  const doubleUp: RuleNode = { kind: 'or', children: [up.fastSlow, up.midSlow] };
+  const doubleDown: RuleNode = { kind: 'or', children: [down.fastSlow, down.midSlow] };
+
+  // Per slot: [enabled?, node]
+  const build = (entries: [boolean, RuleNode][]) => anyOf(entries.filter(([on]) => on).map(([, node]) => node));
+
+  return {
+    long: build([
+      [config.useEMAFastMid && config.emaFastMid_Long, up.fastMid],
+      [config.useEMAFastSlow && config.emaFastSlow_Long, up.fastSlow],
+      [config.useEMAMidSlow && config.emaMidSlow_Long, up.midSlow],
+      [config.useEMADouble && config.emaDoubleLong, doubleUp],
+      [config.useMACD && config.macdLong, up.macd],
+      [config.useRSI && config.rsiLong, up.rsi],
+      [config.useBB && config.bbLong, up.bb],
+      [config.useSupertrend && config.supertrendLong, up.supertrend],
+      [config.useVWAP && config.vwapLong, up.vwap],
+    ]),
+    short: build([
+      [config.useEMAFastMid && config.emaFastMid_Short, down.fastMid],
+      [config.useEMAFastSlow && config.emaFastSlow_Short, down.fastSlow],
+      [config.useEMAMidSlow && config.emaMidSlow_Short, down.midSlow],
+      [config.useEMADouble && config.emaDoubleShort, doubleDown],
+      [config.useMACD && config.macdShort, down.macd],
+      [config.useRSI && config.rsiShort, down.rsi],
+      [config.useBB && config.bbShort, down.bb],
+      [config.useSupertrend && config.supertrendShort, down.supertrend],
+      [config.useVWAP && config.vwapShort, down.vwap],
+    ]),
+    exitLong: build([
+      [config.useEMAFastMid && config.emaFastMid_ExitLong, down.fastMid],
+      [config.useEMAFastSlow && config.emaFastSlow_ExitLong, down.fastSlow],
+      [config.useEMAMidSlow && config.emaMidSlow_ExitLong, down.midSlow],
+      [config.useEMADouble && config.emaDoubleExitLong, doubleDown],
+      [config.useMACD && config.macdExitLong, down.macd],
+      [config.useRSI && config.rsiExitLong, down.rsi],
+      [config.useBB && config.bbExitLong, down.bb],
+      [config.useSupertrend && config.supertrendExitLong, down.supertrend],
+      [config.useVWAP && config.vwapExitLong, down.vwap],
+    ]),
+    exitShort: build([
+      [config.useEMAFastMid && config.emaFastMid_ExitShort, up.fastMid],
+      [config.useEMAFastSlow && config.emaFastSlow_ExitShort, up.fastSlow],
+      [config.useEMAMidSlow && config.emaMidSlow_ExitShort, up.midSlow],
+      [config.useEMADouble && config.emaDoubleExitShort, doubleUp],
+      [config.useMACD && config.macdExitShort, up.macd],
+      [config.useRSI && config.rsiExitShort, up.rsi],
+      [config.useBB && config.bbExitShort, up.bb],
+      [config.useSupertrend && config.supertrendExitShort, up.supertrend],
+      [config.useVWAP && config.vwapExitShort, up.vwap],
+    ]),
+  };
+};
@@ -0,0 +1,52 @@
+
+import { StrategyConfig, ScheduleStatus, BlackoutWindow } from "../types";
+import { getZonedTime } from "./timeZoneService";
+
+const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+// "HH:MM" -> minute of the day (-1 = invalid)
+const parseHHMM = (hhmm: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((hhmm || '').trim());
+  if (!match) return -1;
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+};
+
+// Is `ms` inside the weekly session? Overnight sessions count towards the weekday they start on.
+export const isInSession = (config: StrategyConfig, ms: number): boolean => {
+  const start = parseHHMM(config.scheduleStart);
+  const end = parseHHMM(config.scheduleEnd);
+  const { weekday, minutes } = getZonedTime(ms, config.scheduleTimezone);
+  const dayAllowed = (day: number) => config.scheduleWeekdays.includes((day + 7) % 7);
+
+  if (start < 0 || end < 0 || start === end) return dayAllowed(weekday); // All day
+  if (start < end) return dayAllowed(weekday) && minutes >= start && minutes < end;
+  return (minutes >= start && dayAllowed(weekday)) || (minutes < end && dayAllowed(weekday - 1));
+};
+
+export const getActiveBlackout = (windows: BlackoutWindow[], ms: number): BlackoutWindow | undefined =>
+  windows.find(w => ms >= w.start && ms < w.end);
+
+// Short description of the session for the UI, e.g. "周一-周五 09:00-17:00 (Asia/Shanghai)"
+export const describeSchedule = (config: StrategyConfig): string => {
+  const days = [...config.scheduleWeekdays].sort().map(d => WEEKDAY_LABELS[d]).join(' ');
+  const hours = config.scheduleStart === config.scheduleEnd ? '全天' : `${config.scheduleStart}-${config.scheduleEnd}`;
+  return `${days || '无交易日'} ${hours} (${config.scheduleTimezone})`;
+};
+
+/**
+ * Checks the schedule at `ms`. Entries are blocked outside the weekly session and inside any
+ * blackout; positions are flattened from blackoutFlattenMinutes before a `flatten` window
+ * until it ends. Everything is allowed when the schedule is off.
+ */
+export const getScheduleStatus = (config: StrategyConfig, ms: number): ScheduleStatus => {
+  if (!config.useSchedule) return { canEnter: true, reason: '', flattenReason: '' };
+
+  const leadMs = Math.max(0, config.blackoutFlattenMinutes || 0) * 60000;
+  const flattenWindow = config.blackoutWindows.find(w => w.flatten && ms >= w.start - leadMs && ms < w.end);
+  const flattenReason = flattenWindow ? `禁止交易前平仓: ${flattenWindow.label}` : '';
+
+  const blackout = getActiveBlackout(config.blackoutWindows, ms);
+  if (blackout) return { canEnter: false, reason: `禁止交易: ${blackout.label}`, flattenReason };
+  if (!isInSession(config, ms)) return { canEnter: false, reason: '非交易时段', flattenReason };
+  return { canEnter: !flattenWindow, reason: flattenWindow ? flattenReason : '', flattenReason };
+};
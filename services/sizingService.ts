@@ -0,0 +1,122 @@
+
+import { StrategyConfig, SymbolFilter } from "../types";
+import { SYMBOL_FILTERS, DEFAULT_SYMBOL_FILTER, DEFAULT_COINM_FILTER } from "../constants";
+import { resolveMarketType } from "./exchangeService";
+import { SymbolSource, findSymbolInfo } from "./symbolService";
+
+export interface EntrySize {
+  quantity: number; // Rounded to the symbol's lot step (0 = below the minimum, skip the entry). COIN-M: contracts
+  amount: number; // USDT notional of `quantity`
+  note: string; // Mode + inputs, sent with the payload as `sizing`
+}
+
+/**
+ * Trading rules of the strategy's symbol: the loaded catalogue's lot sizes over the static table.
+ * Leverage caps and maintenance margin come only from the table (exchangeInfo has neither; spot is
+ * capped at 1x in marginService). Unknown COIN-M contracts ("XXXUSD_PERP") use DEFAULT_COINM_FILTER.
+ */
+export const getSymbolFilter = (source: SymbolSource): SymbolFilter => {
+  const upper = source.symbol.toUpperCase();
+  const base = SYMBOL_FILTERS[upper] || (upper.endsWith('_PERP') ? DEFAULT_COINM_FILTER : DEFAULT_SYMBOL_FILTER);
+  const info = findSymbolInfo(source);
+  if (!info) return base;
+
+  return {
+    ...base,
+    stepSize: info.stepSize || base.stepSize,
+    minQty: info.minQty || base.minQty,
+    contractSize: info.contractSize || base.contractSize,
+    tickSize: info.tickSize,
+    minNotional: info.minNotional
+  };
+};
+
+// USD face value of one contract for COIN-M strategies, 0 = quantity is in the base asset
+export const getContractSize = (config: StrategyConfig): number =>
+  resolveMarketType(config) === 'COIN_M' ? getSymbolFilter(config).contractSize || DEFAULT_COINM_FILTER.contractSize! : 0;
+
+// Quantity (base asset, or contracts for COIN-M) worth `notional` USDT at `price`
+export const notionalToQuantity = (config: StrategyConfig, notional: number, price: number): number => {
+  const contractSize = getContractSize(config);
+  if (contractSize > 0) return notional / contractSize;
+  return price > 0 ? notional / price : 0;
+};
+
+// USDT notional of `quantity` at `price` (trade_amount)
+export const quantityToNotional = (config: StrategyConfig, quantity: number, price: number): number => {
+  const contractSize = getContractSize(config);
+  return contractSize > 0 ? quantity * contractSize : quantity * price;
+};
+
+// Decimals of a step size (0.001 -> 3) so rounded quantities don't carry float noise
+const stepDecimals = (step: number): number => {
+  const text = step.toString();
+  if (text.includes('e-')) return parseInt(text.split('e-')[1]);
+  return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+// Round DOWN to the lot step (never exceeds the intended size). Below minQty = 0.
+export const roundQuantity = (source: SymbolSource, quantity: number): number => {
+  const { stepSize, minQty } = getSymbolFilter(source);
+  if (!(quantity > 0) || !(stepSize > 0)) return 0;
+  const steps = Math.floor(quantity / stepSize + 1e-9);
+  const rounded = parseFloat((steps * stepSize).toFixed(stepDecimals(stepSize)));
+  return rounded >= minQty ? rounded : 0;
+};
+
+// Distance from entry to the stop a RISK-sized trade would hit first (price units, 0 = no stop configured)
+export const getStopDistance = (config: StrategyConfig, price: number, atr?: number): number => {
+  const distances: number[] = [];
+  if (config.useATRStops && atr !== undefined && atr > 0) distances.push(config.atrStopMult * atr);
+  if (config.useFixedTPSL && config.stopLossPct > 0) distances.push(price * config.stopLossPct / 100);
+  if (config.useMultiTPSL) {
+    // Deepest active level - the whole position is out by then
+    const pcts = config.slLevels.filter(l => l.active && l.pct > 0).map(l => l.pct);
+    if (pcts.length > 0) distances.push(price * Math.max(...pcts) / 100);
+  }
+  return distances.length > 0 ? Math.min(...distances) : 0;
+};
+
+/**
+ * Entry size for the configured sizing mode at `price`.
+ * Modes that can't be computed (no stop for RISK, no ATR yet for VOLATILITY) fall back to FIXED
+ * and say so in the note.
+ */
+export const calculateEntrySize = (config: StrategyConfig, price: number, atr?: number): EntrySize => {
+  if (!(price > 0)) return { quantity: 0, amount: 0, note: config.sizingMode };
+
+  // Sized in USDT notional first, then converted (COIN-M: whole contracts)
+  let notional = config.tradeAmount;
+  let note = `固定 ${config.tradeAmount}U`;
+
+  if (config.sizingMode === 'RISK') {
+    const stopDistance = getStopDistance(config, price, atr);
+    if (stopDistance > 0) {
+      const riskAmount = config.accountBalance * config.riskPct / 100;
+      notional = riskAmount / stopDistance * price;
+      note = `风险 ${config.riskPct}% × ${config.accountBalance}U / 止损 ${(stopDistance / price * 100).toFixed(2)}%`;
+    } else {
+      note = `风险模式无止损, 固定 ${config.tradeAmount}U`;
+    }
+  } else if (config.sizingMode === 'VOLATILITY') {
+    if (atr !== undefined && atr > 0) {
+      notional = (config.accountBalance * config.volTargetPct / 100) / atr * price;
+      note = `波动率 ${config.volTargetPct}% × ${config.accountBalance}U / ATR ${atr.toFixed(4)}`;
+    } else {
+      note = `波动率模式无ATR, 固定 ${config.tradeAmount}U`;
+    }
+  } else if (config.sizingMode === 'BALANCE_PCT') {
+    notional = config.accountBalance * config.balancePct / 100;
+    note = `余额 ${config.balancePct}% × ${config.accountBalance}U`;
+  }
+
+  const quantity = roundQuantity(config, notionalToQuantity(config, notional, price));
+  const amount = quantityToNotional(config, quantity, price);
+
+  // The venue rejects orders below its minimum value
+  const { minNotional } = getSymbolFilter(config);
+  if (quantity > 0 && minNotional && amount < minNotional) {
+    return { quantity: 0, amount: 0, note: `${note} (低于最小名义价值 ${minNotional}U)` };
+  }
+  return { quantity, amount, note };
+};
@@ -1,6 +1,14 @@
 
 
-import { Candle, StrategyConfig, PositionState, TradeStats, WebhookPayload } from "../types";
+import { Candle, StrategyConfig, PositionState, PositionFill, TradeStats, WebhookPayload, RuleNode, IntervalType, TrendDirection, DailyResetSetting, OrderType } from "../types";
+import { evaluateRule } from "./ruleEngine";
+import { intervalToMs } from "./resampleService";
+import { getScheduleStatus } from "./scheduleService";
+import { getZoneOffset, getZonedTime, fromZonedTime } from "./timeZoneService";
+import { getTradingDayKey, resolveDailyReset } from "./dailyResetService";
+import { calculateEntrySize, roundQuantity, getContractSize, notionalToQuantity } from "./sizingService";
+import { getEffectiveLeverage } from "./marginService";
+import { resolveMarketType } from "./exchangeService";
 
 // Helper to determine crosses
 const crossOver = (currA: number, currB: number, prevA: number, prevB: number) => prevA <= prevB && currA > currB;
@@ -12,17 +20,249 @@ export interface StrategyResult {
   actions: WebhookPayload[];
 }
 
+// Optional environment overrides. Live callers omit it; the backtester
+// injects the simulated clock so timestamps & daily limits follow the replayed bars.
+export interface EvaluationContext {
+  now?: Date;
+  // Trend of each higher-timeframe filter interval (missing = no data yet, entries blocked)
+  htfTrends?: Partial<Record<IntervalType, TrendDirection>>;
+  // Global daily reset for strategies without their own (default: midnight UTC)
+  dailyReset?: DailyResetSetting;
+}
+
+// --- Position State Helpers ---
+
+export const createFlatPosition = (): PositionState => ({
+  direction: 'FLAT',
+  initialQuantity: 0,
+  remainingQuantity: 0,
+  entryPrice: 0,
+  highestPrice: 0,
+  lowestPrice: 0,
+  openTime: 0,
+  tpLevelsHit: [],
+  slLevelsHit: [],
+  pendingReversion: null,
+  pendingReversionReason: '',
+  entryATR: 0,
+  atrStopPrice: 0,
+  atrTargetPrice: 0,
+  chandelierStop: 0,
+  breakEvenStop: 0,
+  breakEvenLockedLevel: 0,
+  breakEvenArmedAt: 0,
+  fixedTPHit: false,
+  fixedSLHit: false,
+  trailHit: false,
+  lastSignalExitTime: 0,
+  fills: [],
+  lastAddTime: 0,
+  realizedPnl: 0,
+  gridLevels: [],
+  gridKey: '',
+  gridLastPrice: 0,
+  gridBarTime: 0,
+  gridBarHigh: 0,
+  gridBarLow: 0
+});
+
+// ATR stop / target prices for the current multipliers (0 when no ATR was captured)
+export const getATRLevels = (direction: 'LONG' | 'SHORT', entryPrice: number, entryATR: number, config: StrategyConfig) => {
+  if (!(entryATR > 0)) return { atrStopPrice: 0, atrTargetPrice: 0 };
+  const sign = direction === 'LONG' ? 1 : -1;
+  return {
+    atrStopPrice: entryPrice - sign * config.atrStopMult * entryATR,
+    atrTargetPrice: config.atrTargetMult > 0 ? entryPrice + sign * config.atrTargetMult * entryATR : 0
+  };
+};
+
+// New position. `extreme` seeds the trailing high (long) / low (short), defaults to the entry price.
+export const createOpenPosition = (
+  direction: 'LONG' | 'SHORT',
+  quantity: number,
+  entryPrice: number,
+  openTime: number,
+  config: StrategyConfig,
+  atr?: number,
+  extreme: number = entryPrice
+): PositionState => {
+  const entryATR = atr !== undefined && atr > 0 ? atr : 0;
+  return {
+    ...createFlatPosition(),
+    direction,
+    initialQuantity: quantity,
+    remainingQuantity: quantity,
+    entryPrice,
+    highestPrice: direction === 'LONG' ? extreme : 0,
+    lowestPrice: direction === 'SHORT' ? extreme : 0,
+    openTime,
+    entryATR,
+    ...getATRLevels(direction, entryPrice, entryATR, config),
+    fills: [{ price: entryPrice, quantity, time: openTime }]
+  };
+};
+
+// Scale into an open position. entryPrice becomes the volume-weighted average of all fills,
+// so every TP/SL/trailing level (all derived from entryPrice) follows the new average.
+export const addFill = (position: PositionState, price: number, quantity: number, time: number): PositionState => {
+  // MIGRATION: positions saved before pyramiding have no fills - seed with the original entry
+  const previous: PositionFill[] = position.fills.length > 0
+    ? position.fills
+    : [{ price: position.entryPrice, quantity: position.initialQuantity, time: position.openTime }];
+  const fills = [...previous, { price, quantity, time }];
+
+  const totalQty = fills.reduce((sum, f) => sum + f.quantity, 0);
+  const totalValue = fills.reduce((sum, f) => sum + f.price * f.quantity, 0);
+
+  return {
+    ...position,
+    fills,
+    entryPrice: totalQty > 0 ? totalValue / totalQty : price,
+    initialQuantity: position.initialQuantity + quantity,
+    remainingQuantity: position.remainingQuantity + quantity
+  };
+};
+
+// EMA stack direction of a single enriched candle
+export const getTrendDirection = (candle: Candle): TrendDirection => {
+  if (candle.emaFast === undefined || candle.emaMid === undefined || candle.emaSlow === undefined) return 'NONE';
+  if (candle.emaFast > candle.emaMid && candle.emaMid > candle.emaSlow) return 'UP';
+  if (candle.emaFast < candle.emaMid && candle.emaMid < candle.emaSlow) return 'DOWN';
+  return 'NONE';
+};
+
+// Trend of the last closed candle (the forming one would repaint until it closes)
+export const getClosedTrend = (candles: Candle[]): TrendDirection => {
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if (candles[i].isClosed) return getTrendDirection(candles[i]);
+  }
+  return 'NONE';
+};
+
+// Helper to generate Payload
+// Updated to match strict requirement: 
+// quantity: "{{strategy.order.contracts}}"
+export const buildPayload = (
+  config: StrategyConfig,
+  act: string,
+  pos: string,
+  comment: string,
+  amountVal: number,
+  qty: number,
+  price: number,
+  now: Date,
+  sizing: string = config.sizingMode,
+  orderType: OrderType = 'market'
+): WebhookPayload => {
+  // COIN-M: qty is contracts, so the USD amount is their face value whatever the caller priced it at
+  const contractSize = getContractSize(config);
+  return {
+    secret: config.secret,
+    action: act,
+    position: pos,
+    symbol: config.symbol,
+    quantity: qty.toString(), // Mapped strictly to required "quantity" field
+    trade_amount: contractSize > 0 ? qty * contractSize : amountVal, // Kept for internal/UI use
+    leverage: getEffectiveLeverage(config),
+    timestamp: now.toISOString(),
+    tv_exchange: config.tvExchange || "BINANCE",
+    strategy_name: config.name,
+    tp_level: comment,
+    execution_price: price,
+    execution_quantity: qty,
+    sizing,
+    margin_mode: config.marginMode.toLowerCase(),
+    order_type: orderType,
+    ...(contractSize > 0 ? { contract_size: contractSize } : {})
+  };
+};
+
+// Time zone of the daily / weekend cut-offs: the session's when a schedule is set, otherwise the trading day's
+export const getTimeExitTimezone = (config: StrategyConfig, globalReset?: DailyResetSetting): string =>
+  config.useSchedule ? config.scheduleTimezone : resolveDailyReset(config, globalReset).timezone;
+
+// Most recent "HH:MM" in `timeZone` at or before `nowMs`, optionally pinned to a weekday (0 = Sunday). 0 = invalid time.
+const getLastCutoff = (nowMs: number, hhmm: string, timeZone: string, weekday?: number): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!match) return 0;
+  const target = parseInt(match[1]) * 60 + parseInt(match[2]);
+  const local = getZonedTime(nowMs, timeZone);
+
+  // Whole local days back to the cut-off: today if it has passed, otherwise the day before (or the weekday's last one)
+  let daysBack = local.minutes >= target ? 0 : 1;
+  if (weekday !== undefined) daysBack += (local.weekday - daysBack - weekday + 14) % 7;
+
+  // Wall-clock midnight of today, back `daysBack` days to HH:MM, then to UTC (DST edges resolved there)
+  const dayMs = 24 * 60 * 60 * 1000;
+  const localMidnight = Math.floor((nowMs + getZoneOffset(nowMs, timeZone)) / dayMs) * dayMs;
+  return fromZonedTime(localMidnight - daysBack * dayMs + target * 60 * 1000, timeZone);
+};
+
+// Gross PnL (USDT) of closing `quantity` of the position at `price`.
+// COIN-M quantities are contracts: their face value earns coin, valued at the exit price (as in the ledger).
+export const getExitPnl = (config: StrategyConfig, position: PositionState, quantity: number, price: number): number => {
+  const sign = position.direction === 'SHORT' ? -1 : 1;
+  const contractSize = getContractSize(config);
+  return contractSize > 0 && position.entryPrice > 0
+    ? (price - position.entryPrice) * sign * quantity * contractSize / position.entryPrice
+    : (price - position.entryPrice) * sign * quantity;
+};
+
+// End of the post-exit cooldown (0 = none). Bar cooldowns end when the Nth bar after the exit bar opens.
+const getCooldown = (config: StrategyConfig, exitMs: number, isLoss: boolean): { until: number; reason: string } => {
+  const length = isLoss && config.cooldownAfterLoss > 0 ? config.cooldownAfterLoss : config.cooldownAfterExit;
+  if (!config.useCooldown || !(length > 0)) return { until: 0, reason: '' };
+
+  const label = isLoss ? '亏损后冷却' : '平仓后冷却';
+  if (config.cooldownUnit === 'MINUTES') {
+    return { until: exitMs + length * 60000, reason: `${label} ${length}分钟` };
+  }
+  const intervalMs = intervalToMs(config.interval);
+  return { until: (Math.floor(exitMs / intervalMs) + length) * intervalMs, reason: `${label} ${length}根K线` };
+};
+
+// Cooldown after the full close of `position` (`closeQty` at `closePrice`). Every way a position ends
+// (engine exit, grid, manual FLAT, risk flatten) goes through here; a loss is judged on the whole round trip.
+export const getCloseCooldown = (config: StrategyConfig, position: PositionState, closeQty: number, closePrice: number, exitMs: number) =>
+  getCooldown(config, exitMs, position.realizedPnl + getExitPnl(config, position, closeQty, closePrice) < 0);
+
+// Reason of the first time exit that is due ('' = none). Positions without an openTime (old saved state) never expire.
+const getTimeExitReason = (config: StrategyConfig, position: PositionState, candleTime: number, nowMs: number, timeZone: string): string => {
+  const openTime = position.openTime;
+  if (!(openTime > 0)) return '';
+
+  // Bars that opened after the entry
+  if (config.maxBarsHeld > 0) {
+    const barsHeld = candleTime > openTime ? Math.ceil((candleTime - openTime) / intervalToMs(config.interval)) : 0;
+    if (barsHeld >= config.maxBarsHeld) return `超时平仓 (${config.maxBarsHeld}根K线)`;
+  }
+  if (config.maxHoldMinutes > 0 && nowMs - openTime >= config.maxHoldMinutes * 60000) {
+    return `超时平仓 (${config.maxHoldMinutes}分钟)`;
+  }
+  // Cut-offs only close positions that were already open when the cut-off passed
+  if (config.useCloseAtTime) {
+    const cutoff = getLastCutoff(nowMs, config.closeAtTime, timeZone);
+    if (cutoff > 0 && openTime < cutoff) return `定时平仓 (${config.closeAtTime} ${timeZone})`;
+  }
+  if (config.useCloseBeforeWeekend) {
+    const cutoff = getLastCutoff(nowMs, config.weekendCloseTime, timeZone, 5);
+    if (cutoff > 0 && openTime < cutoff) return '周末前平仓';
+  }
+  return '';
+};
+
 export const evaluateStrategy = (
   candles: Candle[],
   config: StrategyConfig,
   currentPosition: PositionState,
-  tradeStats: TradeStats
+  tradeStats: TradeStats,
+  context: EvaluationContext = {}
 ): StrategyResult => {
   const actions: WebhookPayload[] = [];
   let nextPos = { ...currentPosition };
   let nextStats = { ...tradeStats };
 
-  // 1. Basic Validation - Ensure enough data for indicators (EMA99 needs ~100+ candles to settle, but strict check here)
+  // 1. Basic Validation - Ensure enough data for indicators (slow EMA needs ~period+ candles to settle, but strict check here)
   if (candles.length < 50 || !config.isActive) {
     return { newPositionState: nextPos, newTradeStats: nextStats, actions };
   }
@@ -32,8 +272,8 @@ export const evaluateStrategy = (
 
   const last = candles[candles.length - 1];
   const prev = candles[candles.length - 2];
-  const now = new Date();
-  const dateKey = now.toISOString().split('T')[0]; // YYYY-MM-DD
+  const now = context.now || new Date();
+  const dateKey = getTradingDayKey(now.getTime(), resolveDailyReset(config, context.dailyReset)); // YYYY-MM-DD
 
   // Reset daily stats if new day
   if (nextStats.lastTradeDate !== dateKey) {
@@ -43,42 +283,62 @@ export const evaluateStrategy = (
 
   // --- Check Trigger Mode for Signals ---
   // If triggerOnClose is true, only evaluate signals if the candle is closed.
-  // Note: This applies to EMA/MACD Entries and Exits. TP/SL is always realtime.
+  // Note: This applies to all indicator Entries and Exits. TP/SL is always realtime.
   const isSignalTrigger = config.triggerOnClose ? last.isClosed : true;
 
 
   // --- 3. Check Technical Signals ---
   
-  if (last.ema7 === undefined || last.ema25 === undefined || last.ema99 === undefined) {
+  if (last.emaFast === undefined || last.emaMid === undefined || last.emaSlow === undefined) {
     return { newPositionState: nextPos, newTradeStats: nextStats, actions };
   }
+
+  // Labels for reason strings (e.g. "EMA7上穿25开多")
+  const F = config.emaFastPeriod;
+  const M = config.emaMidPeriod;
+  const S = config.emaSlowPeriod;
   
   // Trend Filter Logic
-  const isTrendLong = (last.ema7 > last.ema25 && last.ema25 > last.ema99);
-  const isTrendShort = (last.ema7 < last.ema25 && last.ema25 < last.ema99);
+  const trend = getTrendDirection(last);
+  const isTrendLong = trend === 'UP';
+  const isTrendShort = trend === 'DOWN';
+
+  // Multi-Timeframe Confirmation: every active filter has to agree with the entry direction
+  const htfAgrees = (direction: 'UP' | 'DOWN') => {
+    if (!config.useHtfFilter) return true;
+    return config.htfFilters.filter(f => f.active).every(f => {
+      // A filter on the strategy's own interval reads the candles we already have
+      const htfTrend = f.interval === config.interval ? getClosedTrend(candles) : context.htfTrends?.[f.interval];
+      if (!htfTrend) return false; // No HTF data yet - stay out
+      return config.htfRequireAligned ? htfTrend === direction : htfTrend !== (direction === 'UP' ? 'DOWN' : 'UP');
+    });
+  };
   
+  // Spot can only sell what it holds - no short entries, reverses or pending short reversions
+  const canShort = resolveMarketType(config) !== 'SPOT';
+
   // Block flags
-  const blockShort = config.trendFilterBlockShort && isTrendLong; // If uptrend, block short
-  const blockLong = config.trendFilterBlockLong && isTrendShort;  // If downtrend, block long
+  const blockShort = !canShort || (config.trendFilterBlockShort && isTrendLong) || !htfAgrees('DOWN'); // If uptrend, block short
+  const blockLong = (config.trendFilterBlockLong && isTrendShort) || !htfAgrees('UP');  // If downtrend, block long
 
   // EMA Crosses
-  const ema7_25_Up = config.useEMA7_25 && crossOver(last.ema7, last.ema25, prev.ema7!, prev.ema25!);
-  const ema7_25_Down = config.useEMA7_25 && crossUnder(last.ema7, last.ema25, prev.ema7!, prev.ema25!);
+  const emaFastMid_Up = config.useEMAFastMid && crossOver(last.emaFast, last.emaMid, prev.emaFast!, prev.emaMid!);
+  const emaFastMid_Down = config.useEMAFastMid && crossUnder(last.emaFast, last.emaMid, prev.emaFast!, prev.emaMid!);
   
-  const ema7_99_Up = config.useEMA7_99 && crossOver(last.ema7, last.ema99, prev.ema7!, prev.ema99!);
-  const ema7_99_Down = config.useEMA7_99 && crossUnder(last.ema7, last.ema99, prev.ema7!, prev.ema99!);
+  const emaFastSlow_Up = config.useEMAFastSlow && crossOver(last.emaFast, last.emaSlow, prev.emaFast!, prev.emaSlow!);
+  const emaFastSlow_Down = config.useEMAFastSlow && crossUnder(last.emaFast, last.emaSlow, prev.emaFast!, prev.emaSlow!);
 
-  const ema25_99_Up = config.useEMA25_99 && crossOver(last.ema25, last.ema99, prev.ema25!, prev.ema99!);
-  const ema25_99_Down = config.useEMA25_99 && crossUnder(last.ema25, last.ema99, prev.ema25!, prev.ema99!);
+  const emaMidSlow_Up = config.useEMAMidSlow && crossOver(last.emaMid, last.emaSlow, prev.emaMid!, prev.emaSlow!);
+  const emaMidSlow_Down = config.useEMAMidSlow && crossUnder(last.emaMid, last.emaSlow, prev.emaMid!, prev.emaSlow!);
 
-  // Double EMA Cross (7 or 25 crossing 99)
-  const crossUp7_99 = crossOver(last.ema7, last.ema99, prev.ema7!, prev.ema99!);
-  const crossUp25_99 = crossOver(last.ema25, last.ema99, prev.ema25!, prev.ema99!);
-  const crossDown7_99 = crossUnder(last.ema7, last.ema99, prev.ema7!, prev.ema99!);
-  const crossDown25_99 = crossUnder(last.ema25, last.ema99, prev.ema25!, prev.ema99!);
+  // Double EMA Cross (Fast or Mid crossing Slow)
+  const crossUpFastSlow = crossOver(last.emaFast, last.emaSlow, prev.emaFast!, prev.emaSlow!);
+  const crossUpMidSlow = crossOver(last.emaMid, last.emaSlow, prev.emaMid!, prev.emaSlow!);
+  const crossDownFastSlow = crossUnder(last.emaFast, last.emaSlow, prev.emaFast!, prev.emaSlow!);
+  const crossDownMidSlow = crossUnder(last.emaMid, last.emaSlow, prev.emaMid!, prev.emaSlow!);
 
-  const emaDouble_Up = config.useEMADouble && (crossUp7_99 || crossUp25_99); // Union of crosses Up
-  const emaDouble_Down = config.useEMADouble && (crossDown7_99 || crossDown25_99); // Union of crosses Down
+  const emaDouble_Up = config.useEMADouble && (crossUpFastSlow || crossUpMidSlow); // Union of crosses Up
+  const emaDouble_Down = config.useEMADouble && (crossDownFastSlow || crossDownMidSlow); // Union of crosses Down
 
 
   // MACD
@@ -87,72 +347,117 @@ export const evaluateStrategy = (
   const macdSell = config.useMACD && last.macdLine !== undefined && last.macdSignal !== undefined &&
                    crossUnder(last.macdLine, last.macdSignal, prev.macdLine!, prev.macdSignal!); // Death Cross
 
+  // RSI - crossing back out of the oversold / overbought zone
+  const hasRSI = last.rsi !== undefined && prev.rsi !== undefined;
+  const rsiUpOversold = config.useRSI && hasRSI && crossOver(last.rsi!, config.rsiOversold, prev.rsi!, config.rsiOversold);
+  const rsiDownOverbought = config.useRSI && hasRSI && crossUnder(last.rsi!, config.rsiOverbought, prev.rsi!, config.rsiOverbought);
+
+  // Bollinger Bands - close re-entering the band after closing outside it
+  const hasBB = last.bbLower !== undefined && last.bbUpper !== undefined && prev.bbLower !== undefined && prev.bbUpper !== undefined;
+  const bbLowerReentry = config.useBB && hasBB && prev.close < prev.bbLower! && last.close >= last.bbLower!;
+  const bbUpperReentry = config.useBB && hasBB && prev.close > prev.bbUpper! && last.close <= last.bbUpper!;
+
+  // Supertrend - direction flip
+  const hasST = last.supertrendDir !== undefined && prev.supertrendDir !== undefined;
+  const supertrendFlipUp = config.useSupertrend && hasST && prev.supertrendDir === -1 && last.supertrendDir === 1;
+  const supertrendFlipDown = config.useSupertrend && hasST && prev.supertrendDir === 1 && last.supertrendDir === -1;
+
+  // VWAP - close crossing session VWAP
+  const hasVWAP = last.vwap !== undefined && prev.vwap !== undefined;
+  const vwapUp = config.useVWAP && hasVWAP && crossOver(last.close, last.vwap!, prev.close, prev.vwap!);
+  const vwapDown = config.useVWAP && hasVWAP && crossUnder(last.close, last.vwap!, prev.close, prev.vwap!);
+
+  // Rule Builder - a slot with no tree never fires
+  const ruleFires = (node: RuleNode | null) => config.useRuleBuilder && node !== null && evaluateRule(node, candles);
+  const rules = config.signalRules;
+
   // --- 4. Determine Entry Conditions (Specific Reasons) ---
   
   // ENTRY Logic: Blocked if manualTakeover is TRUE
   let longEntryReason = '';
   if (!config.manualTakeover && isSignalTrigger && !blockLong) { 
-     if (config.useEMA7_25 && config.ema7_25_Long && ema7_25_Up) longEntryReason = 'EMA7上穿25开多';
-     else if (config.useEMA7_99 && config.ema7_99_Long && ema7_99_Up) longEntryReason = 'EMA7上穿99开多';
-     else if (config.useEMA25_99 && config.ema25_99_Long && ema25_99_Up) longEntryReason = 'EMA25上穿99开多';
-     else if (config.useEMADouble && config.emaDoubleLong && emaDouble_Up) longEntryReason = 'EMA7/25上穿99开多';
+     if (config.useRuleBuilder) { if (ruleFires(rules.long)) longEntryReason = '规则开多'; }
+     else if (config.useEMAFastMid && config.emaFastMid_Long && emaFastMid_Up) longEntryReason = `EMA${F}上穿${M}开多`;
+     else if (config.useEMAFastSlow && config.emaFastSlow_Long && emaFastSlow_Up) longEntryReason = `EMA${F}上穿${S}开多`;
+     else if (config.useEMAMidSlow && config.emaMidSlow_Long && emaMidSlow_Up) longEntryReason = `EMA${M}上穿${S}开多`;
+     else if (config.useEMADouble && config.emaDoubleLong && emaDouble_Up) longEntryReason = `EMA${F}/${M}上穿${S}开多`;
      else if (config.useMACD && config.macdLong && macdBuy) longEntryReason = 'MACD金叉开多';
+     else if (config.useRSI && config.rsiLong && rsiUpOversold) longEntryReason = `RSI上穿${config.rsiOversold}开多`;
+     else if (config.useBB && config.bbLong && bbLowerReentry) longEntryReason = '收回布林下轨开多';
+     else if (config.useSupertrend && config.supertrendLong && supertrendFlipUp) longEntryReason = 'Supertrend翻多开多';
+     else if (config.useVWAP && config.vwapLong && vwapUp) longEntryReason = '上穿VWAP开多';
   }
 
   let shortEntryReason = '';
   if (!config.manualTakeover && isSignalTrigger && !blockShort) { 
-    if (config.useEMA7_25 && config.ema7_25_Short && ema7_25_Down) shortEntryReason = 'EMA7下穿25开空';
-    else if (config.useEMA7_99 && config.ema7_99_Short && ema7_99_Down) shortEntryReason = 'EMA7下穿99开空';
-    else if (config.useEMA25_99 && config.ema25_99_Short && ema25_99_Down) shortEntryReason = 'EMA25下穿99开空';
-    else if (config.useEMADouble && config.emaDoubleShort && emaDouble_Down) shortEntryReason = 'EMA7/25下穿99开空';
+    if (config.useRuleBuilder) { if (ruleFires(rules.short)) shortEntryReason = '规则开空'; }
+    else if (config.useEMAFastMid && config.emaFastMid_Short && emaFastMid_Down) shortEntryReason = `EMA${F}下穿${M}开空`;
+    else if (config.useEMAFastSlow && config.emaFastSlow_Short && emaFastSlow_Down) shortEntryReason = `EMA${F}下穿${S}开空`;
+    else if (config.useEMAMidSlow && config.emaMidSlow_Short && emaMidSlow_Down) shortEntryReason = `EMA${M}下穿${S}开空`;
+    else if (config.useEMADouble && config.emaDoubleShort && emaDouble_Down) shortEntryReason = `EMA${F}/${M}下穿${S}开空`;
     else if (config.useMACD && config.macdShort && macdSell) shortEntryReason = 'MACD死叉开空';
+    else if (config.useRSI && config.rsiShort && rsiDownOverbought) shortEntryReason = `RSI下穿${config.rsiOverbought}开空`;
+    else if (config.useBB && config.bbShort && bbUpperReentry) shortEntryReason = '跌回布林上轨开空';
+    else if (config.useSupertrend && config.supertrendShort && supertrendFlipDown) shortEntryReason = 'Supertrend翻空开空';
+    else if (config.useVWAP && config.vwapShort && vwapDown) shortEntryReason = '下穿VWAP开空';
   }
 
   // --- 5. Determine Exit Conditions (Specific Reasons) ---
   
   let exitLongReason = '';
   if (isSignalTrigger) {
-      if (config.useEMA7_25 && config.ema7_25_ExitLong && ema7_25_Down) exitLongReason = 'EMA7下穿25平多';
-      else if (config.useEMA7_99 && config.ema7_99_ExitLong && ema7_99_Down) exitLongReason = 'EMA7下穿99平多';
-      else if (config.useEMA25_99 && config.ema25_99_ExitLong && ema25_99_Down) exitLongReason = 'EMA25下穿99平多';
-      else if (config.useEMADouble && config.emaDoubleExitLong && emaDouble_Down) exitLongReason = 'EMA7/25下穿99平多';
+      if (config.useRuleBuilder) { if (ruleFires(rules.exitLong)) exitLongReason = '规则平多'; }
+      else if (config.useEMAFastMid && config.emaFastMid_ExitLong && emaFastMid_Down) exitLongReason = `EMA${F}下穿${M}平多`;
+      else if (config.useEMAFastSlow && config.emaFastSlow_ExitLong && emaFastSlow_Down) exitLongReason = `EMA${F}下穿${S}平多`;
+      else if (config.useEMAMidSlow && config.emaMidSlow_ExitLong && emaMidSlow_Down) exitLongReason = `EMA${M}下穿${S}平多`;
+      else if (config.useEMADouble && config.emaDoubleExitLong && emaDouble_Down) exitLongReason = `EMA${F}/${M}下穿${S}平多`;
       else if (config.useMACD && config.macdExitLong && macdSell) exitLongReason = 'MACD死叉平多';
+      else if (config.useRSI && config.rsiExitLong && rsiDownOverbought) exitLongReason = `RSI下穿${config.rsiOverbought}平多`;
+      else if (config.useBB && config.bbExitLong && bbUpperReentry) exitLongReason = '跌回布林上轨平多';
+      else if (config.useSupertrend && config.supertrendExitLong && supertrendFlipDown) exitLongReason = 'Supertrend翻空平多';
+      else if (config.useVWAP && config.vwapExitLong && vwapDown) exitLongReason = '下穿VWAP平多';
   }
 
   let exitShortReason = '';
   if (isSignalTrigger) {
-      if (config.useEMA7_25 && config.ema7_25_ExitShort && ema7_25_Up) exitShortReason = 'EMA7上穿25平空';
-      else if (config.useEMA7_99 && config.ema7_99_ExitShort && ema7_99_Up) exitShortReason = 'EMA7上穿99平空';
-      else if (config.useEMA25_99 && config.ema25_99_ExitShort && ema25_99_Up) exitShortReason = 'EMA25上穿99平空';
-      else if (config.useEMADouble && config.emaDoubleExitShort && emaDouble_Up) exitShortReason = 'EMA7/25上穿99平空';
+      if (config.useRuleBuilder) { if (ruleFires(rules.exitShort)) exitShortReason = '规则平空'; }
+      else if (config.useEMAFastMid && config.emaFastMid_ExitShort && emaFastMid_Up) exitShortReason = `EMA${F}上穿${M}平空`;
+      else if (config.useEMAFastSlow && config.emaFastSlow_ExitShort && emaFastSlow_Up) exitShortReason = `EMA${F}上穿${S}平空`;
+      else if (config.useEMAMidSlow && config.emaMidSlow_ExitShort && emaMidSlow_Up) exitShortReason = `EMA${M}上穿${S}平空`;
+      else if (config.useEMADouble && config.emaDoubleExitShort && emaDouble_Up) exitShortReason = `EMA${F}/${M}上穿${S}平空`;
       else if (config.useMACD && config.macdExitShort && macdBuy) exitShortReason = 'MACD金叉平空';
+      else if (config.useRSI && config.rsiExitShort && rsiUpOversold) exitShortReason = `RSI上穿${config.rsiOversold}平空`;
+      else if (config.useBB && config.bbExitShort && bbLowerReentry) exitShortReason = '收回布林下轨平空';
+      else if (config.useSupertrend && config.supertrendExitShort && supertrendFlipUp) exitShortReason = 'Supertrend翻多平空';
+      else if (config.useVWAP && config.vwapExitShort && vwapUp) exitShortReason = '上穿VWAP平空';
   }
 
 
   // --- 6. Execution State Machine ---
   
-  const canOpen = nextStats.dailyTradeCount < config.maxDailyTrades;
+  // Trading schedule: outside the session / in a blackout nothing new opens (reverse and adds included)
+  const schedule = getScheduleStatus(config, now.getTime());
+  const canOpen = nextStats.dailyTradeCount < config.maxDailyTrades && schedule.canEnter;
+  const inCooldown = now.getTime() < (nextStats.cooldownUntil || 0);
 
-  // Helper to generate Payload
-  // Updated to match strict requirement: 
-  // quantity: "{{strategy.order.contracts}}"
-  const createPayload = (act: string, pos: string, comment: string, amountVal: number, qty: number): WebhookPayload => ({
-    secret: config.secret,
-    action: act,
-    position: pos,
-    symbol: config.symbol,
-    quantity: qty.toString(), // Mapped strictly to required "quantity" field
-    trade_amount: amountVal, // Kept for internal/UI use
-    leverage: 5,
-    timestamp: now.toISOString(),
-    tv_exchange: "BINANCE",
-    strategy_name: config.name,
-    tp_level: comment,
-    execution_price: last.close,
-    execution_quantity: qty
-  });
+  // Helper to generate Payload (filled at the current close; take-profit targets rest as limit orders)
+  const createPayload = (act: string, pos: string, comment: string, amountVal: number, qty: number, sizing?: string, orderType?: OrderType, price: number = last.close): WebhookPayload =>
+    buildPayload(config, act, pos, comment, amountVal, qty, price, now, sizing, orderType);
 
   // A. Check Exits/Updates for Existing Positions
+  //
+  // Exit pipeline - stages run in this order on every evaluation; a full close stops the pipeline.
+  //   1. Signal exit        signalExitQtyPct of remaining (once per candle)
+  //   2. Multi-level TP/SL  each level: its qtyPct of the initial quantity (+ Break-Even stop: full remaining)
+  //   3. Fixed TP/SL        fixedTPSLQtyPct of remaining (TP and SL fire once each)
+  //   4. ATR stop/target    full remaining
+  //   5. Chandelier stop    full remaining
+  //   6. Trailing stop      trailQtyPct of remaining (fires once)
+  //   7. Time exits         full remaining (max bars / max duration / daily cut-off / before weekend)
+  //   8. Schedule flatten   full remaining (ahead of / during a blackout window marked `flatten`)
+  // Partial exits carry the share in tp_level, e.g. "固定止盈触发 (50%)"; full closes use the plain reason.
+  // Level exits (TP / SL / break-even / ATR / chandelier / trailing) fill at their level - or at the open when
+  // the bar gapped through it - not at the close of the bar that touched it. The others fill at the close.
   if (nextPos.direction !== 'FLAT') {
       
       const isLong = nextPos.direction === 'LONG';
@@ -160,44 +465,44 @@ export const evaluateStrategy = (
       const currentPrice = last.close;
 
       let finalCloseReason = '';
+      let finalCloseOrderType: OrderType = 'market';
+      let finalClosePrice = currentPrice;
+
+      // Fill of a level this bar traded through: `rising` = price had to rise to reach it (long TP, short stop)
+      const levelFill = (level: number, rising: boolean): number =>
+          rising ? Math.max(level, last.open) : Math.min(level, last.open);
+
+      const closeAll = (reason: string, price: number = currentPrice, orderType: OrderType = 'market') => {
+          finalCloseReason = reason;
+          finalClosePrice = price;
+          finalCloseOrderType = orderType;
+      };
+
+      // Close `sharePct`% of the remaining quantity at `price`. 100% hands over to the full close below.
+      const exitShare = (reason: string, sharePct: number, price: number = currentPrice, orderType: OrderType = 'market') => {
+          if (!(sharePct < 100)) {
+              closeAll(reason, price, orderType);
+              return;
+          }
+          const qty = Math.min(roundQuantity(config, nextPos.remainingQuantity * (sharePct / 100)), nextPos.remainingQuantity);
+          if (qty <= 0.000001) return; // Below the lot size
+          nextPos.realizedPnl += getExitPnl(config, nextPos, qty, price);
+
+          // Closing Short = BUY, Closing Long = SELL
+          actions.push(createPayload(isLong ? 'sell' : 'buy', nextPos.direction.toLowerCase(), `${reason} (${sharePct}%)`, qty * price, qty, undefined, orderType, price));
+          nextPos.remainingQuantity = Math.max(0, nextPos.remainingQuantity - qty);
+      };
+      const isOpen = () => !finalCloseReason && nextPos.remainingQuantity > 0.000001;
       
-      // 1. Signal Exit (Highest Priority for Full Close)
-      if (isLong && exitLongReason) finalCloseReason = exitLongReason;
-      if (!isLong && exitShortReason) finalCloseReason = exitShortReason;
-
-      // 2. Fixed TP/SL (Only if Trailing and Multi are OFF, OR as per instruction)
-      if (config.useFixedTPSL && !config.useTrailingStop && !config.useMultiTPSL && !finalCloseReason) {
-          // Use High/Low for more accurate hit detection within the candle
-          const longTPHit = isLong && last.high >= entryPrice * (1 + config.takeProfitPct/100);
-          const longSLHit = isLong && last.low <= entryPrice * (1 - config.stopLossPct/100);
-          const shortTPHit = !isLong && last.low <= entryPrice * (1 - config.takeProfitPct/100);
-          const shortSLHit = !isLong && last.high >= entryPrice * (1 + config.stopLossPct/100);
-
-          if (longTPHit || shortTPHit) finalCloseReason = '固定止盈触发';
-          else if (longSLHit || shortSLHit) finalCloseReason = '固定止损触发';
-      }
-
-      // 3. Trailing Stop
-      if (config.useTrailingStop && !finalCloseReason) {
-         if (isLong) {
-            nextPos.highestPrice = Math.max(nextPos.highestPrice, last.high);
-            const stopPrice = nextPos.highestPrice * (1 - config.trailDistance / 100);
-            const activationPrice = entryPrice * (1 + config.trailActivation / 100);
-            if (nextPos.highestPrice >= activationPrice && last.low <= stopPrice) {
-               finalCloseReason = '追踪止盈触发';
-            }
-         } else {
-            nextPos.lowestPrice = Math.min(nextPos.lowestPrice, last.low);
-            const stopPrice = nextPos.lowestPrice * (1 + config.trailDistance / 100);
-            const activationPrice = entryPrice * (1 - config.trailActivation / 100);
-            if (nextPos.lowestPrice <= activationPrice && last.high >= stopPrice) {
-              finalCloseReason = '追踪止盈触发';
-            }
-         }
+      // 1. Signal Exit
+      const signalExitReason = isLong ? exitLongReason : exitShortReason;
+      if (signalExitReason && last.time !== nextPos.lastSignalExitTime) {
+          nextPos.lastSignalExitTime = last.time;
+          exitShare(signalExitReason, config.signalExitQtyPct);
       }
 
-      // 4. Multi-Level TP/SL
-      if (config.useMultiTPSL && !config.useTrailingStop && !finalCloseReason) {
+      // 2. Multi-Level TP/SL (each level closes its qtyPct of the INITIAL quantity)
+      if (config.useMultiTPSL && !finalCloseReason) {
           // Take Profits
           config.tpLevels.forEach((tp, idx) => {
               if (!tp.active || nextPos.tpLevelsHit[idx] || nextPos.remainingQuantity <= 0.000001) return;
@@ -210,25 +515,66 @@ export const evaluateStrategy = (
 
               if (hit) {
                   // Calculate Quantity based on Initial Quantity * Percentage
-                  const qtyToSell = nextPos.initialQuantity * (tp.qtyPct / 100);
+                  const qtyToSell = roundQuantity(config, nextPos.initialQuantity * (tp.qtyPct / 100));
                   // Ensure we don't sell more than remaining (floating point check)
                   const actualQty = Math.min(qtyToSell, nextPos.remainingQuantity);
-                  const tradeValue = actualQty * currentPrice;
+                  const fillPrice = levelFill(targetPrice, isLong);
+                  const tradeValue = actualQty * fillPrice;
 
-                  // FIX: Closing Short = BUY, Closing Long = SELL
+                  // FIX: Closing Short = BUY, Closing Long = SELL (levels below the lot size only get marked)
                   const action = isLong ? 'sell' : 'buy'; 
-                  actions.push(createPayload(action, nextPos.direction.toLowerCase(), `止盈${idx+1}触发`, tradeValue, actualQty));
+                  if (actualQty > 0.000001) actions.push(createPayload(action, nextPos.direction.toLowerCase(), `止盈${idx+1}触发`, tradeValue, actualQty, undefined, 'limit', fillPrice));
                   
                   // Update State
+                  nextPos.realizedPnl += getExitPnl(config, nextPos, actualQty, fillPrice);
                   nextPos.remainingQuantity = Math.max(0, nextPos.remainingQuantity - actualQty);
                   const newHits = [...nextPos.tpLevelsHit];
                   newHits[idx] = true;
                   nextPos.tpLevelsHit = newHits;
+
+                  // Break-Even: arm at the trigger level, optionally lock the previous TP on later levels
+                  const level = idx + 1;
+                  if (config.useBreakEven && level >= config.breakEvenTriggerLevel) {
+                      // Previous level that actually filled (inactive levels are skipped)
+                      const prevIdx = nextPos.tpLevelsHit.slice(0, idx).lastIndexOf(true);
+                      let stop = 0;
+                      let locked = 0;
+                      if (level === config.breakEvenTriggerLevel || !config.breakEvenLockPrevTP || prevIdx < 0) {
+                          stop = isLong ? entryPrice * (1 + config.breakEvenOffsetPct / 100) : entryPrice * (1 - config.breakEvenOffsetPct / 100);
+                      } else {
+                          const prevTP = config.tpLevels[prevIdx];
+                          stop = isLong ? entryPrice * (1 + prevTP.pct / 100) : entryPrice * (1 - prevTP.pct / 100);
+                          locked = prevIdx + 1;
+                      }
+                      // Only ever tighten
+                      const tighter = nextPos.breakEvenStop === 0 || (isLong ? stop > nextPos.breakEvenStop : stop < nextPos.breakEvenStop);
+                      if (tighter) {
+                          nextPos.breakEvenStop = stop;
+                          nextPos.breakEvenLockedLevel = locked;
+                          nextPos.breakEvenArmedAt = last.time;
+                      }
+                  }
               }
           });
 
-          // Stop Losses
+          // Break-Even Stop replaces the slLevels for the remaining quantity once armed.
+          // On the candle it was armed on only the current price counts (its extremes may predate the stop).
+          if (config.useBreakEven && nextPos.breakEvenStop > 0 && nextPos.remainingQuantity > 0.000001) {
+              const sameCandle = last.time <= nextPos.breakEvenArmedAt;
+              const probe = sameCandle ? last.close : (isLong ? last.low : last.high);
+              const hit = isLong ? probe <= nextPos.breakEvenStop : probe >= nextPos.breakEvenStop;
+              if (hit) {
+                  closeAll(
+                      nextPos.breakEvenLockedLevel > 0 ? `锁定止盈${nextPos.breakEvenLockedLevel}触发` : '保本止损触发',
+                      sameCandle ? last.close : levelFill(nextPos.breakEvenStop, !isLong)
+                  );
+              }
+          }
+
+          // Stop Losses (superseded by an armed Break-Even stop)
+          const breakEvenArmed = config.useBreakEven && nextPos.breakEvenStop > 0;
           config.slLevels.forEach((sl, idx) => {
+             if (breakEvenArmed || finalCloseReason) return;
              if (!sl.active || nextPos.slLevelsHit[idx] || nextPos.remainingQuantity <= 0.000001) return;
              
              const targetPrice = isLong 
@@ -238,14 +584,16 @@ export const evaluateStrategy = (
              const hit = isLong ? last.low <= targetPrice : last.high >= targetPrice;
 
              if (hit) {
-                  const qtyToSell = nextPos.initialQuantity * (sl.qtyPct / 100);
+                  const qtyToSell = roundQuantity(config, nextPos.initialQuantity * (sl.qtyPct / 100));
                   const actualQty = Math.min(qtyToSell, nextPos.remainingQuantity);
-                  const tradeValue = actualQty * currentPrice;
+                  const fillPrice = levelFill(targetPrice, !isLong);
+                  const tradeValue = actualQty * fillPrice;
 
-                  // FIX: Closing Short = BUY, Closing Long = SELL
+                  // FIX: Closing Short = BUY, Closing Long = SELL (levels below the lot size only get marked)
                   const action = isLong ? 'sell' : 'buy';
-                  actions.push(createPayload(action, nextPos.direction.toLowerCase(), `止损${idx+1}触发`, tradeValue, actualQty));
+                  if (actualQty > 0.000001) actions.push(createPayload(action, nextPos.direction.toLowerCase(), `止损${idx+1}触发`, tradeValue, actualQty, undefined, 'market', fillPrice));
 
+                  nextPos.realizedPnl += getExitPnl(config, nextPos, actualQty, fillPrice);
                   nextPos.remainingQuantity = Math.max(0, nextPos.remainingQuantity - actualQty);
                   const newHits = [...nextPos.slLevelsHit];
                   newHits[idx] = true;
@@ -254,6 +602,86 @@ export const evaluateStrategy = (
           });
       }
 
+
+      // 3. Fixed TP/SL
+      if (config.useFixedTPSL && isOpen()) {
+          // Use High/Low for more accurate hit detection within the candle
+          const tpPrice = isLong ? entryPrice * (1 + config.takeProfitPct/100) : entryPrice * (1 - config.takeProfitPct/100);
+          const slPrice = isLong ? entryPrice * (1 - config.stopLossPct/100) : entryPrice * (1 + config.stopLossPct/100);
+          const tpHit = isLong ? last.high >= tpPrice : last.low <= tpPrice;
+          const slHit = isLong ? last.low <= slPrice : last.high >= slPrice;
+
+          if (tpHit && !nextPos.fixedTPHit) {
+              nextPos.fixedTPHit = true;
+              exitShare('固定止盈触发', config.fixedTPSLQtyPct, levelFill(tpPrice, isLong), 'limit');
+          } else if (slHit && !nextPos.fixedSLHit) {
+              nextPos.fixedSLHit = true;
+              exitShare('固定止损触发', config.fixedTPSLQtyPct, levelFill(slPrice, !isLong));
+          }
+      }
+
+      // Positions opened without an ATR (warm-up, manual takeover, restored state) capture it on the first bar that has one
+      if (!(nextPos.entryATR > 0) && last.atr !== undefined) {
+          nextPos.entryATR = last.atr;
+      }
+      Object.assign(nextPos, getATRLevels(nextPos.direction as 'LONG' | 'SHORT', entryPrice, nextPos.entryATR, config));
+
+      // 4. ATR Stop / Target (full close)
+      if (config.useATRStops && isOpen() && nextPos.atrStopPrice > 0) {
+          const targetHit = nextPos.atrTargetPrice > 0 && (isLong ? last.high >= nextPos.atrTargetPrice : last.low <= nextPos.atrTargetPrice);
+          const stopHit = isLong ? last.low <= nextPos.atrStopPrice : last.high >= nextPos.atrStopPrice;
+
+          if (targetHit) closeAll('ATR止盈触发', levelFill(nextPos.atrTargetPrice, isLong), 'limit');
+          else if (stopHit) closeAll('ATR止损触发', levelFill(nextPos.atrStopPrice, !isLong));
+      }
+
+      // 5. Chandelier Trailing Stop (current ATR, only ever tightens)
+      if (config.useChandelierStop && isOpen() && last.atr !== undefined) {
+         if (isLong) {
+            nextPos.highestPrice = Math.max(nextPos.highestPrice, last.high);
+            const level = nextPos.highestPrice - config.chandelierMult * last.atr;
+            nextPos.chandelierStop = Math.max(nextPos.chandelierStop, level);
+            if (last.low <= nextPos.chandelierStop) closeAll('ATR吊灯止损触发', levelFill(nextPos.chandelierStop, false));
+         } else {
+            nextPos.lowestPrice = Math.min(nextPos.lowestPrice, last.low);
+            const level = nextPos.lowestPrice + config.chandelierMult * last.atr;
+            nextPos.chandelierStop = nextPos.chandelierStop > 0 ? Math.min(nextPos.chandelierStop, level) : level;
+            if (last.high >= nextPos.chandelierStop) closeAll('ATR吊灯止损触发', levelFill(nextPos.chandelierStop, true));
+         }
+      }
+
+      // 6. Trailing Stop
+      if (config.useTrailingStop && isOpen() && !nextPos.trailHit) {
+         let trailHit = false;
+         let stopPrice = 0;
+         if (isLong) {
+            nextPos.highestPrice = Math.max(nextPos.highestPrice, last.high);
+            stopPrice = nextPos.highestPrice * (1 - config.trailDistance / 100);
+            const activationPrice = entryPrice * (1 + config.trailActivation / 100);
+            trailHit = nextPos.highestPrice >= activationPrice && last.low <= stopPrice;
+         } else {
+            nextPos.lowestPrice = Math.min(nextPos.lowestPrice, last.low);
+            stopPrice = nextPos.lowestPrice * (1 + config.trailDistance / 100);
+            const activationPrice = entryPrice * (1 - config.trailActivation / 100);
+            trailHit = nextPos.lowestPrice <= activationPrice && last.high >= stopPrice;
+         }
+         if (trailHit) {
+            nextPos.trailHit = true;
+            exitShare('追踪止盈触发', config.trailQtyPct, levelFill(stopPrice, !isLong));
+         }
+      }
+
+      // 7. Time Exits
+      if (config.useTimeExit && isOpen()) {
+         const timeExitReason = getTimeExitReason(config, nextPos, last.time, now.getTime(), getTimeExitTimezone(config, context.dailyReset));
+         if (timeExitReason) closeAll(timeExitReason);
+      }
+
+      // 8. Schedule Flatten
+      if (schedule.flattenReason && isOpen()) {
+         closeAll(schedule.flattenReason);
+      }
+
       // Check if position is effectively closed by partials
       if (nextPos.remainingQuantity <= 0.000001 && !finalCloseReason) {
            finalCloseReason = "全部止盈/止损完成";
@@ -265,120 +693,112 @@ export const evaluateStrategy = (
           // So we check > 0
           if (nextPos.remainingQuantity > 0.000001) {
              const qtyToClose = nextPos.remainingQuantity;
-             const tradeValue = qtyToClose * currentPrice;
+             const tradeValue = qtyToClose * finalClosePrice;
              
              // VERIFIED: Close Long -> SELL. Close Short -> BUY.
              const actionStr = isLong ? 'sell' : 'buy';
              
-             actions.push(createPayload(actionStr, 'flat', finalCloseReason, tradeValue, qtyToClose));
+             actions.push(createPayload(actionStr, 'flat', finalCloseReason, tradeValue, qtyToClose, undefined, finalCloseOrderType, finalClosePrice));
           }
-          
-          nextPos = {
-            direction: 'FLAT',
-            initialQuantity: 0,
-            remainingQuantity: 0,
-            entryPrice: 0,
-            highestPrice: 0,
-            lowestPrice: 0,
-            openTime: 0,
-            tpLevelsHit: [],
-            slLevelsHit: [],
-            pendingReversion: null,
-            pendingReversionReason: ''
-          };
+
+          // Cooldown before the next fresh entry (longer after a losing round trip, partial exits included)
+          const cooldown = getCloseCooldown(config, nextPos, Math.max(0, nextPos.remainingQuantity), finalClosePrice, now.getTime());
+
+          nextPos = createFlatPosition();
           nextStats.dailyTradeCount++;
+          nextStats.cooldownUntil = cooldown.until;
+          nextStats.cooldownReason = cooldown.reason;
           
-          // REVERSE LOGIC - Only if Manual Takeover is NOT active
+          // REVERSE LOGIC (exempt from the cooldown - it is part of the exit) - Only if Manual Takeover is NOT active
           const isSignalExit = (isLong && finalCloseReason === exitLongReason) || 
                                (!isLong && finalCloseReason === exitShortReason);
 
           if (config.useReverse && isSignalExit && !config.manualTakeover) {
-             const newQty = config.tradeAmount / last.close;
-             const tradeVal = config.tradeAmount;
+             const size = calculateEntrySize(config, last.close, last.atr);
+             const newQty = size.quantity;
+             const tradeVal = size.amount;
 
-             if (isLong && config.reverseLongToShort && canOpen) {
+             // newQty = 0: below the minimum order size, stay flat
+             if (newQty > 0 && isLong && config.reverseLongToShort && canShort && canOpen) {
                 // Open Short (from Flat) -> Sell
-                actions.push(createPayload('sell', 'short', '反手开空', tradeVal, newQty));
-                nextPos = {
-                  direction: 'SHORT',
-                  initialQuantity: newQty,
-                  remainingQuantity: newQty,
-                  entryPrice: last.close,
-                  highestPrice: 0,
-                  lowestPrice: last.low,
-                  openTime: now.getTime(),
-                  tpLevelsHit: [],
-                  slLevelsHit: [],
-                  pendingReversion: null,
-                  pendingReversionReason: ''
-                };
-             } else if (!isLong && config.reverseShortToLong && canOpen) {
+                actions.push(createPayload('sell', 'short', '反手开空', tradeVal, newQty, size.note));
+                nextPos = createOpenPosition('SHORT', newQty, last.close, now.getTime(), config, last.atr, last.low);
+             } else if (newQty > 0 && !isLong && config.reverseShortToLong && canOpen) {
                 // Open Long (from Flat) -> Buy
-                actions.push(createPayload('buy', 'long', '反手开多', tradeVal, newQty));
-                nextPos = {
-                  direction: 'LONG',
-                  initialQuantity: newQty,
-                  remainingQuantity: newQty,
-                  entryPrice: last.close,
-                  highestPrice: last.high,
-                  lowestPrice: 0,
-                  openTime: now.getTime(),
-                  tpLevelsHit: [],
-                  slLevelsHit: [],
-                  pendingReversion: null,
-                  pendingReversionReason: ''
-                };
+                actions.push(createPayload('buy', 'long', '反手开多', tradeVal, newQty, size.note));
+                nextPos = createOpenPosition('LONG', newQty, last.close, now.getTime(), config, last.atr, last.high);
              }
           }
           return { newPositionState: nextPos, newTradeStats: nextStats, actions };
       }
+
+      // Pyramiding - add on a same-direction signal (or a pullback to the fast EMA) once price has
+      // moved pyramidMinMovePct in our favour since the last fill. One add per candle, same gates as a fresh entry.
+      if (config.usePyramiding && canOpen && !config.manualTakeover && last.time !== nextPos.lastAddTime) {
+          const addsDone = Math.max(0, nextPos.fills.length - 1);
+          const lastFillPrice = nextPos.fills.length > 0 ? nextPos.fills[nextPos.fills.length - 1].price : entryPrice;
+          const movedEnough = isLong
+              ? currentPrice >= lastFillPrice * (1 + config.pyramidMinMovePct / 100)
+              : currentPrice <= lastFillPrice * (1 - config.pyramidMinMovePct / 100);
+
+          const pullback = config.pyramidOnPullback && isSignalTrigger && !(isLong ? blockLong : blockShort) &&
+                           (isLong ? last.low <= last.emaFast : last.high >= last.emaFast);
+          const addReason = (isLong ? longEntryReason : shortEntryReason) || (pullback ? `回踩EMA${F}` : '');
+
+          // Add size = pyramidAddPct of tradeAmount, whatever the sizing mode of the first entry
+          const addNotional = config.tradeAmount * (config.pyramidAddPct / 100);
+          const addQty = roundQuantity(config, notionalToQuantity(config, addNotional, currentPrice));
+
+          if (addsDone < config.pyramidMaxAdds && movedEnough && addReason && addQty > 0) {
+              const addValue = addQty * currentPrice;
+              actions.push(createPayload(isLong ? 'buy' : 'sell', nextPos.direction.toLowerCase(), `加仓${addsDone + 1}: ${addReason}`, addValue, addQty, `固定 ${config.tradeAmount}U × ${config.pyramidAddPct}%`));
+              nextPos = addFill(nextPos, currentPrice, addQty, now.getTime());
+              nextPos.lastAddTime = last.time;
+          }
+      }
   }
 
-  // B. Check Entries (Only if FLAT and Manual Takeover is FALSE)
-  if (nextPos.direction === 'FLAT' && canOpen && !config.manualTakeover) {
+  // Entry size for the configured sizing mode, rounded to the lot step (0 = below the minimum order size)
+  const entrySize = calculateEntrySize(config, last.close, last.atr);
+
+  // B. Check Entries (Only if FLAT, outside the cooldown and Manual Takeover is FALSE)
+  if (nextPos.direction === 'FLAT' && canOpen && !inCooldown && !config.manualTakeover && entrySize.quantity > 0) {
       
-      const qty = config.tradeAmount / last.close;
-      const tradeVal = config.tradeAmount;
+      const qty = entrySize.quantity;
+      const tradeVal = entrySize.amount;
 
       // --- NEW: Price Reversion Logic ---
-      if (config.useReversionEntry && last.ema7) {
+      if (config.useReversionEntry && last.emaFast) {
           
           // 1. If we are already waiting for reversion
           if (nextPos.pendingReversion) {
-             const targetPrice = last.ema7 * (1 + config.reversionPct / 100);
+             const targetPrice = last.emaFast * (1 + config.reversionPct / 100);
              let trigger = false;
 
              if (nextPos.pendingReversion === 'LONG') {
-                 // Waiting for pullback to EMA7 (or near it)
+                 // Waiting for pullback to fast EMA (or near it)
                  // Trigger if Price is BELOW or EQUAL to Target
                  if (last.close <= targetPrice) trigger = true;
              } else if (nextPos.pendingReversion === 'SHORT') {
-                 // Waiting for rally to EMA7
+                 // Waiting for rally to fast EMA
                  // Trigger if Price is ABOVE or EQUAL to Target
                  if (last.close >= targetPrice) trigger = true;
              }
 
-             if (trigger) {
+             if (nextPos.pendingReversion === 'SHORT' && !canShort) {
+                 // Left over from before a switch to spot
+                 nextPos.pendingReversion = null;
+                 nextPos.pendingReversionReason = '';
+             } else if (trigger) {
                 // Execute the trade
                 const act = nextPos.pendingReversion === 'LONG' ? 'buy' : 'sell';
                 const pos = nextPos.pendingReversion.toLowerCase();
-                const reason = nextPos.pendingReversionReason + ` (回归EMA7触发)`;
+                const reason = nextPos.pendingReversionReason + ` (回归EMA${F}触发)`;
                 
-                actions.push(createPayload(act, pos, reason, tradeVal, qty));
-
-                nextPos = {
-                    direction: nextPos.pendingReversion,
-                    initialQuantity: qty,
-                    remainingQuantity: qty,
-                    entryPrice: last.close,
-                    highestPrice: nextPos.pendingReversion === 'LONG' ? last.high : 0,
-                    lowestPrice: nextPos.pendingReversion === 'SHORT' ? last.low : 0,
-                    openTime: now.getTime(),
-                    tpLevelsHit: [],
-                    slLevelsHit: [],
-                    pendingReversion: null,
-                    pendingReversionReason: ''
-                };
+                actions.push(createPayload(act, pos, reason, tradeVal, qty, entrySize.note));
+
+                const direction = nextPos.pendingReversion;
+                nextPos = createOpenPosition(direction, qty, last.close, now.getTime(), config, last.atr, direction === 'LONG' ? last.high : last.low);
                 return { newPositionState: nextPos, newTradeStats: nextStats, actions };
              } else {
                  // Check if signal invalidation happened? 
@@ -409,35 +829,11 @@ export const evaluateStrategy = (
       } else {
           // --- Standard Logic (Immediate Entry) ---
           if (longEntryReason) {
-              actions.push(createPayload('buy', 'long', longEntryReason, tradeVal, qty));
-              nextPos = {
-                direction: 'LONG',
-                initialQuantity: qty,
-                remainingQuantity: qty,
-                entryPrice: last.close,
-                highestPrice: last.high,
-                lowestPrice: 0,
-                openTime: now.getTime(),
-                tpLevelsHit: [],
-                slLevelsHit: [],
-                pendingReversion: null,
-                pendingReversionReason: ''
-              };
+              actions.push(createPayload('buy', 'long', longEntryReason, tradeVal, qty, entrySize.note));
+              nextPos = createOpenPosition('LONG', qty, last.close, now.getTime(), config, last.atr, last.high);
           } else if (shortEntryReason) {
-              actions.push(createPayload('sell', 'short', shortEntryReason, tradeVal, qty));
-              nextPos = {
-                direction: 'SHORT',
-                initialQuantity: qty,
-                remainingQuantity: qty,
-                entryPrice: last.close,
-                highestPrice: 0,
-                lowestPrice: last.low,
-                openTime: now.getTime(),
-                tpLevelsHit: [],
-                slLevelsHit: [],
-                pendingReversion: null,
-                pendingReversionReason: ''
-              };
+              actions.push(createPayload('sell', 'short', shortEntryReason, tradeVal, qty, entrySize.note));
+              nextPos = createOpenPosition('SHORT', qty, last.close, now.getTime(), config, last.atr, last.low);
           }
       }
   }
@@ -0,0 +1,57 @@
+
+import { SymbolInfo, SymbolType, ExchangeId, MarketType } from "../types";
+import { MARKET_SYMBOLS } from "../constants";
+import { MarketSource, resolveMarketType } from "./exchangeService";
+
+// A symbol on a venue + market (StrategyConfig and PreloadSymbol both fit)
+export type SymbolSource = Partial<MarketSource> & { symbol: SymbolType };
+
+// Loaded catalogue, shared by the sizing helpers (server: SymbolCatalogue, browser: the symbol_catalogue event)
+let catalogue = new Map<string, SymbolInfo>();
+
+const getCatalogueKey = (exchange: ExchangeId, marketType: MarketType, symbol: SymbolType): string =>
+  `${exchange}:${marketType}:${symbol.toUpperCase()}`;
+
+export const setSymbolCatalogue = (symbols: SymbolInfo[]) => {
+  catalogue = new Map(symbols.map(s => [getCatalogueKey(s.exchange, s.marketType, s.symbol), s]));
+};
+
+// Catalogue entry of `symbol` on the source's market (undefined = not loaded / unknown symbol)
+export const findSymbolInfo = (source: SymbolSource): SymbolInfo | undefined =>
+  catalogue.get(getCatalogueKey(source.exchange || 'BINANCE', resolveMarketType(source), source.symbol));
+
+// Symbols of one market from the catalogue, or the static fallback list before it has loaded
+export const getMarketSymbols = (symbols: SymbolInfo[], source: Partial<MarketSource>): SymbolInfo[] => {
+  const exchange = source.exchange || 'BINANCE';
+  const marketType = resolveMarketType(source);
+  const listed = symbols.filter(s => s.exchange === exchange && s.marketType === marketType);
+  if (listed.length > 0) return listed;
+
+  return MARKET_SYMBOLS[marketType].map(symbol => ({
+    symbol, exchange, marketType, status: 'TRADING', baseAsset: '', quoteAsset: '',
+    tickSize: 0, stepSize: 0, minQty: 0, minNotional: 0
+  }));
+};
+
+/**
+ * Picker search: exact symbol first, then symbols / base assets starting with the query, then the rest
+ * containing it. Open (TRADING) symbols rank before halted ones within each group.
+ */
+export const searchSymbols = (symbols: SymbolInfo[], query: string, limit: number = 50): SymbolInfo[] => {
+  const q = query.trim().toUpperCase();
+  const rank = (s: SymbolInfo): number => {
+    const closed = s.status === 'TRADING' ? 0 : 1;
+    if (!q) return closed;
+    if (s.symbol === q) return 0;
+    if (s.symbol.startsWith(q) || s.baseAsset === q) return 2 + closed;
+    if (s.symbol.includes(q)) return 4 + closed;
+    return -1;
+  };
+
+  return symbols
+    .map(s => ({ s, r: rank(s) }))
+    .filter(x => x.r >= 0)
+    .sort((a, b) => a.r - b.r || a.s.symbol.localeCompare(b.s.symbol))
+    .slice(0, limit)
+    .map(x => x.s);
+};
@@ -0,0 +1,40 @@
+
+// Wall-clock time in IANA time zones, shared by the daily reset, the trading schedule and the time exits.
+// Unknown zone names fall back to UTC rather than blocking the strategy.
+
+// Formatters are expensive to build - one per time zone
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatters[timeZone]) {
+    try {
+      formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+      });
+    } catch (e) {
+      formatters[timeZone] = getFormatter('UTC');
+    }
+  }
+  return formatters[timeZone];
+};
+
+// Offset of `timeZone` from UTC at `ms` (local wall clock = ms + offset)
+export const getZoneOffset = (ms: number, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(new Date(ms));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return wallClock - Math.floor(ms / 1000) * 1000;
+};
+
+// Weekday (0 = Sunday) and minute of the day of `ms` in `timeZone`
+export const getZonedTime = (ms: number, timeZone: string): { weekday: number; minutes: number } => {
+  const local = new Date(ms + getZoneOffset(ms, timeZone));
+  return { weekday: local.getUTCDay(), minutes: local.getUTCHours() * 60 + local.getUTCMinutes() };
+};
+
+// Local wall-clock time (as UTC ms) -> UTC timestamp (offset re-read at the result so DST edges land on the right hour)
+export const fromZonedTime = (local: number, timeZone: string): number => {
+  const guess = local - getZoneOffset(local, timeZone);
+  return local - getZoneOffset(guess, timeZone);
+};
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, ClosedTrade, StrategyConfig } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_MOCK_EXCHANGE } from '../constants';
+import { RandomWalkFeed } from '../server/MockExchange';
+import { runBacktest, calculateBacktestStats, DEFAULT_BACKTEST_OPTIONS } from '../services/backtestService';
+
+const MINUTE_MS = 60000;
+const ORIGIN = Date.UTC(2025, 0, 6);
+
+const trade = (pnl: number, fees = 0): ClosedTrade => ({
+  direction: 'LONG', entryTime: ORIGIN, exitTime: ORIGIN + MINUTE_MS, entryPrice: 100, exitPrice: 100,
+  quantity: 1, pnl, fees, entryReason: '', exitReason: ''
+});
+
+test('Backtest stats: win rate, profit factor, net PnL and drawdown', () => {
+  const curve = [10000, 10100, 9900, 10050].map((equity, i) => ({ time: ORIGIN + i * MINUTE_MS, equity }));
+  const stats = calculateBacktestStats([trade(100), trade(-200), trade(150)], curve, 10000, MINUTE_MS, 3);
+
+  assert.equal(stats.totalTrades, 3);
+  assert.ok(Math.abs(stats.winRate - 200 / 3) < 1e-9);
+  assert.equal(stats.profitFactor, 1.25);
+  assert.equal(stats.netPnl, 50);
+  assert.equal(stats.totalReturnPct, 0.5);
+  assert.equal(stats.maxDrawdown, 200);
+  assert.ok(Math.abs(stats.maxDrawdownPct - 200 / 101) < 1e-9);
+  assert.equal(stats.totalFees, 3);
+});
+
+test('Backtest stats: no losing trades caps the profit factor, no trades reports zeros', () => {
+  assert.equal(calculateBacktestStats([trade(10)], [], 10000, MINUTE_MS, 0).profitFactor, 999);
+
+  const empty = calculateBacktestStats([], [], 10000, MINUTE_MS, 0);
+  assert.equal(empty.totalTrades, 0);
+  assert.equal(empty.winRate, 0);
+  assert.equal(empty.profitFactor, 0);
+  assert.equal(empty.netPnl, 0);
+});
+
+test('Backtest on a random walk: stats agree with the trades and the equity curve', async () => {
+  const walk = new RandomWalkFeed('BTCUSDT', { ...DEFAULT_MOCK_EXCHANGE, seed: 7, historyBars: 600 });
+  const candles: Candle[] = walk.getCandles().filter(c => c.isClosed).map((c, i) => ({ ...c, time: ORIGIN + i * MINUTE_MS }));
+  const config: StrategyConfig = { ...DEFAULT_CONFIG, id: 'backtest_test', tradeAmount: 1000 };
+
+  const { trades, equityCurve, stats } = await runBacktest(candles, config);
+
+  assert.ok(trades.length > 0, 'expected trades on the walk');
+  assert.equal(stats.totalTrades, trades.length);
+  assert.equal(stats.winRate, trades.filter(t => t.pnl > 0).length / trades.length * 100);
+  const grossProfit = trades.filter(t => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = trades.filter(t => t.pnl < 0).reduce((sum, t) => sum - t.pnl, 0);
+  if (grossLoss > 0) assert.ok(Math.abs(stats.profitFactor - Math.min(grossProfit / grossLoss, 999)) < 1e-9);
+  assert.equal(stats.netPnl, equityCurve[equityCurve.length - 1].equity - DEFAULT_BACKTEST_OPTIONS.initialCapital);
+  assert.ok(stats.totalFees >= trades.reduce((sum, t) => sum + t.fees, 0) - 1e-9);
+});
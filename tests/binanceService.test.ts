@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fixtures from './fixtures/binance.json';
+import { binanceAdapter, binanceCoinMAdapter, fetchHistoricalCandles } from '../services/binanceService';
+import { stubFetch, quietly } from './helpers';
+
+test('Binance USDT-M klines: rows parsed, our symbol stamped, all closed', async () => {
+  const fetchStub = stubFetch(fixtures.usdtmKlines);
+  try {
+    const candles = await binanceAdapter.fetchKlines('BTCUSDT', '1m', 1760313600000);
+
+    assert.equal(fetchStub.urls[0], 'https://fapi.binance.com/fapi/v1/klines?symbol=BTCUSDT&interval=1m&limit=1500&startTime=1760313600000');
+    assert.deepEqual(candles[0], {
+      symbol: 'BTCUSDT', time: 1760313600000,
+      open: 62150.1, high: 62188, low: 62101.5, close: 62170.4, volume: 184.302, isClosed: true
+    });
+    assert.equal(candles.length, 2);
+    assert.ok(candles.every(c => c.isClosed));
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('Binance COIN-M klines: volume taken from the base asset column, not contracts', async () => {
+  const fetchStub = stubFetch(fixtures.coinmKlines);
+  try {
+    const candles = await binanceCoinMAdapter.fetchKlines('BTCUSD_PERP', '1m');
+
+    assert.ok(fetchStub.urls[0].startsWith('https://dapi.binance.com/dapi/v1/klines?symbol=BTCUSD_PERP'));
+    assert.equal(candles[0].symbol, 'BTCUSD_PERP');
+    assert.equal(candles[0].volume, 8.25283711);
+    assert.equal(candles[0].close, 62166.6);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('Binance klines: an error object is rejected as empty history', async () => {
+  const fetchStub = stubFetch(fixtures.errorResponse);
+  try {
+    assert.deepEqual(await quietly(() => fetchHistoricalCandles('NOPEUSDT', '1m')), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('Binance stream: forming and closed kline frames', () => {
+  const [forming] = binanceAdapter.parseMessage(JSON.stringify(fixtures.wsKlineOpen), 'BTCUSDT');
+  assert.deepEqual(forming, {
+    symbol: 'BTCUSDT', time: 1760313660000,
+    open: 62170.4, high: 62215, low: 62160, close: 62199.1, volume: 88.412, isClosed: false
+  });
+
+  const [closed] = binanceAdapter.parseMessage(JSON.stringify(fixtures.wsKlineClosed), 'BTCUSDT');
+  assert.equal(closed.isClosed, true);
+  assert.equal(closed.close, 62205.9);
+});
+
+test('Binance stream: COIN-M volume from k.q', () => {
+  const [kline] = binanceCoinMAdapter.parseMessage(JSON.stringify(fixtures.wsCoinmKline), 'BTCUSD_PERP');
+  assert.equal(kline.symbol, 'BTCUSD_PERP');
+  assert.equal(kline.volume, 8.25283711);
+  assert.equal(kline.isClosed, true);
+});
+
+test('Binance stream: other symbols, other channels and garbage are rejected', () => {
+  assert.deepEqual(binanceAdapter.parseMessage(JSON.stringify(fixtures.wsOtherSymbolKline), 'BTCUSDT'), []);
+  assert.deepEqual(binanceAdapter.parseMessage(JSON.stringify(fixtures.wsAggTrade), 'BTCUSDT'), []);
+  assert.deepEqual(binanceAdapter.parseMessage('not json', 'BTCUSDT'), []);
+});
+
+test('Binance stream: symbol match ignores case, our spelling is stamped', () => {
+  const [kline] = binanceAdapter.parseMessage(JSON.stringify(fixtures.wsKlineOpen), 'btcusdt');
+  assert.equal(kline.symbol, 'btcusdt');
+});
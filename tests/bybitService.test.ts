@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fixtures from './fixtures/bybit.json';
+import { bybitAdapter, fetchBybitKlines, parseBybitMessage } from '../services/bybitService';
+import { stubFetch, quietly } from './helpers';
+
+test('Bybit klines: newest-first rows come back oldest first with our symbol', async () => {
+  const fetchStub = stubFetch(fixtures.restKlines);
+  try {
+    const candles = await bybitAdapter.fetchKlines('BTCUSDT', '1h', 1760313600000);
+
+    // Start alone is capped to one page so paging forward leaves no holes
+    assert.equal(fetchStub.urls[0], `https://api.bybit.com/v5/market/kline?category=linear&symbol=BTCUSDT&interval=60&limit=1000&start=1760313600000&end=${1760313600000 + 1000 * 3600000 - 1}`);
+    assert.deepEqual(candles.map(c => c.time), [1760313600000, 1760313660000]);
+    assert.deepEqual(candles[0], {
+      symbol: 'BTCUSDT', time: 1760313600000,
+      open: 62150.1, high: 62188, low: 62101.5, close: 62170.4, volume: 151.067, isClosed: true
+    });
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('Bybit klines: retCode errors are rejected as empty history', async () => {
+  const fetchStub = stubFetch(fixtures.errorResponse);
+  try {
+    assert.deepEqual(await quietly(() => fetchBybitKlines('NOPEUSDT', '1m')), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('Bybit stream: confirm flag drives isClosed', () => {
+  const [forming] = parseBybitMessage(JSON.stringify(fixtures.wsKlineOpen), 'BTCUSDT');
+  assert.deepEqual(forming, {
+    symbol: 'BTCUSDT', time: 1760313660000,
+    open: 62170.4, high: 62215, low: 62160, close: 62199.1, volume: 71.502, isClosed: false
+  });
+
+  const [closed] = parseBybitMessage(JSON.stringify(fixtures.wsKlineClosed), 'BTCUSDT');
+  assert.equal(closed.isClosed, true);
+  assert.equal(closed.close, 62205.9);
+});
+
+test('Bybit stream: other symbols, trade topics, acks and pongs are rejected', () => {
+  assert.deepEqual(parseBybitMessage(JSON.stringify(fixtures.wsOtherSymbolKline), 'BTCUSDT'), []);
+  assert.deepEqual(parseBybitMessage(JSON.stringify(fixtures.wsPublicTrade), 'BTCUSDT'), []);
+  assert.deepEqual(parseBybitMessage(JSON.stringify(fixtures.wsSubscribeAck), 'BTCUSDT'), []);
+  assert.deepEqual(parseBybitMessage(JSON.stringify(fixtures.wsPong), 'BTCUSDT'), []);
+});
+
+test('Bybit subscribe message uses the venue interval name', () => {
+  assert.deepEqual(bybitAdapter.getSubscribeMessages('btcusdt', '4h'), [JSON.stringify({ op: 'subscribe', args: ['kline.240.BTCUSDT'] })]);
+});
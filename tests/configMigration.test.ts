@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../constants';
+import { migrateStrategyConfig, migrateConfigUpdate } from '../server/ConfigMigration';
+
+test('Config migration: legacy EMA flags are carried over to their current names and dropped', () => {
+  const config = migrateStrategyConfig({ id: 'legacy', useEMA7_25: false, ema7_99_Long: true, ema25_99_ExitShort: true });
+
+  assert.equal(config.useEMAFastMid, false);
+  assert.equal(config.emaFastSlow_Long, true);
+  assert.equal(config.emaMidSlow_ExitShort, true);
+  assert.ok(!('useEMA7_25' in config));
+  assert.ok(!('ema7_99_Long' in config));
+  assert.ok(!('ema25_99_ExitShort' in config));
+});
+
+test('Config migration: a current key already present wins over its legacy name', () => {
+  const config = migrateStrategyConfig({ useEMA7_25: false, useEMAFastMid: true });
+  assert.equal(config.useEMAFastMid, true);
+});
+
+test('Config migration: legacy configs are pinned to EMA 7 / 25 / 99, saved periods are kept', () => {
+  const pinned = migrateStrategyConfig({ useEMA7_25: true });
+  assert.deepEqual([pinned.emaFastPeriod, pinned.emaMidPeriod, pinned.emaSlowPeriod], [7, 25, 99]);
+
+  const saved = migrateStrategyConfig({ useEMA7_25: true, emaFastPeriod: 9, emaSlowPeriod: 200 });
+  assert.deepEqual([saved.emaFastPeriod, saved.emaMidPeriod, saved.emaSlowPeriod], [9, 25, 200]);
+});
+
+test('Config migration: fields missing from the saved config come from the defaults', () => {
+  const config = migrateStrategyConfig({ id: 'partial', name: 'partial', tradeAmount: 250 });
+  assert.deepEqual(config, { ...DEFAULT_CONFIG, id: 'partial', name: 'partial', tradeAmount: 250 });
+});
+
+test('Config migration: client updates are renamed but not defaulted', () => {
+  assert.deepEqual(migrateConfigUpdate({ useEMA7_99: true, tradeAmount: 50 }), { useEMAFastSlow: true, tradeAmount: 50 });
+});
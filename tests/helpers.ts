@@ -0,0 +1,24 @@
+
+// Replaces global fetch with one that answers every request with `body` and records the URLs.
+// Returns the recorded URLs and a restore function.
+export const stubFetch = (body: unknown) => {
+  const original = globalThis.fetch;
+  const urls: string[] = [];
+  globalThis.fetch = (async (url: string | URL) => {
+    urls.push(String(url));
+    return { json: async () => body } as Response;
+  }) as typeof fetch;
+
+  return { urls, restore: () => { globalThis.fetch = original; } };
+};
+
+// Runs `fn` with console.error silenced (adapters log rejected responses)
+export const quietly = async <T>(fn: () => Promise<T>): Promise<T> => {
+  const original = console.error;
+  console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.error = original;
+  }
+};
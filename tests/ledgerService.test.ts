@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrategyConfig } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { buildPayload } from '../services/strategyEngine';
+import { createLedger, bookFill, payloadToFill } from '../services/ledgerService';
+
+const ORIGIN = Date.UTC(2025, 0, 6);
+const config: StrategyConfig = { ...DEFAULT_CONFIG };
+
+const fillOf = (action: 'buy' | 'sell', qty: number, price: number, feeBps: number, slippageBps = 0) =>
+  payloadToFill(buildPayload(config, action, action === 'buy' ? 'long' : 'flat', 'test', qty * price, qty, price, new Date(ORIGIN)), ORIGIN, { feeBps, slippageBps });
+
+test('Ledger: slippage works against both sides and fees are charged on the filled notional', () => {
+  const buy = fillOf('buy', 2, 100, 10, 50);
+  const sell = fillOf('sell', 2, 100, 10, 50);
+  assert.ok(Math.abs(buy.price - 100.5) < 1e-9);
+  assert.ok(Math.abs(sell.price - 99.5) < 1e-9);
+  assert.ok(Math.abs(buy.fee - 2 * 100.5 * 0.001) < 1e-9);
+  assert.ok(Math.abs(sell.fee - 2 * 99.5 * 0.001) < 1e-9);
+});
+
+test('Ledger: a round trip realizes its price move net of both fills\' fees', () => {
+  // 10 bps: 0.2 on the 200 entry, 0.22 on the 220 exit
+  let ledger = bookFill(createLedger(), fillOf('buy', 2, 100, 10));
+  assert.ok(Math.abs(ledger.realizedPnl + 0.2) < 1e-9);
+
+  ledger = bookFill(ledger, fillOf('sell', 2, 110, 10));
+  assert.equal(ledger.positionQty, 0);
+  assert.equal(ledger.trades.length, 1);
+  assert.ok(Math.abs(ledger.realizedPnl - 19.58) < 1e-9);
+  assert.ok(Math.abs(ledger.totalFees - 0.42) < 1e-9);
+  assert.ok(Math.abs(ledger.trades[0].pnl - 19.58) < 1e-9);
+  assert.ok(Math.abs(ledger.trades[0].fees - 0.42) < 1e-9);
+});
+
+test('Ledger: a partial close realizes only the closed share', () => {
+  let ledger = bookFill(createLedger(), fillOf('buy', 2, 100, 10));
+  ledger = bookFill(ledger, fillOf('sell', 1, 90, 10));
+
+  // -10 on the closed unit, minus 0.2 entry fee and 0.09 exit fee; the round trip stays open
+  assert.equal(ledger.positionQty, 1);
+  assert.equal(ledger.avgEntryPrice, 100);
+  assert.equal(ledger.trades.length, 0);
+  assert.ok(Math.abs(ledger.realizedPnl + 10.29) < 1e-9);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fixtures from './fixtures/okx.json';
+import { okxAdapter, fetchOkxKlines, parseOkxMessage, toOkxInstId } from '../services/okxService';
+import { stubFetch, quietly } from './helpers';
+
+test('OKX instrument ids', () => {
+  assert.equal(toOkxInstId('btcusdt'), 'BTC-USDT-SWAP');
+  assert.equal(toOkxInstId('BTC-USD-SWAP'), 'BTC-USD-SWAP');
+});
+
+test('OKX history: rows reversed, volume in base coin, confirm flag kept', async () => {
+  const fetchStub = stubFetch(fixtures.restKlines);
+  try {
+    const candles = await okxAdapter.fetchKlines('BTCUSDT', '6h', undefined, 1760313659999);
+
+    // 6h and up use the UTC-aligned bars; `after` is exclusive
+    assert.equal(fetchStub.urls[0], 'https://www.okx.com/api/v5/market/history-candles?instId=BTC-USDT-SWAP&bar=6Hutc&limit=100&after=1760313660000');
+    assert.deepEqual(candles[0], {
+      symbol: 'BTCUSDT', time: 1760313600000,
+      open: 62150.1, high: 62188, low: 62101.5, close: 62170.4, volume: 151.067, isClosed: true
+    });
+    assert.equal(candles[1].isClosed, false);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('OKX history: non-zero codes are rejected as empty history', async () => {
+  const fetchStub = stubFetch(fixtures.errorResponse);
+  try {
+    assert.deepEqual(await quietly(() => fetchOkxKlines('NOPEUSDT', '1m')), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test('OKX stream: confirm "0" / "1" drives isClosed', () => {
+  const [forming] = parseOkxMessage(JSON.stringify(fixtures.wsCandleOpen), 'BTCUSDT');
+  assert.deepEqual(forming, {
+    symbol: 'BTCUSDT', time: 1760313660000,
+    open: 62170.4, high: 62215, low: 62160, close: 62199.1, volume: 71.502, isClosed: false
+  });
+
+  const [closed] = parseOkxMessage(JSON.stringify(fixtures.wsCandleClosed), 'BTCUSDT');
+  assert.equal(closed.isClosed, true);
+});
+
+test('OKX stream: other instruments, trade channels, acks and plain pongs are rejected', () => {
+  assert.deepEqual(parseOkxMessage(JSON.stringify(fixtures.wsOtherInstrument), 'BTCUSDT'), []);
+  assert.deepEqual(parseOkxMessage(JSON.stringify(fixtures.wsTrades), 'BTCUSDT'), []);
+  assert.deepEqual(parseOkxMessage(JSON.stringify(fixtures.wsSubscribeAck), 'BTCUSDT'), []);
+  assert.deepEqual(parseOkxMessage('pong', 'BTCUSDT'), []);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrategyConfig } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { buildPayload } from '../services/strategyEngine';
+import { PaperLedger } from '../server/PaperLedger';
+
+const MINUTE_MS = 60000;
+const MONDAY = Date.UTC(2025, 0, 6);
+const FILL_GAP_MS = 20000;
+
+// No fees or slippage: every round trip below realizes exactly +1
+const config: StrategyConfig = { ...DEFAULT_CONFIG, makerFeeBps: 0, takerFeeBps: 0, slippageBps: 0 };
+
+test('Paper ledger: day and week PnL stay correct after the equity curve is trimmed', () => {
+  const ledger = new PaperLedger('ledger_test', false);
+  // 1500 round trips (3000 fills, past the 2000 point curve), a fill every 20s from Sunday 22:00 UTC
+  let time = MONDAY - 2 * 60 * MINUTE_MS;
+  let sinceMonday = 0;
+  for (let i = 0; i < 1500; i++) {
+    ledger.book(buildPayload(config, 'buy', 'long', 'open', 100, 1, 100, new Date(time)), config, time);
+    time += FILL_GAP_MS;
+    ledger.book(buildPayload(config, 'sell', 'flat', 'close', 101, 1, 101, new Date(time)), config, time);
+    if (time >= MONDAY) sinceMonday++;
+    time += FILL_GAP_MS;
+  }
+
+  // Monday's start is older than every point the curve still holds
+  const now = time;
+  const reset = { timezone: 'UTC', hour: 0 };
+  const performance = ledger.getPerformance(reset, now);
+
+  assert.equal(sinceMonday, 1320);
+  assert.equal(performance.equityCurve.length, 2000);
+  assert.ok(performance.equityCurve[0].time > MONDAY);
+  assert.equal(performance.realizedAllTime, 1500);
+  assert.equal(performance.realizedWeek, sinceMonday);
+  assert.equal(performance.realizedToday, sinceMonday);
+  assert.equal(ledger.getRiskInputs(101, 0, reset, now).dailyPnl, sinceMonday);
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, StrategyConfig, TradeStats } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { enrichCandlesWithIndicators } from '../services/indicatorService';
+import { evaluateStrategy, createOpenPosition } from '../services/strategyEngine';
+
+const MINUTE_MS = 60000;
+const ORIGIN = Date.UTC(2025, 0, 6);
+const STATS: TradeStats = { dailyTradeCount: 0, lastTradeDate: '', cooldownUntil: 0, cooldownReason: '' };
+
+// Fixed TP 2% / SL 1% on the whole position, no signal exits
+const config: StrategyConfig = {
+  ...DEFAULT_CONFIG, isActive: true, tradeAmount: 1000,
+  useEMAFastMid: false, useFixedTPSL: true, takeProfitPct: 2, stopLossPct: 1, fixedTPSLQtyPct: 100
+};
+
+// 120 flat bars at 100, then `last`
+const withLastBar = (last: Pick<Candle, 'open' | 'high' | 'low' | 'close'>): Candle[] => {
+  const candles: Candle[] = Array.from({ length: 120 }, (_, i) => ({
+    symbol: 'BTCUSDT', time: ORIGIN + i * MINUTE_MS, open: 100, high: 100, low: 100, close: 100, volume: 1, isClosed: true
+  }));
+  candles.push({ symbol: 'BTCUSDT', time: ORIGIN + 120 * MINUTE_MS, volume: 1, isClosed: true, ...last });
+  return enrichCandlesWithIndicators(candles, config);
+};
+
+const exitOf = (last: Pick<Candle, 'open' | 'high' | 'low' | 'close'>) => {
+  const position = createOpenPosition('LONG', 1, 100, ORIGIN, config);
+  const result = evaluateStrategy(withLastBar(last), config, position, STATS, { now: new Date(ORIGIN + 121 * MINUTE_MS) });
+  assert.equal(result.actions.length, 1);
+  assert.equal(result.newPositionState.direction, 'FLAT');
+  return result.actions[0];
+};
+
+test('Level exits: a stop touched by a wick fills at the stop, not at the bar close', () => {
+  const exit = exitOf({ open: 100, high: 101, low: 98.5, close: 100.8 });
+  assert.equal(exit.tp_level, '固定止损触发');
+  assert.equal(exit.execution_price, 99);
+  assert.equal(exit.order_type, 'market');
+});
+
+test('Level exits: a take profit fills at its limit price and is tagged limit', () => {
+  const exit = exitOf({ open: 100, high: 102.6, low: 99.5, close: 101 });
+  assert.equal(exit.tp_level, '固定止盈触发');
+  assert.equal(exit.execution_price, 102);
+  assert.equal(exit.order_type, 'limit');
+});
+
+test('Level exits: a bar that gaps through the stop fills at its open', () => {
+  const exit = exitOf({ open: 97, high: 97.5, low: 96, close: 97.2 });
+  assert.equal(exit.tp_level, '固定止损触发');
+  assert.equal(exit.execution_price, 97);
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, StrategyConfig, WebhookPayload } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_MOCK_EXCHANGE } from '../constants';
+import { CandleFeed, DataCallback } from '../server/DataEngine';
+import { RandomWalkFeed } from '../server/MockExchange';
+import { StrategyRunner } from '../server/StrategyRunner';
+
+const MINUTE_MS = 60000;
+const ORIGIN = Date.UTC(2025, 0, 6); // Fixed candle times so daily resets land on the same bars every run
+const WARMUP = 150;
+const WINDOW = 300; // Enough for the slow EMA, short enough to keep the run quick
+
+// Hands the subscriber one more closed candle per step, like a live stream closing bars
+class SteppedFeed implements CandleFeed {
+  public clock = 0;
+  private callback: DataCallback | null = null;
+
+  constructor(private candles: Candle[]) {}
+
+  public async subscribe(_strategyId: string, _source: unknown, _symbol: string, _interval: string, callback: DataCallback) {
+    this.callback = callback;
+  }
+
+  public unsubscribe() {
+    this.callback = null;
+  }
+
+  public play() {
+    for (let i = WARMUP; i <= this.candles.length; i++) {
+      const last = this.candles[i - 1];
+      this.clock = last.time + MINUTE_MS;
+      this.callback?.(this.candles.slice(Math.max(0, i - WINDOW), i));
+    }
+  }
+}
+
+// Closed 1m candles of the mock exchange's random walk, rebased onto ORIGIN
+const walkCandles = (seed: number, bars: number): Candle[] => {
+  const walk = new RandomWalkFeed('BTCUSDT', { ...DEFAULT_MOCK_EXCHANGE, seed, historyBars: bars });
+  return walk.getCandles()
+    .filter(c => c.isClosed)
+    .map((c, i) => ({ ...c, time: ORIGIN + i * MINUTE_MS }));
+};
+
+const runWalk = async (seed: number) => {
+  const config: StrategyConfig = { ...DEFAULT_CONFIG, id: 'walk_test', name: 'walk', isActive: true, tradeAmount: 1000 };
+  const feed = new SteppedFeed(walkCandles(seed, 600));
+  const payloads: WebhookPayload[] = [];
+
+  // A replay run: in-memory ledger, no webhook leaves the process
+  const runner = new StrategyRunner(config, () => {}, (log) => payloads.push(log.payload), {
+    feed, clock: () => feed.clock, replay: { sinkUrl: '' }
+  });
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await runner.start();
+    feed.play();
+  } finally {
+    runner.stop();
+    console.log = log;
+  }
+  return { runner, payloads };
+};
+
+test('Random walk through StrategyRunner: the same seed emits the same payloads', async () => {
+  const first = await runWalk(7);
+  const second = await runWalk(7);
+  const other = await runWalk(8);
+
+  assert.ok(first.payloads.length > 4, `expected trades on the walk, got ${first.payloads.length}`);
+  assert.deepEqual(second.payloads, first.payloads);
+  assert.notDeepEqual(other.payloads, first.payloads);
+});
+
+test('Random walk through StrategyRunner: the paper ledger follows every payload', async () => {
+  const { runner, payloads } = await runWalk(7);
+  const ledger = runner.ledger.state;
+
+  // Net position of the emitted orders = ledger position = engine position
+  const netQty = payloads.reduce((sum, p) => sum + (p.action === 'buy' ? 1 : -1) * (p.execution_quantity ?? parseFloat(p.quantity)), 0);
+  assert.ok(Math.abs(netQty - ledger.positionQty) < 1e-6);
+  const direction = runner.runtime.positionState.direction;
+  assert.equal(direction === 'FLAT' ? 0 : direction === 'LONG' ? 1 : -1, Math.sign(Math.round(ledger.positionQty * 1e6)));
+
+  // Every fill is timestamped on the replay clock and every closed round trip is in the trade list
+  assert.ok(payloads.every(p => Date.parse(p.timestamp) >= ORIGIN));
+  assert.ok(ledger.trades.length > 0);
+  const tradePnl = ledger.trades.reduce((sum, t) => sum + t.pnl, 0);
+  const openPnl = ledger.openTrade ? ledger.openTrade.realized - ledger.openTrade.fees : 0;
+  assert.ok(Math.abs(tradePnl + openPnl - ledger.realizedPnl) < 1e-6, `trades ${tradePnl} vs realized ${ledger.realizedPnl}`);
+});
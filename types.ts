@@ -6,6 +6,13 @@ export type IntervalType =
   | '1h' | '2h' | '3h' | '4h' | '6h' | '8h' | '10h' | '12h' 
   | '1d' | '2d' | '3d' | '1w' | '1M';
 
+// Market data venue (services/exchangeService.ts)
+// MOCK = the local stand-in (server/MockExchange.ts), only used through the server-wide switch
+export type ExchangeId = 'BINANCE' | 'BYBIT' | 'OKX' | 'MOCK';
+
+// Market on the venue: USDT-margined futures, coin-margined futures (quantity in contracts) or spot
+export type MarketType = 'USDT_M' | 'COIN_M' | 'SPOT';
+
 export interface Candle {
   symbol: string; // Data Identity - CRITICAL for Zero Tolerance check
   time: number;
@@ -15,15 +22,26 @@ export interface Candle {
   close: number;
   volume: number;
   isClosed: boolean;
-  // Indicators
-  ema7?: number;
-  ema25?: number;
-  ema99?: number;
+  // Indicators (EMA lengths come from StrategyConfig.emaFastPeriod / emaMidPeriod / emaSlowPeriod)
+  emaFast?: number;
+  emaMid?: number;
+  emaSlow?: number;
   macdLine?: number;
   macdSignal?: number;
   macdHist?: number;
+  rsi?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  atr?: number;
+  supertrend?: number; // Active Supertrend band
+  supertrendDir?: number; // 1 = up, -1 = down
+  vwap?: number; // Session VWAP (resets 00:00 UTC)
 }
 
+// How a fill reaches the book: limit = resting order (maker, no slippage), market = crosses the spread (taker)
+export type OrderType = 'market' | 'limit';
+
 export interface WebhookPayload {
   secret: string;
   action: string;
@@ -39,6 +57,10 @@ export interface WebhookPayload {
   // New Display Fields
   execution_price?: number;
   execution_quantity?: number;
+  sizing?: string; // Sizing mode (and its inputs for entries) that produced the quantity
+  margin_mode?: string; // 'isolated' | 'cross'
+  contract_size?: number; // COIN-M: USD per contract (quantity is in contracts, trade_amount in USD)
+  order_type?: OrderType; // Set by the engine; missing (older logs) = market
 }
 
 export interface AlertLog {
@@ -46,24 +68,144 @@ export interface AlertLog {
   strategyId: string; // Link log to a strategy
   strategyName: string;
   timestamp: number;
-  payload: WebhookPayload;
-  status: 'sent' | 'pending';
+  payload?: WebhookPayload; // Missing on risk alerts
+  status: 'sent' | 'pending' | 'paper' | 'risk' | 'replay'; // paper = booked in the paper ledger only, webhook not sent. replay = fill of a market replay run
   type: string;
+  message?: string; // Risk alerts: why the guard tripped
 }
 
 // --- Strategy Configuration Interfaces ---
 
+// EMA stack direction: UP = Fast > Mid > Slow, DOWN = Fast < Mid < Slow
+export type TrendDirection = 'UP' | 'DOWN' | 'NONE';
+
+// Higher-timeframe confirmation source
+export interface HtfFilter {
+  interval: IntervalType;
+  active: boolean;
+}
+
+// --- Signal Rule Trees (see services/ruleEngine.ts) ---
+
+// Numeric Candle fields a rule condition can read
+export type RuleField =
+  | 'open' | 'high' | 'low' | 'close' | 'volume'
+  | 'emaFast' | 'emaMid' | 'emaSlow'
+  | 'macdLine' | 'macdSignal' | 'macdHist'
+  | 'rsi' | 'bbUpper' | 'bbMiddle' | 'bbLower'
+  | 'atr' | 'supertrend' | 'supertrendDir' | 'vwap';
+
+export type RuleOperand =
+  | { type: 'field'; field: RuleField; offset: number } // offset = bars back (0 = current bar)
+  | { type: 'value'; value: number };
+
+// crossAbove / crossBelow compare the bar against the one before it (same semantics as the toggle crosses)
+export type RuleComparator = '>' | '>=' | '<' | '<=' | 'crossAbove' | 'crossBelow';
+
+export type RuleNode =
+  | {
+      kind: 'condition';
+      left: RuleOperand;
+      comparator: RuleComparator;
+      right: RuleOperand;
+      // Evaluate over the last N bars (1 = current bar only):
+      // any = true on at least one of them, all = true on every one of them
+      lookback: number;
+      lookbackMode: 'any' | 'all';
+    }
+  | { kind: 'and'; children: RuleNode[] }
+  | { kind: 'or'; children: RuleNode[] }
+  | { kind: 'not'; child: RuleNode };
+
+// One tree per signal slot. null = slot never fires.
+export interface SignalRules {
+  long: RuleNode | null;
+  short: RuleNode | null;
+  exitLong: RuleNode | null;
+  exitShort: RuleNode | null;
+}
+
+// SIGNAL = indicator entries + exit pipeline, GRID = resting buy/sell levels in a price range
+export type StrategyType = 'SIGNAL' | 'GRID';
+
+// LONG = buys below price (sells only close them), SHORT = the mirror, NEUTRAL = both sides
+export type GridMode = 'LONG' | 'SHORT' | 'NEUTRAL';
+
+// How entry quantities are sized:
+// FIXED = tradeAmount notional, RISK = balance x riskPct lost at the stop, VOLATILITY = balance x volTargetPct per 1 ATR move,
+// BALANCE_PCT = balancePct of the account balance as notional
+export type SizingMode = 'FIXED' | 'RISK' | 'VOLATILITY' | 'BALANCE_PCT';
+
+// Exchange trading rules for a symbol
+export interface SymbolFilter {
+  stepSize: number; // Quantity increment
+  minQty: number;
+  maxLeverage: number;
+  maintMarginRate: number; // Maintenance margin rate of the first tier (liquidation estimates)
+  contractSize?: number; // COIN-M only: USD face value of one contract (quantity is in contracts)
+  tickSize?: number; // Price increment (from the symbol catalogue)
+  minNotional?: number; // Smallest order value in USDT (from the symbol catalogue)
+}
+
+// One instrument from the venue's exchangeInfo (server/SymbolCatalogue.ts)
+export interface SymbolInfo {
+  symbol: SymbolType;
+  exchange: ExchangeId;
+  marketType: MarketType;
+  status: string; // 'TRADING' = open; SETTLING, BREAK, ... can't be traded
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: number;
+  stepSize: number;
+  minQty: number;
+  minNotional: number; // 0 = no minimum
+  contractSize?: number; // COIN-M only
+}
+
+export type MarginMode = 'ISOLATED' | 'CROSS';
+
+// One grid line and the order resting on it (side null = no order)
+export interface GridLevel {
+  price: number;
+  side: 'buy' | 'sell' | null;
+  quantity: number;
+  fillCount: number;
+}
+
 export interface StrategyConfig {
   id: string;
   name: string; // User friendly name
   isActive: boolean; // Whether strategy is running
 
   // General
+  exchange: ExchangeId; // Where candles come from (tvExchange is only the payload label)
+  marketType: MarketType; // Only Binance serves COIN_M / SPOT; other venues are USDT_M
   symbol: SymbolType;
   interval: IntervalType;
   tradeAmount: number; // Initial entry amount in USDT
+
+  // Position Sizing (tradeAmount is only used by FIXED)
+  sizingMode: SizingMode;
+  accountBalance: number; // USDT account equity the percentage modes are based on
+  riskPct: number; // RISK: % of the balance lost if the stop is hit
+  volTargetPct: number; // VOLATILITY: % of the balance a 1 ATR move is worth
+  balancePct: number; // BALANCE_PCT: % of the balance as notional
   webhookUrl: string;
   secret: string;
+  strategyType: StrategyType;
+
+  // Exchange / Margin (sent with every payload)
+  tvExchange: string; // Exchange identifier, e.g. BINANCE
+  leverage: number; // Capped at the symbol's maxLeverage
+  marginMode: MarginMode;
+
+  // Grid (strategyType = GRID) - signal and exit settings below are ignored
+  gridMode: GridMode;
+  gridLower: number;
+  gridUpper: number;
+  gridLevelCount: number; // Lines from gridLower to gridUpper inclusive
+  gridLevelAmount: number; // USDT per level order
+  gridRearm: boolean; // Re-arm filled levels once their counter order fills
 
   // Signal Trigger Mode
   triggerOnClose: boolean; // false = Intraday (Realtime), true = On Candle Close
@@ -74,35 +216,45 @@ export interface StrategyConfig {
   takeoverQuantity: number;
   takeoverTimestamp: string; // YYYY-MM-DD HH:mm:ss
 
+  // EMA Periods (Fast / Mid / Slow). Legacy configs used fixed 7 / 25 / 99.
+  emaFastPeriod: number;
+  emaMidPeriod: number;
+  emaSlowPeriod: number;
+
   // Trend Filter
-  trendFilterBlockShort: boolean; // 7 > 25 > 99 时不开空
-  trendFilterBlockLong: boolean; // 7 < 25 < 99 时不开多
+  trendFilterBlockShort: boolean; // Fast > Mid > Slow 时不开空
+  trendFilterBlockLong: boolean; // Fast < Mid < Slow 时不开多
+
+  // Multi-Timeframe Confirmation (EMA stack of the last CLOSED higher-timeframe candle)
+  useHtfFilter: boolean;
+  htfFilters: HtfFilter[];
+  htfRequireAligned: boolean; // true = HTF must trend the same way, false = only block when it trends the opposite way
 
   // Signals - EMA Cross Logic
-  useEMA7_25: boolean;
-  ema7_25_Long: boolean; // 上穿开多
-  ema7_25_Short: boolean; // 下穿开空
-  ema7_25_ExitLong: boolean; // 下穿平多
-  ema7_25_ExitShort: boolean; // 上穿平空
-
-  useEMA7_99: boolean;
-  ema7_99_Long: boolean;
-  ema7_99_Short: boolean;
-  ema7_99_ExitLong: boolean;
-  ema7_99_ExitShort: boolean;
-
-  useEMA25_99: boolean;
-  ema25_99_Long: boolean;
-  ema25_99_Short: boolean;
-  ema25_99_ExitLong: boolean;
-  ema25_99_ExitShort: boolean;
-
-  // EMA Double (7/25 vs 99)
+  useEMAFastMid: boolean;
+  emaFastMid_Long: boolean; // 上穿开多
+  emaFastMid_Short: boolean; // 下穿开空
+  emaFastMid_ExitLong: boolean; // 下穿平多
+  emaFastMid_ExitShort: boolean; // 上穿平空
+
+  useEMAFastSlow: boolean;
+  emaFastSlow_Long: boolean;
+  emaFastSlow_Short: boolean;
+  emaFastSlow_ExitLong: boolean;
+  emaFastSlow_ExitShort: boolean;
+
+  useEMAMidSlow: boolean;
+  emaMidSlow_Long: boolean;
+  emaMidSlow_Short: boolean;
+  emaMidSlow_ExitLong: boolean;
+  emaMidSlow_ExitShort: boolean;
+
+  // EMA Double (Fast/Mid vs Slow)
   useEMADouble: boolean; 
-  emaDoubleLong: boolean; // 7/25 上穿 99 开多
-  emaDoubleShort: boolean; // 7/25 下穿 99 开空
-  emaDoubleExitLong: boolean; // 7/25 下穿 99 平多
-  emaDoubleExitShort: boolean; // 7/25 上穿 99 平空
+  emaDoubleLong: boolean; // Fast/Mid 上穿 Slow 开多
+  emaDoubleShort: boolean; // Fast/Mid 下穿 Slow 开空
+  emaDoubleExitLong: boolean; // Fast/Mid 下穿 Slow 平多
+  emaDoubleExitShort: boolean; // Fast/Mid 上穿 Slow 平空
 
   // Signals - MACD
   useMACD: boolean;
@@ -115,15 +267,97 @@ export interface StrategyConfig {
   macdExitLong: boolean; // 死叉平多
   macdExitShort: boolean; // 金叉平空
 
-  // Reversion Entry (EMA7)
-  useReversionEntry: boolean; // Enable waiting for EMA7
-  reversionPct: number; // Distance % from EMA7 (positive = above, negative = below)
+  // Signals - RSI
+  useRSI: boolean;
+  rsiPeriod: number;
+  rsiOverbought: number;
+  rsiOversold: number;
+  rsiLong: boolean; // 上穿超卖线开多
+  rsiShort: boolean; // 下穿超买线开空
+  rsiExitLong: boolean; // 下穿超买线平多
+  rsiExitShort: boolean; // 上穿超卖线平空
+
+  // Signals - Bollinger Bands (band re-entry)
+  useBB: boolean;
+  bbPeriod: number;
+  bbStdDev: number;
+  bbLong: boolean; // 收回下轨开多
+  bbShort: boolean; // 跌回上轨开空
+  bbExitLong: boolean; // 跌回上轨平多
+  bbExitShort: boolean; // 收回下轨平空
+
+  // ATR (carried on every candle; Supertrend uses its own period below)
+  atrPeriod: number;
+
+  // Signals - Supertrend (direction flip)
+  useSupertrend: boolean;
+  supertrendPeriod: number;
+  supertrendMultiplier: number;
+  supertrendLong: boolean; // 翻多开多
+  supertrendShort: boolean; // 翻空开空
+  supertrendExitLong: boolean; // 翻空平多
+  supertrendExitShort: boolean; // 翻多平空
+
+  // Signals - VWAP (price crossing session VWAP)
+  useVWAP: boolean;
+  vwapLong: boolean; // 上穿开多
+  vwapShort: boolean; // 下穿开空
+  vwapExitLong: boolean; // 下穿平多
+  vwapExitShort: boolean; // 上穿平空
+
+  // Rule Builder - when enabled, signalRules replace every toggle signal group above
+  // (trend filter, reversion entry and exits still apply)
+  useRuleBuilder: boolean;
+  signalRules: SignalRules;
+
+  // Reversion Entry (Fast EMA)
+  useReversionEntry: boolean; // Enable waiting for the fast EMA
+  reversionPct: number; // Distance % from the fast EMA (positive = above, negative = below)
+
+  // Pyramiding - scale into an open position on further same-direction signals
+  usePyramiding: boolean;
+  pyramidMaxAdds: number; // Adds on top of the first entry
+  pyramidAddPct: number; // Size of each add as % of tradeAmount
+  pyramidMinMovePct: number; // Price must have moved this % in favour of the last fill
+  pyramidOnPullback: boolean; // Also add when price pulls back to the fast EMA (no signal needed)
+
+  // Exit Pipeline shares (% of the REMAINING quantity closed when the exit fires; 100 = full close)
+  signalExitQtyPct: number;
+  fixedTPSLQtyPct: number;
+  trailQtyPct: number;
 
   // Trailing Stop
   useTrailingStop: boolean;
   trailActivation: number; 
   trailDistance: number; 
 
+  // ATR Stops (distances = multiple of the ATR captured at entry, ATR period = atrPeriod)
+  useATRStops: boolean;
+  atrStopMult: number;
+  atrTargetMult: number; // 0 = no target
+
+  // Chandelier Trailing Stop (highest high - k * ATR for longs, lowest low + k * ATR for shorts)
+  useChandelierStop: boolean;
+  chandelierMult: number;
+
+  // Time Exits (full close; times of day in scheduleTimezone with a schedule, else the daily reset timezone)
+  useTimeExit: boolean;
+  maxBarsHeld: number; // Close after N bars of the strategy interval (0 = off)
+  maxHoldMinutes: number; // Close after N minutes of wall-clock time (0 = off)
+  useCloseAtTime: boolean;
+  closeAtTime: string; // "HH:MM" - positions opened before the daily cut-off are closed at it
+  useCloseBeforeWeekend: boolean;
+  weekendCloseTime: string; // "HH:MM" on Friday
+
+  // Trading Schedule - new entries (incl. pyramiding adds / reverse) only inside the window, never in a blackout
+  useSchedule: boolean;
+  scheduleTimezone: string; // IANA name, e.g. "Asia/Shanghai"
+  scheduleWeekdays: number[]; // 0 = Sunday; an overnight session belongs to the day it starts
+  scheduleStart: string; // "HH:MM" in scheduleTimezone
+  scheduleEnd: string; // "HH:MM", earlier than start = overnight, equal = all day
+  blackoutWindows: BlackoutWindow[];
+  blackoutFlattenMinutes: number; // Windows with `flatten` close open positions this long before they start
+
   // Fixed TP/SL
   useFixedTPSL: boolean;
   takeProfitPct: number;
@@ -134,21 +368,99 @@ export interface StrategyConfig {
   tpLevels: { pct: number; qtyPct: number; active: boolean }[];
   slLevels: { pct: number; qtyPct: number; active: boolean }[];
 
+  // Break-Even (Multi Level TP/SL only): once TP #breakEvenTriggerLevel fills, the remaining
+  // quantity is stopped at entry +/- offset instead of the slLevels
+  useBreakEven: boolean;
+  breakEvenTriggerLevel: number; // 1-based TP level
+  breakEvenOffsetPct: number; // Profit side offset from entry (covers fees)
+  breakEvenLockPrevTP: boolean; // After each later TP level, raise the stop to the previous TP price
+
   // Reverse
   useReverse: boolean;
   reverseLongToShort: boolean;
   reverseShortToLong: boolean;
 
+  // Cooldown - no new entries for a while after a position is fully closed (reverse entries are exempt)
+  useCooldown: boolean;
+  cooldownUnit: 'BARS' | 'MINUTES';
+  cooldownAfterExit: number; // After any exit (0 = off)
+  cooldownAfterLoss: number; // Used instead when the round trip lost (realized PnL of all its exits < 0)
+
   // Risk / Limits
   maxDailyTrades: number;
+  // Trading day boundary for the daily trade counter and daily PnL / loss limits
+  dailyResetTimezone: string; // IANA name, '' = use the global default
+  dailyResetHour: number; // 0-23 in dailyResetTimezone
+
+  // Risk Guard - tripping it (optionally) flattens, deactivates the strategy and needs a manual acknowledgement
+  useRiskGuard: boolean;
+  riskMaxDailyLoss: number; // USDT realized loss today (0 = off)
+  riskMaxConsecutiveLosses: number; // Losing round trips in a row (0 = off)
+  riskMaxDrawdown: number; // USDT below the equity peak, unrealized included (0 = off)
+  riskFlattenOnTrip: boolean;
+
+  // Paper Trading (every payload is booked in the ledger; paper mode also suppresses the webhook)
+  paperTrading: boolean;
+  takerFeeBps: number; // Market-style fills (signals, stops, trailing, manual)
+  makerFeeBps: number; // Limit fills (order_type limit: take-profit targets, grid levels)
+  slippageBps: number; // Applied to taker fills only
+}
+
+// Ad-hoc no-trading window (e.g. around CPI / FOMC)
+export interface BlackoutWindow {
+  label: string;
+  start: number; // Timestamp (ms)
+  end: number;
+  flatten: boolean; // Close open positions before it starts
+}
+
+// Result of checking the schedule at a point in time (services/scheduleService.ts)
+export interface ScheduleStatus {
+  canEnter: boolean;
+  reason: string; // Why entries are blocked ('' when allowed)
+  flattenReason: string; // Set when an open position must be closed now
+}
+
+// When the trading day rolls over
+export interface DailyResetSetting {
+  timezone: string;
+  hour: number;
+}
+
+// Server-wide settings (server/SystemSettings.ts)
+// Instrument streamed from server start, even without a strategy on it
+export interface PreloadSymbol {
+  exchange: ExchangeId;
+  marketType: MarketType;
+  symbol: SymbolType;
+}
+
+// Local mock exchange (server/MockExchange.ts)
+export interface MockExchangeSetting {
+  enabled: boolean; // All market data comes from the mock. Applied on server start.
+  speed: number; // Simulated ms per real ms (1 = real time, 60 = one 1m candle per second)
+  seed: number; // Random walk seed - the same seed replays the same prices
+  historyBars: number; // Closed 1m candles served as history when a symbol is first requested
+}
+
+export interface SystemSettings {
+  dailyReset: DailyResetSetting; // Default for strategies without their own
+  preloadSymbols: PreloadSymbol[];
+  mockExchange: MockExchangeSetting;
 }
 
 // --- Internal State for the Strategy Engine ---
 
+export interface PositionFill {
+  price: number;
+  quantity: number;
+  time: number;
+}
+
 export interface PositionState {
   direction: 'LONG' | 'SHORT' | 'FLAT';
   
-  initialQuantity: number; // Total quantity at entry
+  initialQuantity: number; // Total quantity entered (first entry + adds)
   remainingQuantity: number; // Current quantity held
   
   entryPrice: number;
@@ -159,13 +471,47 @@ export interface PositionState {
   slLevelsHit: boolean[]; 
 
   // Reversion State
-  pendingReversion: 'LONG' | 'SHORT' | null; // If not null, we are waiting for price to hit EMA7 target
+  pendingReversion: 'LONG' | 'SHORT' | null; // If not null, we are waiting for price to hit the fast EMA target
   pendingReversionReason: string;
+
+  // Volatility Exits (0 = not set)
+  entryATR: number; // ATR captured at entry
+  atrStopPrice: number; // entry -/+ atrStopMult * entryATR
+  atrTargetPrice: number; // entry +/- atrTargetMult * entryATR
+  chandelierStop: number; // Ratchets with the trade, never loosens
+
+  // Break-Even Stop (0 = not armed)
+  breakEvenStop: number;
+  breakEvenLockedLevel: number; // 0 = at entry (+offset), n = locked at TP n price
+  breakEvenArmedAt: number; // Candle time the stop was armed on - that candle's earlier extremes are ignored
+
+  // Exit Pipeline (partial exits fire once)
+  fixedTPHit: boolean;
+  fixedSLHit: boolean;
+  trailHit: boolean;
+  lastSignalExitTime: number; // Candle time of the last signal exit - one per candle
+
+  // Pyramiding - entryPrice is the volume-weighted average of the fills
+  fills: PositionFill[];
+  lastAddTime: number; // Candle time of the last add - one per candle
+
+  // Gross PnL (USDT) of the partial exits booked so far - a round trip is a loss when this plus the final close is negative
+  realizedPnl: number;
+
+  // Grid (GRID strategies only) - direction / remainingQuantity / entryPrice hold the net position
+  gridLevels: GridLevel[]; // Empty = not built yet
+  gridKey: string; // Grid settings the levels were built from - a change rebuilds them
+  gridLastPrice: number; // Price at the previous evaluation, fills are the levels crossed since
+  gridBarTime: number; // Candle seen at the previous evaluation (0 = unknown) and its extremes so far -
+  gridBarHigh: number; // a later high / low beyond them was visited in between
+  gridBarLow: number;
 }
 
 export interface TradeStats {
   dailyTradeCount: number;
   lastTradeDate: string; // ISO Date String YYYY-MM-DD
+  cooldownUntil: number; // Timestamp (ms) before which no new entries open (0 = none)
+  cooldownReason: string;
 }
 
 // Container for a running strategy instance
@@ -175,4 +521,182 @@ export interface StrategyRuntime {
   positionState: PositionState;
   tradeStats: TradeStats;
   lastPrice: number;
+  ledger: LedgerSummary;
+  htfTrends: Partial<Record<IntervalType, TrendDirection>>; // Latest trend per subscribed HTF filter
+  riskHalt: RiskHalt | null; // Set while a tripped risk guard waits for acknowledgement
+  riskMetrics: RiskMetrics;
+}
+
+// --- Risk Guard ---
+
+export interface RiskLimits {
+  maxDailyLoss: number; // 0 = off
+  maxConsecutiveLosses: number;
+  maxDrawdown: number;
+  flattenOnTrip: boolean;
+}
+
+// Measured since the later of today's start and the last acknowledgement
+export interface RiskMetrics {
+  dailyPnl: number; // Realized
+  consecutiveLosses: number;
+  equity: number; // Realized + unrealized PnL
+  peakEquity: number;
+  drawdown: number; // peakEquity - equity
+}
+
+export interface RiskHalt {
+  scope: 'STRATEGY' | 'GLOBAL';
+  reason: string;
+  time: number;
+}
+
+// Account-wide guard across every strategy (server/RiskGuard.ts)
+export interface GlobalRiskState {
+  enabled: boolean;
+  limits: RiskLimits;
+  halt: RiskHalt | null;
+  metrics: RiskMetrics;
+}
+
+// --- Fill Ledger (shared by Backtest & Paper Trading) ---
+
+export interface LedgerFill {
+  time: number;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number; // Effective price after slippage
+  fee: number; // USDT
+  reason: string; // Copied from payload.tp_level
+  contractSize?: number; // COIN-M: quantity is in contracts of this USD face value
+}
+
+export interface ClosedTrade {
+  direction: 'LONG' | 'SHORT';
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number; // Volume weighted
+  exitPrice: number; // Volume weighted
+  quantity: number; // Largest size held during the round trip
+  pnl: number; // Net of fees
+  fees: number;
+  entryReason: string;
+  exitReason: string;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface LedgerState {
+  positionQty: number; // Signed: > 0 long, < 0 short
+  avgEntryPrice: number;
+  contractSize?: number; // COIN-M position (inverse pnl), from the opening fill
+  realizedPnl: number; // Net of fees
+  totalFees: number;
+  // Round trip currently being built (null when flat)
+  openTrade: {
+    direction: 'LONG' | 'SHORT';
+    entryTime: number;
+    maxQuantity: number;
+    entryValue: number; // Sum of entry price * qty
+    entryQty: number;
+    exitValue: number;
+    exitQty: number;
+    fees: number;
+    realized: number; // Gross pnl realized by partial exits so far
+    entryReason: string;
+  } | null;
+  trades: ClosedTrade[];
+  // Realized PnL before the first fill of each 15 min bucket with fills, last 8 days (day / week windows;
+  // the trades list and equity curve are trimmed by count)
+  realizedMarks: EquityPoint[];
+}
+
+// Compact ledger view broadcast with every runtime update
+export interface LedgerSummary {
+  positionQty: number; // Signed
+  avgEntryPrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number; // Marked against lastPrice
+  totalFees: number;
+  tradeCount: number;
+}
+
+// Heavier performance data, pushed on fills (not with every tick)
+export interface PerformanceSnapshot {
+  strategyId: string;
+  realizedToday: number; // UTC day
+  realizedWeek: number; // Since Monday 00:00 UTC
+  realizedAllTime: number;
+  totalFees: number;
+  equityCurve: EquityPoint[]; // Cumulative realized PnL after each fill
+  trades: ClosedTrade[]; // Round trips, newest first
+}
+
+// --- Backtest ---
+
+// How each target bar is fed to evaluateStrategy:
+// close = once, as a closed bar | ohlc = synthetic O/H/L/C ticks | base = through its finer base candles
+export type BacktestReplayMode = 'close' | 'ohlc' | 'base';
+
+export interface BacktestOptions {
+  initialCapital: number; // USDT, baseline for equity curve & returns
+  feeBps: number; // Charged on every fill notional
+  slippageBps: number; // Applied against us on every fill
+  replayMode: BacktestReplayMode;
+  baseInterval: IntervalType; // Source candles for 'base' mode (e.g. 1m behind 15m)
+  // Order of high vs low inside a candle we cannot see into.
+  // pessimistic = adverse extreme first (SL before TP), optimistic = favourable first.
+  pathAssumption: 'pessimistic' | 'optimistic';
+}
+
+export interface BacktestStats {
+  totalTrades: number;
+  winRate: number; // 0 - 100
+  profitFactor: number; // Gross profit / gross loss (capped at 999, also when there are no losses)
+  netPnl: number;
+  totalReturnPct: number;
+  maxDrawdown: number; // USDT
+  maxDrawdownPct: number;
+  sharpe: number; // Annualised, from per-bar equity returns
+  totalFees: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  interval: IntervalType;
+  startTime: number;
+  endTime: number;
+  bars: number;
+  replayMode: BacktestReplayMode;
+  baseBars: number; // Bars replayed through base candles
+  fallbackBars: number; // Bars that fell back to the OHLC path (base data missing)
+  trades: ClosedTrade[];
+  equityCurve: EquityPoint[];
+  stats: BacktestStats;
+}
+
+// --- Market Replay ---
+
+// Start of a replay run (server/MarketReplay.ts)
+export interface ReplayRequest {
+  from: number; // Replay clock start, NaN = DEFAULT_REPLAY_BARS before `to` (later if the symbol's history starts later)
+  to: number; // Replay end, NaN = now. The range is downloaded from the venue's REST history.
+  speed: number; // Replay ms per real ms, 1 - MAX_REPLAY_SPEED
+  sinkUrl: string; // Webhooks are POSTed here instead of the strategy's URL. Empty = suppressed.
+}
+
+export type ReplayAction = 'pause' | 'resume' | 'step' | 'seek' | 'speed';
+
+export interface ReplayStatus {
+  strategyId: string;
+  runId: number; // Bumped by start / seek - the runtime and logs of older runs are stale
+  state: 'running' | 'paused' | 'ended';
+  speed: number;
+  time: number; // Replay clock
+  start: number; // Earliest seekable time
+  end: number; // Close of the last downloaded candle
+  sinkUrl: string;
 }